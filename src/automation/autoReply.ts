@@ -0,0 +1,187 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  AutoReplyMode,
+  AutoReplyOutcome,
+  DraftResponse,
+  IntentAnalysis,
+  KnowledgeResult,
+  TicketCategory,
+} from '../types';
+import { logger } from '../utils/logger';
+import { categoryWithin } from '../utils/taxonomy';
+import { currentTicketContext } from '../utils/context';
+
+export interface AutoReplyPolicyOptions {
+  mode?: AutoReplyMode;
+  categories?: TicketCategory[];  // Also allows their subcategories
+  minConfidence?: number;
+  minSources?: number;
+  minSourceScore?: number;
+  tag?: string;
+  auditPath?: string;      // JSONL audit log (in-memory if unset)
+}
+
+/**
+ * A drafted ticket considered for auto-reply
+ */
+export interface AutoReplyCandidate {
+  ticketId: number;
+  category: TicketCategory;
+  sentiment: IntentAnalysis['sentiment'];
+  draft: DraftResponse;
+  knowledge: KnowledgeResult[];
+  injectionSuspected?: boolean;  // Flagged by the prompt injection guard
+}
+
+export interface AutoReplyAuditEntry extends AutoReplyOutcome {
+  timestamp: string;
+  ticketId: number;
+  category: TicketCategory;
+  confidence: number;
+  sentiment: IntentAnalysis['sentiment'];
+  sources: Array<{ id: string; title?: string; score: number }>;
+  draft: string;
+}
+
+/**
+ * Decides whether a draft may be published to the customer without review.
+ * A draft is sent only when every gate passes: allowlisted category, confidence
+ * at or above minConfidence, no human review requested, a customer who isn't
+ * frustrated, no suspected prompt injection, and at least minSources knowledge
+ * base articles backing it.
+ * In shadow mode nothing is sent; the decision is only logged and audited.
+ */
+export class AutoReplyPolicy {
+  readonly mode: AutoReplyMode;
+  readonly tag: string;
+  private categories: TicketCategory[];
+  private minConfidence: number;
+  private minSources: number;
+  private minSourceScore: number;
+  private auditPath?: string;
+  private entries: AutoReplyAuditEntry[] = [];
+
+  constructor(options: AutoReplyPolicyOptions = {}) {
+    this.mode = options.mode || 'off';
+    this.tag = options.tag || 'ai_auto_replied';
+    this.categories = options.categories || [];
+    this.minConfidence = options.minConfidence ?? 0.9;
+    this.minSources = options.minSources ?? 1;
+    this.minSourceScore = options.minSourceScore ?? 0.5;
+    this.auditPath = options.auditPath;
+  }
+
+  /**
+   * The gates a candidate fails; empty when it may be sent
+   */
+  evaluate(candidate: AutoReplyCandidate): string[] {
+    const { category, sentiment, draft } = candidate;
+    const reasons: string[] = [];
+
+    if (!this.categories.some(allowed => categoryWithin(category, allowed))) {
+      reasons.push(`category ${category} is not on the allowlist`);
+    }
+    if (draft.confidence < this.minConfidence) {
+      reasons.push(`confidence ${draft.confidence} is below ${this.minConfidence}`);
+    }
+    if (draft.requiresHumanReview) {
+      reasons.push('draft requires human review');
+    }
+    if (sentiment === 'frustrated') {
+      reasons.push('customer is frustrated');
+    }
+    if (candidate.injectionSuspected) {
+      reasons.push('possible prompt injection');
+    }
+    const sources = this.supportingSources(candidate.knowledge).length;
+    if (sources < this.minSources) {
+      reasons.push(`${sources} supporting knowledge base sources, ${this.minSources} required`);
+    }
+    if (!draft.draft.trim()) {
+      reasons.push('draft is empty');
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Knowledge base articles that back a draft. Solved tickets don't count:
+   * they show what an agent once said, not current documentation.
+   * Hybrid results are judged by their semantic similarity: the fused score
+   * reflects rank, so a keyword-only hit can score high without being relevant.
+   */
+  supportingSources(knowledge: KnowledgeResult[]): KnowledgeResult[] {
+    return knowledge.filter(k => {
+      const relevance = k.fusedRank !== undefined ? k.semanticScore : k.score;
+      return k.source !== 'resolved_ticket' && relevance !== undefined && relevance >= this.minSourceScore;
+    });
+  }
+
+  /**
+   * Record a decision in the audit log. The draft is stored with the ticket's
+   * PII placeholders, as in the LLM calls, rather than the customer's details.
+   */
+  async audit(candidate: AutoReplyCandidate, outcome: AutoReplyOutcome): Promise<void> {
+    const redaction = currentTicketContext()?.redaction;
+    const entry: AutoReplyAuditEntry = {
+      timestamp: new Date().toISOString(),
+      ticketId: candidate.ticketId,
+      ...outcome,
+      category: candidate.category,
+      confidence: candidate.draft.confidence,
+      sentiment: candidate.sentiment,
+      sources: this.supportingSources(candidate.knowledge).map(k => ({ id: k.id, title: k.title, score: k.score })),
+      draft: redaction ? redaction.redact(candidate.draft.draft) : candidate.draft.draft,
+    };
+
+    if (!this.auditPath) {
+      this.entries.push(entry);
+      return;
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.auditPath), { recursive: true });
+      await fs.promises.appendFile(this.auditPath, JSON.stringify(entry) + '\n');
+    } catch (error) {
+      logger.error('Failed to write auto-reply audit log', {
+        path: this.auditPath,
+        ticketId: candidate.ticketId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Most recent audit entries first
+   */
+  async list(filter: { action?: AutoReplyOutcome['action']; ticketId?: number; limit?: number } = {}): Promise<AutoReplyAuditEntry[]> {
+    const entries = await this.readAudit();
+    return entries
+      .filter(e => (!filter.action || e.action === filter.action) && (!filter.ticketId || e.ticketId === filter.ticketId))
+      .reverse()
+      .slice(0, filter.limit ?? 50);
+  }
+
+  private async readAudit(): Promise<AutoReplyAuditEntry[]> {
+    if (!this.auditPath) return [...this.entries];
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.auditPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: AutoReplyAuditEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AutoReplyAuditEntry);
+      } catch {
+        // Skip a partially written line
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,232 @@
+import { IntentAnalysis, TicketCategory, TicketUpdate, UrgencyLevel } from '../types';
+import { categoryWithin } from '../utils/taxonomy';
+import { readConfigFile } from '../utils/files';
+import { INTENT_SCHEMA, JsonSchema } from '../llm/schema';
+
+export const ZENDESK_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const;
+export type ZendeskPriority = typeof ZENDESK_PRIORITIES[number];
+
+const CONDITION_KEYS = ['category', 'urgency', 'sentiment', 'keyEntities', 'requesterDomain', 'tags'] as const;
+const ACTION_KEYS = ['assigneeId', 'groupId', 'priority', 'tags', 'customFields'] as const;
+
+type Match = string | string[];
+
+/**
+ * What a rule matches on. Every listed field must match; a list matches when
+ * any of its values does. Comparisons ignore case.
+ */
+export interface RuleConditions {
+  category?: Match;          // Also matches subcategories
+  urgency?: Match;
+  sentiment?: Match;
+  keyEntities?: Match;       // Any extracted entity
+  requesterDomain?: Match;   // Also matches subdomains
+  tags?: Match;              // Any tag already on the ticket
+}
+
+export interface RuleActions {
+  assigneeId?: number;
+  groupId?: number;
+  priority?: ZendeskPriority;
+  tags?: string[];
+  customFields?: Record<string, string>;  // Field ID -> value
+}
+
+export interface RoutingRule {
+  name: string;
+  when: RuleConditions;
+  then: RuleActions;
+  stop?: boolean;            // Skip the rules after this one when it matches
+}
+
+/**
+ * The processed ticket as the rules see it
+ */
+export interface RoutingFacts {
+  category: TicketCategory;
+  urgency: UrgencyLevel;
+  sentiment: IntentAnalysis['sentiment'];
+  keyEntities: string[];
+  requesterEmail?: string;
+  tags: string[];
+}
+
+/**
+ * RoutingFacts as accepted from an API request; urgency, sentiment and the
+ * lists are optional there
+ */
+export const ROUTING_FACTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    category: { type: 'string', minLength: 1 },
+    urgency: INTENT_SCHEMA.properties!.urgency,
+    sentiment: INTENT_SCHEMA.properties!.sentiment,
+    keyEntities: INTENT_SCHEMA.properties!.keyEntities,
+    requesterEmail: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['category'],
+};
+
+export interface RoutingDecision {
+  matched: string[];         // Names of the rules that fired, in order
+  actions: RuleActions;
+}
+
+/**
+ * Declarative assignment and routing rules, loaded from a JSON or YAML file:
+ *
+ *   - name: vip-billing
+ *     when: { category: billing, requesterDomain: bigcustomer.com }
+ *     then: { groupId: 360001, priority: high, tags: [vip] }
+ *     stop: true
+ *
+ * Rules are evaluated in order and every matching rule applies. For the
+ * assignee, group, priority and each custom field the first rule that sets it
+ * wins; tags from all matching rules are combined.
+ */
+export class RulesEngine {
+  readonly rules: RoutingRule[];
+
+  constructor(rules: unknown) {
+    this.rules = validateRules(rules);
+  }
+
+  /**
+   * Load rules from a .yaml/.yml file, or JSON otherwise
+   */
+  static fromFile(filePath: string): RulesEngine {
+    let rules = readConfigFile(filePath, 'routing rules');
+    // Allow either a bare list or { rules: [...] }
+    if (rules && !Array.isArray(rules) && typeof rules === 'object' && 'rules' in rules) {
+      rules = (rules as { rules: unknown }).rules;
+    }
+    return new RulesEngine(rules);
+  }
+
+  evaluate(facts: RoutingFacts): RoutingDecision {
+    const matched: string[] = [];
+    const actions: RuleActions = {};
+
+    for (const rule of this.rules) {
+      if (!matches(rule.when, facts)) continue;
+      matched.push(rule.name);
+
+      const { then } = rule;
+      actions.assigneeId ??= then.assigneeId;
+      actions.groupId ??= then.groupId;
+      actions.priority ??= then.priority;
+      if (then.tags?.length) {
+        actions.tags = [...new Set([...(actions.tags || []), ...then.tags])];
+      }
+      if (then.customFields) {
+        actions.customFields = { ...then.customFields, ...actions.customFields };
+      }
+
+      if (rule.stop) break;
+    }
+
+    return { matched, actions: stripUndefined(actions) };
+  }
+
+  /**
+   * The Zendesk update for a decision's actions. Tags are added to the ticket's
+   * existing tags rather than replacing them.
+   */
+  static toUpdate(actions: RuleActions): TicketUpdate {
+    const update: TicketUpdate = {};
+    if (actions.assigneeId !== undefined) update.assignee_id = actions.assigneeId;
+    if (actions.groupId !== undefined) update.group_id = actions.groupId;
+    if (actions.priority) update.priority = actions.priority;
+    if (actions.tags?.length) update.additional_tags = actions.tags;
+    if (actions.customFields) {
+      update.custom_fields = Object.entries(actions.customFields).map(([id, value]) => ({ id: Number(id), value }));
+    }
+    return update;
+  }
+}
+
+function matches(when: RuleConditions, facts: RoutingFacts): boolean {
+  const domain = facts.requesterEmail?.split('@')[1]?.toLowerCase();
+
+  return CONDITION_KEYS.every(key => {
+    const expected = when[key];
+    if (expected === undefined) return true;
+    const values = toList(expected).map(v => v.toLowerCase());
+
+    switch (key) {
+      case 'keyEntities':
+        return facts.keyEntities.some(e => values.includes(e.toLowerCase()));
+      case 'tags':
+        return facts.tags.some(t => values.includes(t.toLowerCase()));
+      case 'requesterDomain':
+        return !!domain && values.some(d => domain === d || domain.endsWith(`.${d}`));
+      case 'category':
+        return values.some(c => categoryWithin(facts.category.toLowerCase(), c));
+      default:
+        return values.includes(facts[key].toLowerCase());
+    }
+  });
+}
+
+/**
+ * Check the shape of loaded rules, naming the offending rule on error
+ */
+function validateRules(rules: unknown): RoutingRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error('Routing rules must be a list');
+  }
+
+  return rules.map((rule, i) => {
+    const where = `Routing rule ${i + 1}${rule?.name ? ` (${rule.name})` : ''}`;
+    if (!rule || typeof rule !== 'object') throw new Error(`${where} must be an object`);
+    if (typeof rule.name !== 'string' || !rule.name) throw new Error(`${where} needs a name`);
+
+    const when = rule.when ?? {};
+    if (typeof when !== 'object' || Array.isArray(when)) throw new Error(`${where}: "when" must be an object`);
+    for (const [key, value] of Object.entries(when)) {
+      if (!(CONDITION_KEYS as readonly string[]).includes(key)) {
+        throw new Error(`${where}: unknown condition "${key}" (expected one of ${CONDITION_KEYS.join(', ')})`);
+      }
+      if (!toList(value as Match).every(v => typeof v === 'string')) {
+        throw new Error(`${where}: condition "${key}" must be a string or a list of strings`);
+      }
+    }
+
+    const then = rule.then;
+    if (!then || typeof then !== 'object' || Array.isArray(then)) throw new Error(`${where}: "then" must be an object`);
+    for (const key of Object.keys(then)) {
+      if (!(ACTION_KEYS as readonly string[]).includes(key)) {
+        throw new Error(`${where}: unknown action "${key}" (expected one of ${ACTION_KEYS.join(', ')})`);
+      }
+    }
+    for (const key of ['assigneeId', 'groupId'] as const) {
+      if (then[key] !== undefined && !Number.isInteger(then[key])) {
+        throw new Error(`${where}: ${key} must be an integer`);
+      }
+    }
+    if (then.priority !== undefined && !ZENDESK_PRIORITIES.includes(then.priority)) {
+      throw new Error(`${where}: priority must be one of ${ZENDESK_PRIORITIES.join(', ')}`);
+    }
+    if (then.tags !== undefined && !(Array.isArray(then.tags) && then.tags.every((t: unknown) => typeof t === 'string'))) {
+      throw new Error(`${where}: tags must be a list of strings`);
+    }
+    if (then.customFields !== undefined) {
+      const fields = Object.entries(then.customFields ?? {});
+      if (!then.customFields || typeof then.customFields !== 'object' || fields.some(([id]) => !/^\d+$/.test(id))) {
+        throw new Error(`${where}: customFields must map numeric field IDs to values`);
+      }
+      then.customFields = Object.fromEntries(fields.map(([id, value]) => [id, String(value)]));
+    }
+
+    return { name: rule.name, when, then, stop: rule.stop === true };
+  });
+}
+
+function toList(value: Match): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function stripUndefined(actions: RuleActions): RuleActions {
+  return Object.fromEntries(Object.entries(actions).filter(([, v]) => v !== undefined)) as RuleActions;
+}
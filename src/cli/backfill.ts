@@ -0,0 +1,95 @@
+import { parseArgs } from 'util';
+import { createServices } from '../services';
+import { Backfill, BackfillReport } from '../queue/backfill';
+import { appConfig } from '../utils/config';
+import { logger } from '../utils/logger';
+
+const USAGE = `Usage: npm run backfill -- --query "<zendesk search>" [--dry-run] [--concurrency N] [--limit N]
+       npm run backfill -- --resume
+
+  --query        Zendesk ticket search, e.g. "status:open created>2024-01-01"
+  --dry-run      Only categorize tickets; nothing is written to Zendesk
+  --concurrency  Tickets processed at once (default BACKFILL_CONCURRENCY)
+  --limit        Stop after this many unprocessed tickets
+  --resume       Continue the last interrupted or cancelled backfill`;
+
+/**
+ * Process a backlog of existing tickets from the command line. Progress is
+ * saved to BACKFILL_STATE_PATH, so an interrupted run can be resumed.
+ */
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      query: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      concurrency: { type: 'string' },
+      limit: { type: 'string' },
+      resume: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const concurrency = values.concurrency ? parseInt(values.concurrency, 10) : undefined;
+  const limit = values.limit ? parseInt(values.limit, 10) : undefined;
+  if (values.help || (!values.query && !values.resume) || Number.isNaN(concurrency) || Number.isNaN(limit)) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const { zendesk, processor } = createServices(appConfig);
+  const backfill = new Backfill(zendesk, processor, {
+    statePath: appConfig.backfill.statePath,
+    concurrency: appConfig.backfill.concurrency,
+  });
+
+  // Finish the current batch on Ctrl+C; the rest can be resumed
+  process.once('SIGINT', () => {
+    logger.warn('Cancelling backfill after the current batch (Ctrl+C again to abort)');
+    backfill.cancel();
+    process.once('SIGINT', () => process.exit(130));
+  });
+
+  const progress = setInterval(() => {
+    const status = backfill.status();
+    if (status) {
+      logger.info(`Backfill ${status.status}: ${status.processed} processed, ${status.failed} failed, ${status.remaining} remaining`);
+    }
+  }, 10_000);
+
+  try {
+    const report = values.resume
+      ? await backfill.resume()
+      : await backfill.run({ query: values.query!, dryRun: values['dry-run'], concurrency, limit });
+    printReport(report);
+    return report.failed > 0 ? 1 : 0;
+  } finally {
+    clearInterval(progress);
+  }
+}
+
+function printReport(report: BackfillReport): void {
+  console.log(`\nBackfill ${report.status}${report.dryRun ? ' (dry run)' : ''}: ${report.query}`);
+  console.log(`  Found:             ${report.found}`);
+  console.log(`  Already processed: ${report.alreadyProcessed}`);
+  console.log(`  Processed:         ${report.processed}`);
+  console.log(`  Failed:            ${report.failed}`);
+  console.log(`  Remaining:         ${report.remaining}`);
+
+  const categories = Object.entries(report.categories).sort(([, a], [, b]) => b - a);
+  if (categories.length > 0) {
+    console.log('\n  Categories:');
+    for (const [category, count] of categories) {
+      console.log(`    ${category.padEnd(20)} ${count}`);
+    }
+  }
+  for (const { ticketId, error } of report.errors) {
+    console.log(`  #${ticketId}: ${error}`);
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    logger.error('Backfill failed', { error: error instanceof Error ? error.message : error });
+    process.exit(1);
+  });
@@ -1,8 +1,13 @@
 import express, { Request, Response } from 'express';
-import { ZendeskClient } from './zendesk/client';
-import { LLMOrchestrator } from './llm/orchestrator';
-import { RAGService } from './rag/service';
-import { TicketProcessor } from './processor';
+import { RulesEngine, ROUTING_FACTS_SCHEMA } from './automation/rulesEngine';
+import { HelpCenterSync } from './rag/helpCenterSync';
+import { ResolvedTicketIndexer } from './rag/resolvedTicketIndexer';
+import { TicketInput } from './processor';
+import { createServices } from './services';
+import { JobQueue, JobStatus } from './queue/jobQueue';
+import { DedupStore } from './queue/dedupStore';
+import { Backfill } from './queue/backfill';
+import { validateSchema } from './llm/schema';
 import { appConfig } from './utils/config';
 import { logger } from './utils/logger';
 import { 
@@ -13,37 +18,83 @@ import {
 import { 
   errorHandler, 
   notFoundHandler, 
-  asyncHandler 
+  asyncHandler,
+  AppError,
+  Errors
 } from './middleware/errorHandler';
-import { KnowledgeDocument, ZendeskWebhookPayload } from './types';
+import {
+  AutoReplyAction,
+  KnowledgeDocument,
+  KnowledgeResult,
+  ProcessingResult,
+  TicketAnalysis,
+  ZendeskWebhookPayload,
+} from './types';
 
 const app = express();
 app.use(express.json({ limit: '10mb' }));
 
 // Initialize services
-const zendesk = new ZendeskClient({
-  subdomain: appConfig.zendesk.subdomain,
-  email: appConfig.zendesk.email,
-  token: appConfig.zendesk.token,
+const {
+  zendesk,
+  usageTracker,
+  budgetGuard,
+  taxonomy,
+  prompts,
+  llm,
+  rag,
+  dedupStore,
+  autoReplyPolicy,
+  rulesEngine,
+  processor,
+} = createServices(appConfig);
+
+const helpCenterSync = new HelpCenterSync(zendesk, rag, {
+  locales: appConfig.helpCenter.locales,
+  sectionIds: appConfig.helpCenter.sectionIds,
+  statePath: appConfig.helpCenter.statePath,
 });
 
-const llm = new LLMOrchestrator({
-  provider: appConfig.llm.provider,
-  apiKey: appConfig.llm.apiKey,
-  model: appConfig.llm.model,
+const resolvedTicketIndexer = new ResolvedTicketIndexer(zendesk, llm, rag, {
+  namespace: appConfig.rag.resolvedNamespace || 'resolved_tickets',
+  maxTickets: appConfig.resolvedTickets.maxTickets,
+  statePath: appConfig.resolvedTickets.statePath,
 });
 
-const rag = new RAGService({
-  pineconeApiKey: appConfig.rag.pineconeApiKey,
-  indexName: appConfig.rag.indexName,
-  openaiApiKey: appConfig.rag.openaiApiKey,
-  namespace: appConfig.rag.namespace,
+const backfill = new Backfill(zendesk, processor, {
+  statePath: appConfig.backfill.statePath,
+  concurrency: appConfig.backfill.concurrency,
 });
 
-const processor = new TicketProcessor(zendesk, llm, rag, {
-  addDraftToTicket: true,
-  addTagsToTicket: true,
-  categoryFieldId: appConfig.zendesk.categoryFieldId,
+// Durable queue between the webhook and the processor
+const jobQueue = new JobQueue<TicketInput, ProcessingResult>(async (ticket, job) => {
+  // A job retried from the admin API runs again even if the ticket was processed recently
+  const result = await processor.process(ticket, { force: job.retried });
+
+  if (result.duplicate) {
+    logger.info(`📤 Ticket #${ticket.id} was a duplicate delivery, skipped`);
+    return result;
+  }
+
+  // Surface failures so the queue can retry transient errors, or hold the
+  // ticket until a paused budget resets
+  if (result.error) {
+    throw new AppError(result.error, 502, result.errorCode, result.resumeAt ? Date.parse(result.resumeAt) : undefined);
+  }
+
+  logger.info(`📤 Ticket #${ticket.id} processing complete`, {
+    category: result.category,
+    urgency: result.intent.urgency,
+    hasDraft: !!result.draftResponse,
+    processingTimeMs: result.processingTimeMs,
+  });
+  return result;
+}, {
+  filePath: appConfig.queue.filePath,
+  concurrency: appConfig.queue.concurrency,
+  maxAttempts: appConfig.queue.maxAttempts,
+  baseBackoffMs: appConfig.queue.baseBackoffMs,
+  completedTtlMs: appConfig.queue.completedTtlMs,
 });
 
 // ============================================================
@@ -71,8 +122,8 @@ app.get('/health/detailed', asyncHandler(async (_req: Request, res: Response) =>
     status: allHealthy ? 'healthy' : 'degraded',
     timestamp: new Date().toISOString(),
     services: {
-      zendesk: zendeskStatus,
-      llm: llmStatus,
+      zendesk: { ...zendeskStatus, rateLimit: zendesk.getRateLimitState() },
+      llm: { ...llmStatus, structuredOutput: llm.getStructuredOutputStats() },
       rag: ragStatus,
     },
   });
@@ -96,34 +147,39 @@ app.post(
       requester: ticket.requester?.email 
     });
 
-    // Process ticket (async - respond immediately)
-    const resultPromise = processor.process({
+    const input: TicketInput = {
       id: ticket.id,
       subject: ticket.subject,
       description: ticket.description,
       requester: ticket.requester,
       tags: ticket.tags,
-    });
+      updatedAt: ticket.updated_at,
+      brandId: ticket.brand_id,
+    };
+
+    // Duplicate delivery of an update we've already processed
+    const cached = dedupStore.get(DedupStore.keyFor(input));
+    if (cached) {
+      return res.json({
+        success: true,
+        ticketId: ticket.id,
+        duplicate: true,
+        message: 'Duplicate delivery, ticket already processed',
+        result: cached,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // Queue ticket for processing (respond immediately so Zendesk doesn't time out)
+    const job = jobQueue.enqueue(input);
 
-    // Respond immediately to Zendesk (don't timeout)
     res.json({
       success: true,
       ticketId: ticket.id,
-      message: 'Ticket received and processing started',
+      jobId: job.id,
+      message: 'Ticket received and queued for processing',
       timestamp: new Date().toISOString(),
     });
-
-    // Log result when complete
-    resultPromise.then(result => {
-      logger.info(`📤 Ticket #${ticket.id} processing complete`, {
-        category: result.category,
-        urgency: result.intent.urgency,
-        hasDraft: !!result.draftResponse,
-        processingTimeMs: result.processingTimeMs,
-      });
-    }).catch(error => {
-      logger.error(`📤 Ticket #${ticket.id} processing failed`, { error: error.message });
-    });
   })
 );
 
@@ -142,11 +198,14 @@ app.post(
       description: ticket.description,
       requester: ticket.requester,
       tags: ticket.tags,
+      updatedAt: ticket.updated_at,
+      brandId: ticket.brand_id,
     });
 
     res.json({
       success: !result.error,
       ticketId: ticket.id,
+      duplicate: !!result.duplicate,
       category: result.category,
       urgency: result.intent.urgency,
       sentiment: result.intent.sentiment,
@@ -171,11 +230,13 @@ app.post('/api/categorize', asyncHandler(async (req: Request, res: Response) =>
     return res.status(400).json({ error: 'Subject or description required' });
   }
 
-  const category = await llm.categorize({ subject, description, tags });
+  const prediction = await llm.categorize({ subject, description, tags });
   const intent = await llm.extractIntent(description || subject);
 
   res.json({
-    category,
+    category: prediction.category,
+    categoryPath: prediction.path,
+    categoryConfidence: prediction.confidence,
     intent: intent.intent,
     urgency: intent.urgency,
     sentiment: intent.sentiment,
@@ -223,11 +284,23 @@ app.post('/api/analyze', asyncHandler(async (req: Request, res: Response) => {
 
   const queryText = `${subject || ''}\n${description}`;
 
-  const [category, intent, knowledge] = await Promise.all([
-    llm.categorize({ subject, description }),
-    llm.extractIntent(description),
-    rag.retrieve(queryText),
-  ]);
+  let analysis: TicketAnalysis;
+  let knowledge: KnowledgeResult[];
+  if (appConfig.processing.combinedAnalysis) {
+    [analysis, knowledge] = await Promise.all([
+      llm.analyzeTicket({ subject, description }),
+      rag.retrieve(queryText),
+    ]);
+  } else {
+    const [prediction, intent, results] = await Promise.all([
+      llm.categorize({ subject, description }),
+      llm.extractIntent(description),
+      rag.retrieve(queryText),
+    ]);
+    analysis = { category: prediction.category, categoryConfidence: prediction.confidence, ...intent, language: 'unknown' };
+    knowledge = results;
+  }
+  const { category, categoryConfidence, ...intent } = analysis;
 
   const draft = await llm.generateDraft({
     subject: subject || 'Support Request',
@@ -240,10 +313,12 @@ app.post('/api/analyze', asyncHandler(async (req: Request, res: Response) => {
 
   res.json({
     category,
+    categoryConfidence,
     intent: intent.intent,
     urgency: intent.urgency,
     sentiment: intent.sentiment,
     keyEntities: intent.keyEntities,
+    language: intent.language,
     relevantKnowledge: knowledge.map(k => ({
       title: k.title,
       score: Math.round(k.score * 100),
@@ -295,10 +370,67 @@ app.post('/admin/kb/index', asyncHandler(async (req: Request, res: Response) =>
   res.json({
     success: true,
     indexed: result.indexed,
+    chunks: result.chunks,
     errors: result.errors,
   });
 }));
 
+// Sync Help Center articles into the knowledge base
+app.post('/admin/kb/sync', asyncHandler(async (req: Request, res: Response) => {
+  const { full } = (req.body || {}) as { full?: boolean };
+  const report = await helpCenterSync.sync({ full: !!full });
+
+  res.json({
+    success: report.errors.length === 0,
+    ...report,
+  });
+}));
+
+// Help Center sync status
+app.get('/admin/kb/sync', asyncHandler(async (_req: Request, res: Response) => {
+  res.json(helpCenterSync.status());
+}));
+
+// Index solved tickets as knowledge
+app.post('/admin/kb/resolved-tickets/sync', asyncHandler(async (req: Request, res: Response) => {
+  const { full, since, query, limit } = (req.body || {}) as {
+    full?: boolean;
+    since?: string;
+    query?: string;
+    limit?: number;
+  };
+
+  if (since && Number.isNaN(Date.parse(since))) {
+    throw Errors.badRequest('since must be an ISO date');
+  }
+
+  const report = await resolvedTicketIndexer.run({ full: !!full, since, query, limit });
+
+  res.json({
+    success: report.errors.length === 0,
+    ...report,
+  });
+}));
+
+// Resolved ticket indexing status
+app.get('/admin/kb/resolved-tickets/sync', asyncHandler(async (_req: Request, res: Response) => {
+  res.json(resolvedTicketIndexer.status());
+}));
+
+// Rebuild the lexical index from the chunks in the vector store
+app.post('/admin/kb/lexical/rebuild', asyncHandler(async (req: Request, res: Response) => {
+  const { namespace } = (req.body || {}) as { namespace?: string };
+  const namespaces = namespace
+    ? [namespace]
+    : [appConfig.rag.namespace, appConfig.rag.resolvedNamespace].filter((ns): ns is string => !!ns);
+
+  const rebuilt = [];
+  for (const ns of namespaces) {
+    rebuilt.push(await rag.rebuildLexicalIndex({ namespace: ns }));
+  }
+  res.json({ success: true, namespaces: rebuilt });
+}));
+
 // Get KB stats
 app.get('/admin/kb/stats', asyncHandler(async (_req: Request, res: Response) => {
   const stats = await rag.getStats();
@@ -317,6 +449,118 @@ app.delete('/admin/kb/documents', asyncHandler(async (req: Request, res: Respons
   res.json({ success: true, deleted: ids.length });
 }));
 
+// Structured output counters (parse failures, repairs, fallbacks) per LLM task
+app.get('/admin/llm/stats', asyncHandler(async (_req: Request, res: Response) => {
+  res.json({ structuredOutput: llm.getStructuredOutputStats() });
+}));
+
+// LLM and embedding spend by day, ticket category and model
+app.get('/admin/usage', asyncHandler(async (req: Request, res: Response) => {
+  const days = req.query.days ? parseInt(req.query.days as string, 10) : 30;
+  if (!Number.isInteger(days) || days < 1) {
+    throw Errors.badRequest('days must be a positive integer');
+  }
+
+  const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  res.json(await usageTracker.summarize({ from }));
+}));
+
+// Ticket categories with their Zendesk field values
+app.get('/admin/taxonomy', (_req: Request, res: Response) => {
+  res.json({ fallback: taxonomy.fallback, categories: taxonomy.list() });
+});
+
+// Prompt templates, their versions and which version is active
+app.get('/admin/prompts', (_req: Request, res: Response) => {
+  res.json({ dir: prompts.dir, templates: prompts.list() });
+});
+
+// Render a prompt as a ticket of the given category or brand would get it
+app.post('/admin/prompts/:name/preview', asyncHandler(async (req: Request, res: Response) => {
+  const { version, category, brand, variables } = (req.body || {}) as {
+    version?: number;
+    category?: string;
+    brand?: string | number;
+    variables?: Record<string, string>;
+  };
+
+  if (version !== undefined && !(Number.isInteger(version) && version > 0)) {
+    throw Errors.badRequest('version must be a positive integer');
+  }
+  if (variables !== undefined && (typeof variables !== 'object' || Array.isArray(variables))) {
+    throw Errors.badRequest('variables must be an object');
+  }
+
+  res.json(prompts.preview(req.params.name, {
+    version,
+    category,
+    brand: brand === undefined ? undefined : String(brand),
+    variables,
+  }));
+}));
+
+// Use a version for a prompt's default template, or for a category or brand override
+app.post('/admin/prompts/:name/activate', asyncHandler(async (req: Request, res: Response) => {
+  const { version, category, brand } = (req.body || {}) as { version?: number; category?: string; brand?: string | number };
+
+  if (!(Number.isInteger(version) && version! > 0)) {
+    throw Errors.badRequest('version must be a positive integer');
+  }
+
+  res.json(prompts.activate(req.params.name, version!, {
+    category,
+    brand: brand === undefined ? undefined : String(brand),
+  }));
+}));
+
+// Spend against each tenant's budget
+app.get('/admin/budget', asyncHandler(async (_req: Request, res: Response) => {
+  res.json({ tenants: budgetGuard.statusAll() });
+}));
+
+// Auto-reply audit log: sent, shadow, blocked and failed decisions, newest first
+app.get('/admin/auto-replies', asyncHandler(async (req: Request, res: Response) => {
+  const action = req.query.action as AutoReplyAction | undefined;
+  const validActions: AutoReplyAction[] = ['sent', 'shadow', 'blocked', 'failed'];
+
+  if (action && !validActions.includes(action)) {
+    return res.status(400).json({ error: `Invalid action. Use one of: ${validActions.join(', ')}` });
+  }
+
+  res.json({
+    mode: autoReplyPolicy.mode,
+    entries: await autoReplyPolicy.list({
+      action,
+      ticketId: req.query.ticketId ? parseInt(req.query.ticketId as string, 10) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+    }),
+  });
+}));
+
+// Loaded routing rules
+app.get('/admin/rules', (_req: Request, res: Response) => {
+  res.json({ path: appConfig.routing.rulesPath, rules: rulesEngine?.rules || [] });
+});
+
+// Which routing rules would fire for a sample ticket, and the update they'd make
+app.post('/admin/rules/test', asyncHandler(async (req: Request, res: Response) => {
+  if (!rulesEngine) {
+    throw Errors.badRequest('No routing rules configured (set ROUTING_RULES_PATH)');
+  }
+
+  const { category, urgency = 'medium', sentiment = 'neutral', keyEntities = [], requesterEmail, tags = [] } = req.body || {};
+  if (!category) {
+    throw Errors.badRequest('category required');
+  }
+  const invalid = validateSchema(req.body, ROUTING_FACTS_SCHEMA);
+  if (invalid.length > 0) {
+    throw Errors.badRequest(`Invalid ticket facts: ${invalid.join('; ')}`);
+  }
+
+  const { matched, actions } = rulesEngine.evaluate({ category, urgency, sentiment, keyEntities, requesterEmail, tags });
+  res.json({ matched, actions, update: RulesEngine.toUpdate(actions) });
+}));
+
 // Reprocess a ticket
 app.post('/admin/ticket/:id/reprocess', asyncHandler(async (req: Request, res: Response) => {
   const ticketId = parseInt(req.params.id, 10);
@@ -324,6 +568,109 @@ app.post('/admin/ticket/:id/reprocess', asyncHandler(async (req: Request, res: R
   res.json(result);
 }));
 
+// Process the existing tickets matching a search query in the background
+app.post('/admin/backfill', asyncHandler(async (req: Request, res: Response) => {
+  const { query, dryRun, concurrency, limit } = (req.body || {}) as {
+    query?: string;
+    dryRun?: boolean;
+    concurrency?: number;
+    limit?: number;
+  };
+
+  if (!query || typeof query !== 'string') {
+    throw Errors.badRequest('query required');
+  }
+  if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency > 0)) {
+    throw Errors.badRequest('concurrency must be a positive integer');
+  }
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    throw Errors.badRequest('limit must be a positive integer');
+  }
+  if (backfill.isRunning()) {
+    throw Errors.conflict('Backfill already in progress');
+  }
+
+  // Failures are recorded in the backfill's status
+  backfill.run({ query, dryRun: !!dryRun, concurrency, limit }).catch(() => undefined);
+  res.status(202).json(backfill.status());
+}));
+
+// Backfill progress
+app.get('/admin/backfill', asyncHandler(async (_req: Request, res: Response) => {
+  const status = backfill.status();
+  if (!status) throw Errors.notFound('Backfill');
+  res.json(status);
+}));
+
+// Continue an interrupted or cancelled backfill
+app.post('/admin/backfill/resume', asyncHandler(async (_req: Request, res: Response) => {
+  const status = backfill.status();
+  if (backfill.isRunning()) {
+    throw Errors.conflict('Backfill already in progress');
+  }
+  if (!status?.remaining) {
+    throw Errors.badRequest('No backfill to resume');
+  }
+
+  backfill.resume().catch(() => undefined);
+  res.status(202).json(backfill.status());
+}));
+
+// Stop the running backfill after its current batch
+app.post('/admin/backfill/cancel', asyncHandler(async (_req: Request, res: Response) => {
+  if (!backfill.cancel()) {
+    throw Errors.badRequest('No backfill running');
+  }
+  res.json({ success: true });
+}));
+
+// List queued jobs (optionally by status)
+app.get('/admin/jobs', asyncHandler(async (req: Request, res: Response) => {
+  const status = req.query.status as JobStatus | undefined;
+  const validStatuses: JobStatus[] = ['pending', 'processing', 'completed', 'dead'];
+
+  if (status && !validStatuses.includes(status)) {
+    return res.status(400).json({ error: `Invalid status. Use one of: ${validStatuses.join(', ')}` });
+  }
+
+  res.json({
+    stats: jobQueue.stats(),
+    jobs: jobQueue.list(status),
+  });
+}));
+
+// Retry every job in the dead-letter list
+app.post('/admin/jobs/dead/retry', asyncHandler(async (_req: Request, res: Response) => {
+  const jobs = jobQueue.deadLetters().map(job => jobQueue.retry(job.id));
+  res.json({ success: true, retried: jobs.length });
+}));
+
+// Get a single job
+app.get('/admin/jobs/:id', asyncHandler(async (req: Request, res: Response) => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) throw Errors.notFound('Job');
+  res.json(job);
+}));
+
+// Retry a dead or completed job (409 while it is still pending or processing)
+app.post('/admin/jobs/:id/retry', asyncHandler(async (req: Request, res: Response) => {
+  const job = jobQueue.retry(req.params.id);
+  if (!job) throw Errors.notFound('Job');
+  res.json({ success: true, job });
+}));
+
+// Purge completed and/or dead jobs
+app.delete('/admin/jobs', asyncHandler(async (req: Request, res: Response) => {
+  const status = req.query.status as 'completed' | 'dead' | undefined;
+
+  if (status && status !== 'completed' && status !== 'dead') {
+    return res.status(400).json({ error: 'Only completed or dead jobs can be purged' });
+  }
+
+  const purged = jobQueue.purge(status);
+  res.json({ success: true, purged });
+}));
+
 // ============================================================
 // Error Handling
 // ============================================================
@@ -337,11 +684,26 @@ app.use(errorHandler);
 
 const PORT = appConfig.server.port;
 
-app.listen(PORT, () => {
+jobQueue.start();
+
+const server = app.listen(PORT, () => {
   logger.info(`🚀 Zendesk AI Automation running on port ${PORT}`, {
     env: appConfig.server.nodeEnv,
     llmProvider: appConfig.llm.provider,
+    ragBackend: appConfig.rag.backend,
   });
 });
 
+// Stop taking requests, let running jobs finish and write the lexical index before exiting
+async function shutdown(signal: string): Promise<void> {
+  logger.info(`🛑 ${signal} received, shutting down`);
+  server.close();
+  await jobQueue.stop();
+  rag.flushLexicalIndex();
+  process.exit(0);
+}
+
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
+process.once('SIGINT', () => void shutdown('SIGINT'));
+
 export default app;
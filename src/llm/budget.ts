@@ -0,0 +1,282 @@
+import fs from 'fs';
+import { BudgetAction, BudgetLimits, LLMTarget, LLMTask } from '../types';
+import { logger } from '../utils/logger';
+import { writeJsonAtomic } from '../utils/files';
+import { Errors } from '../middleware/errorHandler';
+import { currentTicketContext } from '../utils/context';
+import { UsageRecord, UsageTracker } from './usage';
+
+export const DEFAULT_TENANT = 'default';
+
+export interface BudgetGuardOptions {
+  limits?: BudgetLimits;                   // Default for every tenant
+  tenants?: Record<string, BudgetLimits>;  // Per-tenant overrides
+  action?: BudgetAction;
+  cheaperModel?: LLMTarget;
+  warnThreshold?: number;                  // Fraction of a limit that triggers a warning
+  statePath?: string;
+}
+
+type LimitKey = keyof BudgetLimits;
+
+interface PeriodSpend {
+  tokens: number;
+  usd: number;
+}
+
+interface TenantSpend {
+  day: string;       // YYYY-MM-DD (UTC)
+  month: string;     // YYYY-MM (UTC)
+  daily: PeriodSpend;
+  monthly: PeriodSpend;
+  warned: string[];  // "<limit>@<percent>" already warned about this period
+}
+
+export interface BudgetStatus {
+  tenant: string;
+  limits: BudgetLimits;
+  daily: PeriodSpend & { day: string };
+  monthly: PeriodSpend & { month: string };
+  exceeded: LimitKey[];
+  action: BudgetAction;
+}
+
+/**
+ * Daily and monthly token / USD budgets per tenant (Zendesk brand), charged
+ * from the usage tracker and enforced before every LLM request. Once a limit
+ * is reached the configured action applies:
+ * - skip_draft: analysis still runs, draft generation is refused
+ * - cheaper_model: every task is sent to cheaperModel
+ * - pause: every LLM request is refused (BUDGET_EXCEEDED)
+ * Crossing warnThreshold (and then the limit itself) logs a warning once per
+ * period; the warnings are also queued for the processor to post as a note.
+ */
+export class BudgetGuard {
+  private limits: BudgetLimits;
+  private tenants: Record<string, BudgetLimits>;
+  private action: BudgetAction;
+  private cheaperModel?: LLMTarget;
+  private warnThreshold: number;
+  private statePath?: string;
+  private spend: Record<string, TenantSpend> = {};
+  private pendingWarnings = new Map<string, string[]>();
+
+  constructor(options: BudgetGuardOptions = {}, deps: { usage?: UsageTracker } = {}) {
+    this.limits = options.limits || {};
+    this.tenants = options.tenants || {};
+    this.action = options.action || 'skip_draft';
+    this.cheaperModel = options.cheaperModel;
+    this.warnThreshold = options.warnThreshold ?? 0.8;
+    this.statePath = options.statePath;
+
+    if (this.action === 'cheaper_model' && !this.cheaperModel) {
+      throw new Error('The cheaper_model budget action needs a cheaper model');
+    }
+
+    this.load();
+    deps.usage?.onRecord(record => this.charge(record));
+  }
+
+  /**
+   * Check the current tenant's budget before an LLM request. Returns the
+   * targets to use instead of the task's normal route, or undefined to route
+   * normally; throws BUDGET_EXCEEDED when the request is refused.
+   */
+  enforce(task: LLMTask): LLMTarget[] | undefined {
+    const tenant = currentTenant();
+    const exceeded = this.exceededLimits(tenant);
+    if (exceeded.length === 0) return undefined;
+
+    switch (this.action) {
+      case 'pause':
+        throw Errors.budgetExceeded(
+          `${tenant} reached its ${describeLimit(exceeded[0])} limit, LLM processing is paused`,
+          this.resumeAt(tenant)
+        );
+      case 'skip_draft':
+        if (task === 'generateDraft') {
+          throw Errors.budgetExceeded(`${tenant} reached its ${describeLimit(exceeded[0])} limit, drafts are skipped`);
+        }
+        return undefined;
+      case 'cheaper_model':
+        return [this.cheaperModel!];
+    }
+  }
+
+  /**
+   * The action that currently applies to a tenant, if its budget ran out
+   */
+  activeAction(tenant = DEFAULT_TENANT): BudgetAction | undefined {
+    return this.exceededLimits(tenant).length > 0 ? this.action : undefined;
+  }
+
+  /**
+   * When every limit the tenant exceeded has reset (start of the next UTC day
+   * or month), or undefined if none is exceeded
+   */
+  resumeAt(tenant = DEFAULT_TENANT): number | undefined {
+    const exceeded = this.exceededLimits(tenant);
+    if (exceeded.length === 0) return undefined;
+
+    const now = new Date();
+    const monthly = exceeded.some(key => key.startsWith('monthly'));
+    return monthly
+      ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+      : Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  }
+
+  /**
+   * Add a recorded call to the current tenant's spend
+   */
+  charge(record: UsageRecord): void {
+    const tenant = currentTenant();
+    const spend = this.spendFor(tenant);
+    const tokens = record.inputTokens + record.outputTokens;
+
+    spend.daily.tokens += tokens;
+    spend.daily.usd += record.costUsd;
+    spend.monthly.tokens += tokens;
+    spend.monthly.usd += record.costUsd;
+
+    this.checkThresholds(tenant, spend);
+    this.persist();
+  }
+
+  /**
+   * Warnings raised for a tenant since the last call, for posting as a note
+   */
+  takeWarnings(tenant = DEFAULT_TENANT): string[] {
+    const warnings = this.pendingWarnings.get(tenant) || [];
+    this.pendingWarnings.delete(tenant);
+    return warnings;
+  }
+
+  status(tenant = DEFAULT_TENANT): BudgetStatus {
+    const spend = this.spendFor(tenant);
+    return {
+      tenant,
+      limits: this.limitsFor(tenant),
+      daily: { day: spend.day, tokens: spend.daily.tokens, usd: round(spend.daily.usd) },
+      monthly: { month: spend.month, tokens: spend.monthly.tokens, usd: round(spend.monthly.usd) },
+      exceeded: this.exceededLimits(tenant),
+      action: this.action,
+    };
+  }
+
+  /**
+   * Status of every tenant with a budget or recorded spend
+   */
+  statusAll(): BudgetStatus[] {
+    const tenants = new Set([DEFAULT_TENANT, ...Object.keys(this.tenants), ...Object.keys(this.spend)]);
+    return [...tenants].map(tenant => this.status(tenant));
+  }
+
+  private limitsFor(tenant: string): BudgetLimits {
+    return { ...this.limits, ...this.tenants[tenant] };
+  }
+
+  private exceededLimits(tenant: string): LimitKey[] {
+    const limits = this.limitsFor(tenant);
+    const spend = this.spendFor(tenant);
+    return (Object.keys(limits) as LimitKey[]).filter(key => {
+      const limit = limits[key];
+      return limit !== undefined && spentAgainst(spend, key) >= limit;
+    });
+  }
+
+  private checkThresholds(tenant: string, spend: TenantSpend): void {
+    const limits = this.limitsFor(tenant);
+
+    for (const key of Object.keys(limits) as LimitKey[]) {
+      const limit = limits[key];
+      if (limit === undefined) continue;
+      const used = spentAgainst(spend, key);
+
+      for (const threshold of [this.warnThreshold, 1]) {
+        const id = `${key}@${Math.round(threshold * 100)}`;
+        if (used < limit * threshold || spend.warned.includes(id)) continue;
+        spend.warned.push(id);
+
+        const message = threshold >= 1
+          ? `Budget for ${tenant} reached its ${describeLimit(key)} limit (${formatAmount(key, limit)}); action: ${this.action}`
+          : `Budget for ${tenant} is at ${Math.round((used / limit) * 100)}% of its ${describeLimit(key)} limit (${formatAmount(key, used)} of ${formatAmount(key, limit)})`;
+        logger.warn(message, { tenant, limit: key });
+        this.pendingWarnings.set(tenant, [...(this.pendingWarnings.get(tenant) || []), message]);
+      }
+    }
+  }
+
+  /**
+   * A tenant's spend, reset when a new day or month has started
+   */
+  private spendFor(tenant: string): TenantSpend {
+    const now = new Date().toISOString();
+    const day = now.substring(0, 10);
+    const month = now.substring(0, 7);
+    const spend = this.spend[tenant] ||= {
+      day,
+      month,
+      daily: { tokens: 0, usd: 0 },
+      monthly: { tokens: 0, usd: 0 },
+      warned: [],
+    };
+
+    if (spend.month !== month) {
+      spend.month = month;
+      spend.monthly = { tokens: 0, usd: 0 };
+      spend.warned = spend.warned.filter(id => !id.startsWith('monthly'));
+    }
+    if (spend.day !== day) {
+      spend.day = day;
+      spend.daily = { tokens: 0, usd: 0 };
+      spend.warned = spend.warned.filter(id => !id.startsWith('daily'));
+    }
+    return spend;
+  }
+
+  private load(): void {
+    if (!this.statePath || !fs.existsSync(this.statePath)) return;
+
+    try {
+      this.spend = JSON.parse(fs.readFileSync(this.statePath, 'utf-8')) as Record<string, TenantSpend>;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Failed to load budget state, starting from zero', { file: this.statePath, error: message });
+    }
+  }
+
+  private persist(): void {
+    if (!this.statePath) return;
+    writeJsonAtomic(this.statePath, this.spend, 'budget state');
+  }
+}
+
+function currentTenant(): string {
+  return currentTicketContext()?.tenant || DEFAULT_TENANT;
+}
+
+function spentAgainst(spend: TenantSpend, key: LimitKey): number {
+  switch (key) {
+    case 'dailyTokens': return spend.daily.tokens;
+    case 'monthlyTokens': return spend.monthly.tokens;
+    case 'dailyUsd': return spend.daily.usd;
+    case 'monthlyUsd': return spend.monthly.usd;
+  }
+}
+
+function describeLimit(key: LimitKey): string {
+  return {
+    dailyTokens: 'daily token',
+    monthlyTokens: 'monthly token',
+    dailyUsd: 'daily spend',
+    monthlyUsd: 'monthly spend',
+  }[key];
+}
+
+function formatAmount(key: LimitKey, value: number): string {
+  return key.endsWith('Usd') ? `$${value.toFixed(2)}` : `${Math.round(value)} tokens`;
+}
+
+function round(usd: number): number {
+  return Math.round(usd * 1e6) / 1e6;
+}
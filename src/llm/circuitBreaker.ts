@@ -0,0 +1,91 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;  // Consecutive failures that open the circuit
+  resetTimeoutMs?: number;    // How long the circuit stays open before a trial request
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  lastError?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+}
+
+/**
+ * Per-provider circuit breaker. After failureThreshold consecutive failures the
+ * circuit opens and requests are refused until resetTimeoutMs has passed; then a
+ * single trial request is let through (half open), which closes the circuit on
+ * success or re-opens it on failure.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+  private lastError?: string;
+  private lastFailureAt?: number;
+  private lastSuccessAt?: number;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+  }
+
+  /**
+   * Whether a request may be sent now. In the half-open state only one trial
+   * request is allowed at a time.
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - (this.openedAt || 0) >= this.resetTimeoutMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.openedAt = undefined;
+    this.lastSuccessAt = Date.now();
+  }
+
+  recordFailure(error: string): void {
+    this.consecutiveFailures++;
+    this.lastError = error;
+    this.lastFailureAt = Date.now();
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  snapshot(): CircuitSnapshot {
+    // Report an expired open circuit as ready for a trial request
+    const state = this.state === 'open' && Date.now() - (this.openedAt || 0) >= this.resetTimeoutMs
+      ? 'half_open'
+      : this.state;
+
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      lastError: this.lastError,
+      lastFailureAt: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : undefined,
+      lastSuccessAt: this.lastSuccessAt ? new Date(this.lastSuccessAt).toISOString() : undefined,
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { DraftCitation, GroundedClaim, GroundingMethod, GroundingReport, KnowledgeResult } from '../types';
+import { LLMOrchestrator, MAX_CONTEXT_ARTICLES } from './orchestrator';
+import { tokenize } from '../rag/embeddings';
+
+interface GroundingVerifierOptions {
+  method?: GroundingMethod;
+  minScore?: number;         // Reports scoring below this count as poorly grounded
+  minOverlap?: number;       // lexical: share of a claim's terms a passage must contain
+}
+
+const CITATION = /\[(\d{1,2})\]/g;
+
+// Pleasantries, empathy and questions aren't factual claims
+const NON_CLAIM = /^(hi|hello|hey|dear|thanks|thank you|best|regards|kind regards|sincerely|cheers)\b|\b(let (us|me) know|feel free|happy to help|glad to help|don't hesitate|do not hesitate|sorry|apologi[sz]e|understand (how|that|your)|hope this helps)\b/i;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'then', 'so', 'to', 'of', 'in', 'on', 'at', 'by', 'for', 'with', 'from',
+  'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this', 'that', 'these', 'those', 'there',
+  'you', 'your', 'yours', 'we', 'our', 'us', 'i', 'my', 'me', 'they', 'their', 'he', 'she', 'can', 'could', 'will',
+  'would', 'should', 'may', 'might', 'do', 'does', 'did', 'have', 'has', 'had', 'not', 'no', 'all', 'any', 'also',
+  'just', 'please', 'simply', 'once', 'into', 'out', 'up', 'about', 'which', 'when', 'where', 'how', 'what',
+]);
+
+/**
+ * Checks a draft against the knowledge it was written from. The draft is split
+ * into sentence-level claims (greetings, empathy and questions are skipped) and
+ * each claim is checked against the retrieved passages, either by term overlap
+ * or by asking the LLM whether a passage entails it. Inline [n] citations are
+ * resolved to the nth article of the draft prompt.
+ */
+export class GroundingVerifier {
+  readonly method: GroundingMethod;
+  readonly minScore: number;
+  private minOverlap: number;
+  private llm?: LLMOrchestrator;
+
+  constructor(options: GroundingVerifierOptions = {}, deps: { llm?: LLMOrchestrator } = {}) {
+    this.method = options.method || 'lexical';
+    this.minScore = options.minScore ?? 0.6;
+    this.minOverlap = options.minOverlap ?? 0.5;
+    this.llm = deps.llm;
+    if (this.method === 'llm' && !this.llm) {
+      throw new Error('LLM grounding verification needs an LLM orchestrator');
+    }
+  }
+
+  async verify(draft: string, knowledge: KnowledgeResult[]): Promise<GroundingReport> {
+    // Only these were in the draft prompt
+    const articles = knowledge.slice(0, MAX_CONTEXT_ARTICLES);
+    const claims = GroundingVerifier.claims(draft);
+
+    let checked: GroundedClaim[];
+    if (articles.length === 0) {
+      checked = claims.map(text => ({ text, supported: false }));
+    } else if (this.method === 'llm' && claims.length > 0) {
+      const verdicts = await this.llm!.verifyClaims(claims, articles);
+      checked = claims.map((text, i) => ({
+        text,
+        supported: verdicts[i].supported,
+        sourceId: verdicts[i].article ? articles[verdicts[i].article! - 1]?.id : undefined,
+      }));
+    } else {
+      checked = claims.map(text => this.checkLexical(text, articles));
+    }
+
+    const unsupportedClaims = checked.filter(c => !c.supported).map(c => c.text);
+    return {
+      method: this.method,
+      score: claims.length === 0 ? 1 : Math.round((1 - unsupportedClaims.length / claims.length) * 100) / 100,
+      claims: checked,
+      unsupportedClaims,
+      citations: GroundingVerifier.citations(draft, articles),
+    };
+  }
+
+  /**
+   * Sentences of the draft that state something checkable
+   */
+  static claims(draft: string): string[] {
+    return draft
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(s => s.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+      .filter(s => s && !s.endsWith('?') && !NON_CLAIM.test(s) && contentTerms(s).length >= 3);
+  }
+
+  /**
+   * Every distinct [n] in the draft, resolved to the article it cites
+   */
+  static citations(draft: string, knowledge: KnowledgeResult[]): DraftCitation[] {
+    const markers = [...new Set([...draft.matchAll(CITATION)].map(m => Number(m[1])))];
+    return markers.map(marker => {
+      const article = marker >= 1 && marker <= MAX_CONTEXT_ARTICLES ? knowledge[marker - 1] : undefined;
+      return article ? { marker, id: article.id, title: article.title, url: article.url } : { marker };
+    });
+  }
+
+  /**
+   * Replace [n] citations with the article's URL, for replies sent to customers
+   */
+  static linkCitations(draft: string, knowledge: KnowledgeResult[]): string {
+    const urls = new Map(GroundingVerifier.citations(draft, knowledge).map(c => [c.marker, c.url]));
+    return draft.replace(/ ?\[(\d{1,2})\]/g, (_, n) => {
+      const url = urls.get(Number(n));
+      return url ? ` (${url})` : '';
+    });
+  }
+
+  private checkLexical(text: string, articles: KnowledgeResult[]): GroundedClaim {
+    const terms = [...new Set(contentTerms(text.replace(CITATION, '')))];
+    let best = { overlap: 0, sourceId: undefined as string | undefined };
+
+    for (const article of articles) {
+      const passage = new Set(contentTerms(`${article.title || ''} ${article.text}`));
+      const overlap = terms.filter(t => passage.has(t)).length / terms.length;
+      if (overlap > best.overlap) best = { overlap, sourceId: article.id };
+    }
+
+    return best.overlap >= this.minOverlap
+      ? { text, supported: true, sourceId: best.sourceId }
+      : { text, supported: false };
+  }
+}
+
+/**
+ * Tokens that carry meaning, with plural/verb -s endings folded
+ */
+function contentTerms(text: string): string[] {
+  return tokenize(text)
+    .filter(t => !STOPWORDS.has(t) && (t.length > 2 || /\d/.test(t)))
+    .map(t => (t.length > 4 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t));
+}
@@ -0,0 +1,94 @@
+import { InjectionAssessment, InjectionClassification } from '../types';
+import { LLMOrchestrator } from './orchestrator';
+import { logger } from '../utils/logger';
+
+// Added to tickets whose text looks like a prompt injection
+export const INJECTION_TAG = 'ai_injection_suspected';
+
+interface InjectionGuardOptions {
+  threshold?: number;        // Score at which a ticket is flagged
+  llmClassifier?: boolean;   // Also ask the LLM
+}
+
+/**
+ * Phrasings typical of attempts to steer the assistant. Weights combine as
+ * independent evidence, so one strong signal or several weak ones flag a ticket.
+ */
+const HEURISTICS: Array<{ signal: string; weight: number; pattern: RegExp }> = [
+  {
+    signal: 'ignore_instructions',
+    weight: 0.8,
+    pattern: /\b(ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}\b(instructions?|prompts?|rules|guidelines|directives)\b/i,
+  },
+  {
+    signal: 'new_instructions',
+    weight: 0.5,
+    pattern: /\b(new|updated|real|actual|hidden)\s+(instructions?|rules|system prompt)\s*:/i,
+  },
+  {
+    signal: 'role_override',
+    weight: 0.5,
+    pattern: /\b(you are now|from now on,? you|pretend (to be|you are)|role-?play as|you are no longer|act as if you)\b/i,
+  },
+  {
+    signal: 'system_impersonation',
+    weight: 0.6,
+    pattern: /(^|\n)\s*(#{1,3}\s*)?(system|assistant|developer)\s*:|<\|?(im_start|im_end|system|endoftext)\|?>|\[\/?(INST|SYS)\]|<\/?customer_content>/i,
+  },
+  {
+    signal: 'prompt_exfiltration',
+    weight: 0.6,
+    pattern: /\b(reveal|show|print|repeat|output|tell me)\b[^.\n]{0,30}\b(system prompt|your (instructions|prompt|rules)|initial prompt)\b/i,
+  },
+  {
+    signal: 'jailbreak',
+    weight: 0.7,
+    pattern: /\b(jailbreak|DAN mode|developer mode|do anything now|without (any )?(restrictions|filters))\b/i,
+  },
+  {
+    signal: 'dictated_reply',
+    weight: 0.3,
+    pattern: /\b((respond|reply|answer) (only )?with|(promise|approve|grant|guarantee|confirm) (me )?(a |an )?(full )?(refund|credit|compensation))\b/i,
+  },
+];
+
+/**
+ * Screens customer text for prompt injection and jailbreak attempts before it
+ * reaches the draft prompt. Heuristics always run; the optional LLM classifier
+ * catches paraphrases they miss, at the cost of one call per ticket.
+ */
+export class InjectionGuard {
+  private threshold: number;
+  private llm?: LLMOrchestrator;
+
+  constructor(options: InjectionGuardOptions = {}, deps: { llm?: LLMOrchestrator } = {}) {
+    this.threshold = options.threshold ?? 0.5;
+    this.llm = options.llmClassifier ? deps.llm : undefined;
+  }
+
+  /**
+   * Heuristic score (0-1) and the signals that matched
+   */
+  static score(text: string): { score: number; signals: string[] } {
+    const matched = HEURISTICS.filter(h => h.pattern.test(text));
+    const score = 1 - matched.reduce((p, h) => p * (1 - h.weight), 1);
+    return { score: Math.round(score * 100) / 100, signals: matched.map(h => h.signal) };
+  }
+
+  async assess(text: string): Promise<InjectionAssessment> {
+    const { score, signals } = InjectionGuard.score(text);
+    let classifier: InjectionClassification | undefined;
+
+    if (this.llm) {
+      try {
+        classifier = await this.llm.detectInjection(text);
+      } catch (error) {
+        // The heuristics still apply; a classifier outage shouldn't fail the ticket
+        logger.warn('Injection classifier failed', { error: error instanceof Error ? error.message : error });
+      }
+    }
+
+    const combined = Math.max(score, classifier?.injection ? classifier.confidence : 0);
+    return { score: combined, flagged: combined >= this.threshold, signals, classifier };
+  }
+}
@@ -1,251 +1,529 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
 import { 
   LLMProvider, 
-  TicketCategory, 
-  TICKET_CATEGORIES,
+  LLMProviderConfig,
+  LLMTarget,
+  LLMTask,
+  CategoryPrediction,
   CategorizeInput,
+  AnalyzeInput,
+  TicketAnalysis,
   DraftInput,
   DraftResponse,
   IntentAnalysis,
-  KnowledgeResult
+  InjectionClassification,
+  KnowledgeResult,
+  PromptName,
 } from '../types';
 import { logger } from '../utils/logger';
 import { Errors } from '../middleware/errorHandler';
+import {
+  JsonSchema,
+  validateSchema,
+  categorySchema,
+  analysisSchema,
+  INTENT_SCHEMA,
+  DRAFT_SCHEMA,
+  INJECTION_SCHEMA,
+  GROUNDING_SCHEMA,
+} from './schema';
+import { LLMProviderClient, CompletionRequest, CompletionResponse, createLLMProvider } from './providers';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitSnapshot } from './circuitBreaker';
+import { UsageTracker } from './usage';
+import { BudgetGuard, DEFAULT_TENANT } from './budget';
+import { PromptRegistry, fence } from './prompts';
+import { PIIDetector } from '../utils/pii';
+import { Taxonomy, CATEGORY_SEPARATOR } from '../utils/taxonomy';
+import { currentTicketContext } from '../utils/context';
 
 interface LLMConfig {
-  provider: LLMProvider;
+  provider: LLMProvider;     // Primary provider
   apiKey: string;
   model?: string;
+  baseUrl?: string;          // openai_compatible server URL
+  mockFixturesPath?: string; // mock provider fixture file
+  fallbacks?: LLMProviderConfig[];                      // Tried in order when the primary fails
+  routes?: Partial<Record<LLMTask, LLMTarget[]>>;       // Per-task provider/model order
+  timeoutMs?: number;
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+export interface ProviderStatus {
+  provider: LLMProvider;
+  model: string;
+  circuit: CircuitSnapshot;
 }
 
+/**
+ * Outcome counters for one structured-output task
+ */
+export interface StructuredOutputStats {
+  requests: number;
+  valid: number;             // Valid on the first reply
+  repaired: number;          // Valid after the repair retry
+  fallbacks: number;         // Still invalid after repair; defaults were used
+  parseErrors: number;       // Replies that weren't JSON
+  validationErrors: number;  // JSON replies that didn't match the schema
+}
+
+/**
+ * A structured reply: the validated value, or the raw reply text when
+ * validation failed even after the repair retry
+ */
+type StructuredResult<T> = { value: T; raw: string } | { value: null; raw: string };
+
+// Knowledge results included in the draft prompt, numbered for citations
+export const MAX_CONTEXT_ARTICLES = 5;
+
+
 /**
  * LLM Orchestrator for ticket analysis and response generation
- * Supports both OpenAI and Anthropic Claude
+ * Supports OpenAI and Anthropic Claude as an ordered provider chain with
+ * per-provider circuit breakers, failover and per-task routing
  */
 export class LLMOrchestrator {
-  private openai?: OpenAI;
-  private anthropic?: Anthropic;
-  private provider: LLMProvider;
-  private model: string;
-
-  constructor(config: LLMConfig) {
-    this.provider = config.provider;
-    
-    if (config.provider === 'openai') {
-      this.openai = new OpenAI({ apiKey: config.apiKey });
-      this.model = config.model || 'gpt-4-turbo-preview';
-    } else {
-      this.anthropic = new Anthropic({ apiKey: config.apiKey });
-      this.model = config.model || 'claude-3-sonnet-20240229';
+  private providers = new Map<LLMProvider, LLMProviderClient>();
+  private breakers = new Map<LLMProvider, CircuitBreaker>();
+  private chain: LLMTarget[];
+  private routes: Partial<Record<LLMTask, LLMTarget[]>>;
+  private timeoutMs: number;
+  private structuredStats: Record<string, StructuredOutputStats> = {};
+  private usage?: UsageTracker;
+  private budget?: BudgetGuard;
+  private pii?: PIIDetector;
+  private prompts: PromptRegistry;
+  private taxonomy: Taxonomy;
+  private categorySchema: JsonSchema;
+  private analysisSchema: JsonSchema;
+
+  constructor(
+    config: LLMConfig,
+    deps: {
+      providers?: LLMProviderClient[];
+      usage?: UsageTracker;
+      budget?: BudgetGuard;
+      pii?: PIIDetector;
+      prompts?: PromptRegistry;
+      taxonomy?: Taxonomy;
+    } = {}
+  ) {
+    this.timeoutMs = config.timeoutMs ?? 60_000;
+    this.usage = deps.usage;
+    this.budget = deps.budget;
+    this.pii = deps.pii;
+    this.prompts = deps.prompts || new PromptRegistry();
+    this.taxonomy = deps.taxonomy || new Taxonomy();
+    this.categorySchema = categorySchema(this.taxonomy.paths());
+    this.analysisSchema = analysisSchema(this.taxonomy.paths());
+
+    const configs: LLMProviderConfig[] = [
+      {
+        provider: config.provider,
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        fixturesPath: config.mockFixturesPath,
+      },
+      ...(config.fallbacks || []),
+    ];
+    const clients = deps.providers || configs.map(c => createLLMProvider({ ...c, timeoutMs: this.timeoutMs }));
+
+    for (const client of clients) {
+      if (this.providers.has(client.name)) continue;
+      this.providers.set(client.name, client);
+      this.breakers.set(client.name, new CircuitBreaker(config.circuitBreaker));
+    }
+    this.chain = [...this.providers.keys()].map(provider => ({ provider }));
+
+    // Drop route targets for providers that aren't configured
+    this.routes = {};
+    for (const [task, targets] of Object.entries(config.routes || {}) as Array<[LLMTask, LLMTarget[]]>) {
+      const usable = targets.filter(t => this.providers.has(t.provider));
+      if (usable.length < targets.length) {
+        logger.warn(`LLM route for ${task} references unconfigured providers`, {
+          targets: targets.map(t => t.provider),
+        });
+      }
+      if (usable.length > 0) this.routes[task] = usable;
     }
 
-    logger.info(`LLM Orchestrator initialized`, { provider: this.provider, model: this.model });
+    logger.info(`LLM Orchestrator initialized`, {
+      providers: [...this.providers.values()].map(p => `${p.name}:${p.defaultModel}`),
+      routes: Object.keys(this.routes),
+    });
   }
 
   /**
-   * Categorize a ticket into predefined categories
+   * Categorize a ticket into the most specific taxonomy category that fits
    */
-  async categorize(input: CategorizeInput): Promise<TicketCategory> {
-    const prompt = `You are a support ticket classifier. Analyze this customer support ticket and categorize it.
-
-## Ticket
-Subject: ${input.subject}
-Description: ${input.description}
-${input.tags?.length ? `Existing Tags: ${input.tags.join(', ')}` : ''}
-
-## Available Categories
-${TICKET_CATEGORIES.map(c => `- ${c}: ${this.getCategoryDescription(c)}`).join('\n')}
-
-## Instructions
-1. Read the ticket carefully
-2. Identify the primary concern
-3. Match to the most appropriate category
-4. If multiple categories apply, choose the most specific one
-
-Respond with ONLY the category name (e.g., "billing" or "technical_support"), nothing else.`;
-
-    const response = await this.complete(prompt, { maxTokens: 50, temperature: 0.1 });
-    const category = response.trim().toLowerCase().replace(/[^a-z_]/g, '') as TicketCategory;
-    
-    if (TICKET_CATEGORIES.includes(category)) {
-      logger.debug(`Categorized ticket as: ${category}`);
-      return category;
+  async categorize(input: CategorizeInput): Promise<CategoryPrediction> {
+    const prompt = this.prompt('categorize', {
+      ticket: fence(`Subject: ${input.subject}\nDescription: ${input.description}`),
+      tags: input.tags?.join(', '),
+      categories: this.categoryList(),
+    });
+
+    const { value, raw } = await this.completeStructured<{ category: string; confidence: number }>(
+      'categorize', prompt, this.categorySchema, { maxTokens: 80, temperature: 0.1 }
+    );
+
+    if (value) {
+      logger.debug(`Categorized ticket as: ${value.category}`, { confidence: value.confidence });
+      return {
+        category: value.category,
+        path: value.category.split(CATEGORY_SEPARATOR),
+        confidence: value.confidence,
+      };
     }
 
-    logger.warn(`Invalid category response: "${response}", defaulting to general_inquiry`);
-    return 'general_inquiry';
+    const fallback = this.taxonomy.fallback;
+    logger.warn(`Invalid category response: "${raw}", defaulting to ${fallback}`);
+    return { category: fallback, path: fallback.split(CATEGORY_SEPARATOR), confidence: 0 };
   }
 
   /**
-   * Extract intent, urgency, and sentiment from ticket
+   * Extract intent, urgency, and sentiment from ticket.
+   * With a thread summary, text is the customer's latest message and is analyzed in context.
    */
-  async extractIntent(text: string): Promise<IntentAnalysis> {
-    const prompt = `Analyze this customer support message and extract key information.
-
-## Message
-${text}
-
-## Instructions
-Analyze and provide:
-1. intent: A brief description of what the customer wants (2-5 words)
-2. urgency: low, medium, high, or critical based on:
-   - low: general questions, no deadline
-   - medium: needs attention but not time-sensitive
-   - high: impacts customer's work, needs quick resolution
-   - critical: system down, data loss, security issue
-3. sentiment: positive, neutral, negative, or frustrated
-4. keyEntities: Array of key terms (product names, features, error codes)
-
-## Response Format
-Respond with valid JSON only:
-{"intent": "...", "urgency": "...", "sentiment": "...", "keyEntities": [...]}`;
-
-    const response = await this.complete(prompt, { maxTokens: 200, temperature: 0.2 });
-    
-    try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found');
-      
-      const parsed = JSON.parse(jsonMatch[0]) as IntentAnalysis;
-      
-      // Validate and normalize
-      return {
-        intent: parsed.intent || 'unknown',
-        urgency: ['low', 'medium', 'high', 'critical'].includes(parsed.urgency) 
-          ? parsed.urgency : 'medium',
-        sentiment: ['positive', 'neutral', 'negative', 'frustrated'].includes(parsed.sentiment)
-          ? parsed.sentiment : 'neutral',
-        keyEntities: Array.isArray(parsed.keyEntities) ? parsed.keyEntities : [],
-      };
-    } catch (error) {
-      logger.warn('Failed to parse intent analysis', { response, error });
-      return { intent: 'unknown', urgency: 'medium', sentiment: 'neutral', keyEntities: [] };
+  async extractIntent(text: string, options: { threadSummary?: string } = {}): Promise<IntentAnalysis> {
+    const prompt = this.prompt('extractIntent', {
+      message: fence(text),
+      threadSummary: options.threadSummary && fence(options.threadSummary),
+    });
+
+    const { value, raw } = await this.completeStructured<IntentAnalysis>(
+      'extractIntent', prompt, INTENT_SCHEMA, { maxTokens: 200, temperature: 0.2 }
+    );
+
+    if (value) return value;
+
+    logger.warn('Failed to parse intent analysis, using defaults', { response: raw });
+    return { intent: 'unknown', urgency: 'medium', sentiment: 'neutral', keyEntities: [] };
+  }
+
+  /**
+   * Categorize a ticket and extract intent, urgency, sentiment, entities and
+   * language in one call (instead of categorize + extractIntent)
+   */
+  async analyzeTicket(input: AnalyzeInput): Promise<TicketAnalysis> {
+    const prompt = this.prompt('analyzeTicket', {
+      ticket: fence(`Subject: ${input.subject}\nDescription: ${input.description}`),
+      tags: input.tags?.join(', '),
+      categories: this.categoryList(),
+      latestMessage: input.latestMessage && fence(input.latestMessage),
+      threadSummary: input.threadSummary && fence(input.threadSummary),
+    });
+
+    const { value, raw } = await this.completeStructured<TicketAnalysis>(
+      'analyzeTicket', prompt, this.analysisSchema, { maxTokens: 250, temperature: 0.1 }
+    );
+
+    if (value) {
+      logger.debug(`Analyzed ticket`, { category: value.category, language: value.language });
+      return value;
     }
+
+    logger.warn('Failed to parse ticket analysis, using defaults', { response: raw });
+    return {
+      category: this.taxonomy.fallback,
+      categoryConfidence: 0,
+      intent: 'unknown',
+      urgency: 'medium',
+      sentiment: 'neutral',
+      keyEntities: [],
+      language: 'unknown',
+    };
   }
 
   /**
    * Generate a draft response using RAG context
    */
   async generateDraft(input: DraftInput): Promise<DraftResponse> {
-    const contextSection = this.formatContext(input.context);
-    
-    const prompt = `You are an expert customer support agent. Draft a professional response to this ticket.
-
-## Customer Information
-- Name: ${input.customerName}
-- Sentiment: ${input.sentiment || 'unknown'}
-- Category: ${input.category || 'unknown'}
-
-## Ticket
-Subject: ${input.subject}
-Message: ${input.description}
-
-${contextSection}
-
-## Guidelines
-1. Address the customer by name
-2. Acknowledge their concern with empathy
-3. Provide a clear, helpful response
-4. If using knowledge base information, incorporate it naturally
-5. Include specific next steps when applicable
-6. Keep a professional but warm tone
-7. End with an offer for further assistance
-
-## Response Format
-Respond with valid JSON:
-{
-  "draft": "The complete response to the customer",
-  "confidence": 0.0-1.0 (how confident you are this addresses their needs),
-  "suggestedTags": ["tag1", "tag2"],
-  "requiresHumanReview": true/false,
-  "reasoning": "Brief explanation of your approach"
-}`;
-
-    const response = await this.complete(prompt, { maxTokens: 1000, temperature: 0.5 });
-
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found');
-      
-      const parsed = JSON.parse(jsonMatch[0]) as DraftResponse;
-      
+    const prompt = this.prompt('generateDraft', {
+      customerName: fence(input.customerName),
+      sentiment: input.sentiment || 'unknown',
+      category: input.category || 'unknown',
+      ticket: fence(`Subject: ${input.subject}\nMessage: ${input.description}`),
+      knowledge: this.formatContext(input.context),
+      latestMessage: input.latestMessage && fence(input.latestMessage),
+      threadSummary: input.threadSummary && fence(input.threadSummary),
+    }, input.category);
+
+    const { value, raw } = await this.completeStructured<DraftResponse>(
+      'generateDraft', prompt, DRAFT_SCHEMA, { maxTokens: 1000, temperature: 0.5 }
+    );
+
+    if (value) {
       return {
-        draft: parsed.draft || response,
-        confidence: Math.min(1, Math.max(0, parsed.confidence || 0.7)),
-        suggestedTags: Array.isArray(parsed.suggestedTags) ? parsed.suggestedTags : [],
-        requiresHumanReview: parsed.requiresHumanReview ?? true,
-        reasoning: parsed.reasoning || '',
-      };
-    } catch (error) {
-      // If JSON parsing fails, return the raw text as draft
-      logger.warn('Failed to parse draft response as JSON, using raw text');
-      return {
-        draft: response,
-        confidence: 0.5,
-        suggestedTags: [],
-        requiresHumanReview: true,
-        reasoning: 'Auto-generated from raw LLM response',
+        draft: value.draft,
+        confidence: value.confidence,
+        suggestedTags: value.suggestedTags || [],
+        requiresHumanReview: value.requiresHumanReview,
+        reasoning: value.reasoning || '',
       };
     }
+
+    // Still invalid after repair: return the raw text as a low-confidence draft
+    logger.warn('Failed to parse draft response as JSON, using raw text');
+    return {
+      draft: raw,
+      confidence: 0.5,
+      suggestedTags: [],
+      requiresHumanReview: true,
+      reasoning: 'Auto-generated from raw LLM response',
+    };
   }
 
   /**
-   * Summarize a long ticket thread
+   * Summarize a long ticket thread. With focus 'resolution' the summary is written
+   * as a reusable knowledge entry: the problem and how it was solved, without
+   * names or personal details.
    */
-  async summarizeThread(messages: string[]): Promise<string> {
-    const prompt = `Summarize this customer support conversation thread concisely.
+  async summarizeThread(messages: string[], options: { focus?: 'status' | 'resolution' } = {}): Promise<string> {
+    const conversation = fence(messages.map((m, i) => `[Message ${i + 1}]: ${m}`).join('\n\n'));
 
-## Conversation
-${messages.map((m, i) => `[Message ${i + 1}]: ${m}`).join('\n\n')}
+    if (options.focus === 'resolution') {
+      const prompt = this.prompt('summarizeResolution', { conversation });
+      return await this.complete('summarizeThread', prompt, { maxTokens: 400, temperature: 0.2 });
+    }
 
-## Instructions
-Provide a brief summary (2-4 sentences) covering:
-- The main issue
-- Key points discussed
-- Current status/resolution
+    const prompt = this.prompt('summarizeThread', { conversation });
+    return await this.complete('summarizeThread', prompt, { maxTokens: 300, temperature: 0.3 });
+  }
 
-Summary:`;
+  /**
+   * Check which claims the knowledge base articles entail. Returns one verdict
+   * per claim, in order, with the 1-based article that supports it.
+   */
+  async verifyClaims(
+    claims: string[],
+    knowledge: KnowledgeResult[]
+  ): Promise<Array<{ supported: boolean; article?: number }>> {
+    const prompt = this.prompt('verifyGrounding', {
+      knowledge: this.formatContext(knowledge),
+      claims: fence(claims.map((c, i) => `${i + 1}. ${c}`).join('\n')),
+    });
+
+    const { value } = await this.completeStructured<{ claims: Array<{ claim: number; supported: boolean; article?: number }> }>(
+      'verifyGrounding', prompt, GROUNDING_SCHEMA, { maxTokens: 50 + claims.length * 30, temperature: 0 }
+    );
+
+    // Claims the verifier skipped (or an unparseable reply) count as unsupported
+    return claims.map((_, i) => {
+      const verdict = value?.claims.find(c => c.claim === i + 1);
+      return { supported: !!verdict?.supported, article: verdict?.supported ? verdict.article : undefined };
+    });
+  }
+
+  /**
+   * Ask whether customer text tries to override the assistant's instructions
+   * (prompt injection or jailbreak), rather than just asking for help
+   */
+  async detectInjection(text: string): Promise<InjectionClassification> {
+    const prompt = this.prompt('detectInjection', { text: fence(text) });
+
+    const { value, raw } = await this.completeStructured<InjectionClassification>(
+      'detectInjection', prompt, INJECTION_SCHEMA, { maxTokens: 150, temperature: 0 }
+    );
 
-    return await this.complete(prompt, { maxTokens: 300, temperature: 0.3 });
+    if (value) return { injection: value.injection, confidence: value.confidence, reason: value.reason || '' };
+
+    logger.warn('Failed to parse injection classification', { response: raw });
+    return { injection: false, confidence: 0, reason: 'unparseable classifier reply' };
   }
 
   /**
-   * Core completion method supporting both providers
+   * Plain text completion for a task
    */
   private async complete(
+    task: LLMTask,
     prompt: string, 
     options: { maxTokens?: number; temperature?: number } = {}
   ): Promise<string> {
     const { maxTokens = 1000, temperature = 0.3 } = options;
+    const response = await this.route(task, { prompt, maxTokens, temperature });
+    return response.text;
+  }
 
-    try {
-      if (this.provider === 'openai' && this.openai) {
-        const response = await this.openai.chat.completions.create({
-          model: this.model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature,
-          max_tokens: maxTokens,
-        });
-        return response.choices[0]?.message?.content || '';
-      } 
-      
-      if (this.anthropic) {
-        const response = await this.anthropic.messages.create({
-          model: this.model,
-          max_tokens: maxTokens,
-          messages: [{ role: 'user', content: prompt }],
+  /**
+   * Send a request along the task's route (or the default provider chain),
+   * skipping providers whose circuit is open and failing over on errors and timeouts.
+   * PII in the prompt is replaced with the ticket's placeholders, which are
+   * restored in the reply.
+   */
+  private async route(
+    task: LLMTask | 'healthCheck',
+    request: CompletionRequest
+  ): Promise<CompletionResponse & { provider: LLMProvider }> {
+    // The budget may refuse the request or swap in a cheaper model
+    const budgetTargets = task !== 'healthCheck'
+      ? this.budget?.enforce(task)?.filter(t => this.providers.has(t.provider))
+      : undefined;
+    const targets = (budgetTargets?.length && budgetTargets)
+      || (task !== 'healthCheck' && this.routes[task])
+      || this.chain;
+    const failures: string[] = [];
+    const redaction = this.pii && (currentTicketContext()?.redaction ?? this.pii.session());
+    const prompt = redaction ? redaction.redact(request.prompt) : request.prompt;
+
+    for (const target of targets) {
+      const provider = this.providers.get(target.provider)!;
+      const breaker = this.breakers.get(target.provider)!;
+
+      if (!breaker.canRequest()) {
+        failures.push(`${target.provider}: circuit open`);
+        continue;
+      }
+
+      try {
+        const response = await withTimeout(
+          provider.complete({ ...request, prompt, task, model: target.model }),
+          this.timeoutMs,
+          `${target.provider} timed out after ${this.timeoutMs}ms`
+        );
+        breaker.recordSuccess();
+        this.usage?.record({
+          kind: 'llm',
+          provider: target.provider,
+          model: response.model,
+          task,
+          inputTokens: response.usage?.inputTokens ?? 0,
+          outputTokens: response.usage?.outputTokens ?? 0,
         });
-        return response.content[0]?.type === 'text' ? response.content[0].text : '';
+
+        if (failures.length > 0) {
+          logger.warn(`LLM failover: ${task} served by ${target.provider}`, { failures });
+        }
+        if (redaction) {
+          return {
+            ...response,
+            text: redaction.restore(response.text),
+            parsed: redaction.restoreDeep(response.parsed),
+            provider: target.provider,
+          };
+        }
+        return { ...response, provider: target.provider };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown LLM error';
+        breaker.recordFailure(message);
+        failures.push(`${target.provider}: ${message}`);
+        logger.error('LLM completion failed', { provider: target.provider, model: target.model, task, error: message });
       }
-      
-      throw new Error('No LLM provider configured');
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown LLM error';
-      logger.error('LLM completion failed', { provider: this.provider, error: message });
-      throw Errors.llmError(message);
     }
+
+    throw Errors.llmError(`All LLM providers failed for ${task}: ${failures.join('; ')}`);
+  }
+
+  /**
+   * Completion whose reply must match a schema. Uses the provider's native mode
+   * (OpenAI JSON mode, an Anthropic tool call), validates the reply and, if it is
+   * invalid, retries once with the validation errors. Outcomes are counted per task.
+   */
+  private async completeStructured<T>(
+    task: LLMTask,
+    prompt: string,
+    schema: JsonSchema,
+    options: { maxTokens?: number; temperature?: number } = {}
+  ): Promise<StructuredResult<T>> {
+    const stats = this.statsFor(task);
+    stats.requests++;
+
+    const first = await this.completeJson(task, prompt, schema, options);
+    const firstErrors = this.checkReply(first, schema, stats);
+    if (firstErrors.length === 0) {
+      stats.valid++;
+      return { value: first.parsed as T, raw: first.raw };
+    }
+
+    logger.warn('Structured output invalid, retrying with repair prompt', { task, errors: firstErrors });
+
+    const repairPrompt = `${prompt}
+
+## Correction
+Your previous reply was not valid:
+${firstErrors.map(e => `- ${e}`).join('\n')}
+
+Previous reply:
+${first.raw.substring(0, 2000)}
+
+Reply again with JSON that fixes these problems and matches this schema exactly:
+${JSON.stringify(schema)}`;
+
+    const second = await this.completeJson(task, repairPrompt, schema, options);
+    const secondErrors = this.checkReply(second, schema, stats);
+    if (secondErrors.length === 0) {
+      stats.repaired++;
+      return { value: second.parsed as T, raw: second.raw };
+    }
+
+    stats.fallbacks++;
+    logger.error('Structured output invalid after repair', { task, errors: secondErrors });
+    return { value: null, raw: second.raw };
+  }
+
+  /**
+   * Ask for a JSON reply in the provider's native structured mode.
+   * parsed is undefined when the reply could not be parsed as JSON.
+   */
+  private async completeJson(
+    task: LLMTask,
+    prompt: string,
+    schema: JsonSchema,
+    options: { maxTokens?: number; temperature?: number }
+  ): Promise<{ parsed?: unknown; raw: string }> {
+    const { maxTokens = 1000, temperature = 0.3 } = options;
+    const response = await this.route(task, {
+      prompt,
+      maxTokens,
+      temperature,
+      structured: { name: task, schema },
+    });
+
+    return { parsed: response.parsed ?? parseJson(response.text), raw: response.text };
+  }
+
+  private checkReply(reply: { parsed?: unknown }, schema: JsonSchema, stats: StructuredOutputStats): string[] {
+    if (reply.parsed === undefined) {
+      stats.parseErrors++;
+      return ['reply is not valid JSON'];
+    }
+
+    const errors = validateSchema(reply.parsed, schema);
+    if (errors.length > 0) stats.validationErrors++;
+    return errors;
+  }
+
+  private statsFor(task: LLMTask): StructuredOutputStats {
+    return (this.structuredStats[task] ??= {
+      requests: 0,
+      valid: 0,
+      repaired: 0,
+      fallbacks: 0,
+      parseErrors: 0,
+      validationErrors: 0,
+    });
+  }
+
+  /**
+   * Structured output counters per task, since startup
+   */
+  getStructuredOutputStats(): Record<string, StructuredOutputStats> {
+    return JSON.parse(JSON.stringify(this.structuredStats));
+  }
+
+  /**
+   * Render a prompt from the template that applies to the current ticket's
+   * brand (or the given category), noting the version in the ticket context
+   */
+  private prompt(name: PromptName, variables: Record<string, string | undefined>, category?: string): string {
+    const context = currentTicketContext();
+    const brand = context && context.tenant !== DEFAULT_TENANT ? context.tenant : undefined;
+    const { text, usage } = this.prompts.render(name, variables, { category, brand });
+    if (context?.prompts) context.prompts[name] = usage;
+    return text;
+  }
+
+  private categoryList(): string {
+    return this.taxonomy.describe();
   }
 
   /**
@@ -257,7 +535,7 @@ Summary:`;
     }
 
     const articles = context
-      .slice(0, 5) // Limit to top 5
+      .slice(0, MAX_CONTEXT_ARTICLES)
       .map((c, i) => {
         const title = c.title ? `**${c.title}**\n` : '';
         const url = c.url ? `\nSource: ${c.url}` : '';
@@ -269,34 +547,61 @@ Summary:`;
   }
 
   /**
-   * Get human-readable category descriptions
+   * Provider chain with each provider's circuit state, for health checks
    */
-  private getCategoryDescription(category: TicketCategory): string {
-    const descriptions: Record<TicketCategory, string> = {
-      billing: 'Payment, invoices, charges, pricing, subscriptions',
-      technical_support: 'Bugs, errors, troubleshooting, how-to questions',
-      account_management: 'Login issues, profile changes, permissions',
-      feature_request: 'New feature suggestions, enhancements',
-      bug_report: 'Software bugs, unexpected behavior',
-      general_inquiry: 'General questions, information requests',
-      cancellation: 'Account or subscription cancellation',
-      refund: 'Refund requests, money back',
-      onboarding: 'Getting started, setup, initial configuration',
-      integration: 'API, webhooks, third-party connections',
-      security: 'Security concerns, data privacy, access issues',
-    };
-    return descriptions[category] || category;
+  getProviderStatus(): ProviderStatus[] {
+    return [...this.providers.values()].map(p => ({
+      provider: p.name,
+      model: p.defaultModel,
+      circuit: this.breakers.get(p.name)!.snapshot(),
+    }));
   }
 
   /**
-   * Verify LLM connection
+   * Verify LLM connection. Healthy when any provider in the chain answers.
    */
-  async verifyConnection(): Promise<{ success: boolean; provider: string; model: string }> {
+  async verifyConnection(): Promise<{
+    success: boolean;
+    provider: string;
+    model: string;
+    providers: ProviderStatus[];
+  }> {
+    const [primary] = this.getProviderStatus();
     try {
-      await this.complete('Say "ok"', { maxTokens: 10 });
-      return { success: true, provider: this.provider, model: this.model };
+      const response = await this.route('healthCheck', { prompt: 'Say "ok"', maxTokens: 10, temperature: 0 });
+      return {
+        success: true,
+        provider: response.provider,
+        model: response.model,
+        providers: this.getProviderStatus(),
+      };
     } catch {
-      return { success: false, provider: this.provider, model: this.model };
+      return { success: false, provider: primary.provider, model: primary.model, providers: this.getProviderStatus() };
     }
   }
 }
+
+/**
+ * Parse a JSON reply, tolerating markdown code fences around it
+ */
+function parseJson(text: string): unknown {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return undefined;
+
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reject if promise doesn't settle within ms
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
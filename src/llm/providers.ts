@@ -0,0 +1,214 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, LLMProviderConfig, TokenUsage } from '../types';
+import { JsonSchema } from './schema';
+
+export interface CompletionRequest {
+  task?: string;             // Orchestrator task name (used by the mock provider)
+  prompt: string;
+  model?: string;            // Overrides the provider's default model
+  maxTokens: number;
+  temperature: number;
+  /** Ask for JSON matching schema, using the provider's native structured mode */
+  structured?: { name: string; schema: JsonSchema };
+}
+
+export interface CompletionResponse {
+  text: string;              // Reply text (the JSON input for tool calls)
+  parsed?: unknown;          // Already-parsed structured reply, when the provider returns one
+  model: string;
+  usage?: TokenUsage;        // As reported by the provider
+}
+
+/**
+ * One LLM provider. Implementations throw on any failure; the orchestrator
+ * handles failover between providers.
+ */
+export interface LLMProviderClient {
+  readonly name: LLMProvider;
+  readonly defaultModel: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+/**
+ * OpenAI chat completions. Structured requests use JSON mode.
+ */
+export class OpenAIProvider implements LLMProviderClient {
+  readonly name: LLMProvider = 'openai';
+  readonly defaultModel: string;
+  private client: OpenAI;
+
+  constructor(config: { apiKey: string; model?: string; timeoutMs?: number; baseUrl?: string }) {
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl,
+      timeout: config.timeoutMs,
+      maxRetries: 1,
+    });
+    this.defaultModel = config.model || 'gpt-4-turbo-preview';
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.structured ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      model,
+      usage: response.usage
+        ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Any server exposing the OpenAI chat completions API (vLLM, llama.cpp,
+ * Ollama, LM Studio, ...), e.g. a local inference server for offline runs.
+ * The server must support JSON mode (response_format) for structured tasks.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: LLMProvider = 'openai_compatible';
+
+  constructor(config: { apiKey?: string; model?: string; timeoutMs?: number; baseUrl: string }) {
+    super({
+      ...config,
+      apiKey: config.apiKey || 'not-needed',
+      model: config.model || 'local-model',
+    });
+  }
+}
+
+/**
+ * Anthropic messages. Structured requests are answered through a tool call
+ * whose input schema is the task schema.
+ */
+export class AnthropicProvider implements LLMProviderClient {
+  readonly name = 'anthropic';
+  readonly defaultModel: string;
+  private client: Anthropic;
+
+  constructor(config: { apiKey: string; model?: string; timeoutMs?: number }) {
+    this.client = new Anthropic({ apiKey: config.apiKey, timeout: config.timeoutMs, maxRetries: 1 });
+    this.defaultModel = config.model || 'claude-3-sonnet-20240229';
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const model = request.model || this.defaultModel;
+
+    if (!request.structured) {
+      const response = await this.client.messages.create({
+        model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: request.prompt }],
+      });
+      return {
+        text: response.content[0]?.type === 'text' ? response.content[0].text : '',
+        model,
+        usage: anthropicUsage(response.usage),
+      };
+    }
+
+    const toolName = `record_${request.structured.name}`;
+    const response = await this.client.beta.tools.messages.create({
+      model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      tools: [{
+        name: toolName,
+        description: `Record the result of the ${request.structured.name} task`,
+        input_schema: { ...request.structured.schema, type: 'object' },
+      }],
+      messages: [{ role: 'user', content: `${request.prompt}\n\nRespond by calling the ${toolName} tool.` }],
+    });
+
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    if (toolUse && toolUse.type === 'tool_use') {
+      return { text: JSON.stringify(toolUse.input), parsed: toolUse.input, model, usage: anthropicUsage(response.usage) };
+    }
+    const text = response.content.map(block => (block.type === 'text' ? block.text : '')).join('');
+    return { text, model, usage: anthropicUsage(response.usage) };
+  }
+}
+
+function anthropicUsage(usage?: { input_tokens: number; output_tokens: number }): TokenUsage | undefined {
+  return usage ? { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens } : undefined;
+}
+
+/**
+ * Fixtures for the mock provider. Replies are looked up by prompt hash, then
+ * by task, then the default; object replies are sent as JSON.
+ */
+export interface MockFixtures {
+  prompts?: Record<string, unknown>;   // MockLLMProvider.hashPrompt(prompt) -> reply
+  tasks?: Record<string, unknown>;     // Task name -> reply
+  default?: unknown;
+}
+
+/**
+ * Scripted provider that replays fixtures, for offline runs and integration tests.
+ * A prompt without a fixture fails with its hash, so it can be added to the file.
+ */
+export class MockLLMProvider implements LLMProviderClient {
+  readonly name = 'mock';
+  readonly defaultModel: string;
+  readonly calls: Array<CompletionRequest & { hash: string }> = [];
+  private fixtures: MockFixtures;
+
+  constructor(config: { fixtures?: MockFixtures; fixturesPath?: string; model?: string } = {}) {
+    this.fixtures = config.fixtures
+      || (config.fixturesPath ? JSON.parse(fs.readFileSync(config.fixturesPath, 'utf-8')) as MockFixtures : {});
+    this.defaultModel = config.model || 'mock';
+  }
+
+  /**
+   * Fixture key for a prompt
+   */
+  static hashPrompt(prompt: string): string {
+    return crypto.createHash('sha256').update(prompt).digest('hex').substring(0, 16);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const hash = MockLLMProvider.hashPrompt(request.prompt);
+    this.calls.push({ ...request, hash });
+
+    const reply = this.fixtures.prompts?.[hash]
+      ?? (request.task ? this.fixtures.tasks?.[request.task] : undefined)
+      ?? this.fixtures.default;
+
+    if (reply === undefined) {
+      throw new Error(`No mock fixture for prompt ${hash}${request.task ? ` (task ${request.task})` : ''}`);
+    }
+
+    const text = typeof reply === 'string' ? reply : JSON.stringify(reply);
+    return { text, model: request.model || this.defaultModel };
+  }
+}
+
+/**
+ * Create the client for a configured provider
+ */
+export function createLLMProvider(config: LLMProviderConfig & { timeoutMs?: number }): LLMProviderClient {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'openai_compatible':
+      if (!config.baseUrl) throw new Error('openai_compatible provider requires a base URL');
+      return new OpenAICompatibleProvider({ ...config, baseUrl: config.baseUrl });
+    case 'mock':
+      return new MockLLMProvider({ fixturesPath: config.fixturesPath, model: config.model });
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider as string}`);
+  }
+}
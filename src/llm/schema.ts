@@ -0,0 +1,171 @@
+/**
+ * The subset of JSON Schema used to describe LLM task outputs. It is sent to the
+ * provider as-is (OpenAI JSON mode prompt, Anthropic tool input_schema) and
+ * checked locally by validateSchema.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+}
+
+/**
+ * Validate a value against a schema. Returns one message per violation
+ * (empty when valid), each prefixed with the path of the offending value.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (!matchesType(value, schema.type)) {
+    return [`${path}: expected ${schema.type}, got ${describeType(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${path}: must be at least ${schema.minLength} characters`);
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => {
+      errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`));
+    });
+  }
+
+  if (schema.type === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+      if (obj[key] !== undefined) {
+        errors.push(...validateSchema(obj[key], propSchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: JsonSchema['type']): boolean {
+  switch (type) {
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// ============================================================
+// Task schemas
+// ============================================================
+
+// The category enum comes from the configured taxonomy
+export function categorySchema(categories: string[]): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      category: { type: 'string', enum: categories },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+    },
+    required: ['category', 'confidence'],
+  };
+}
+
+export const INTENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    intent: { type: 'string', description: 'What the customer wants (2-5 words)', minLength: 1 },
+    urgency: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+    sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative', 'frustrated'] },
+    keyEntities: {
+      type: 'array',
+      description: 'Product names, features, error codes',
+      items: { type: 'string' },
+    },
+  },
+  required: ['intent', 'urgency', 'sentiment', 'keyEntities'],
+};
+
+export function analysisSchema(categories: string[]): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      category: { type: 'string', enum: categories },
+      categoryConfidence: { type: 'number', minimum: 0, maximum: 1 },
+      ...INTENT_SCHEMA.properties,
+      language: { type: 'string', description: 'ISO 639-1 code of the customer\'s language', minLength: 2 },
+    },
+    required: ['category', 'categoryConfidence', ...INTENT_SCHEMA.required!, 'language'],
+  };
+}
+
+export const DRAFT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    draft: { type: 'string', description: 'The complete response to the customer', minLength: 1 },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    suggestedTags: { type: 'array', items: { type: 'string' } },
+    requiresHumanReview: { type: 'boolean' },
+    reasoning: { type: 'string' },
+  },
+  required: ['draft', 'confidence', 'requiresHumanReview'],
+};
+
+export const GROUNDING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    claims: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          claim: { type: 'integer', minimum: 1 },
+          supported: { type: 'boolean' },
+          article: { type: 'integer', minimum: 1, description: 'Article that supports the claim' },
+        },
+        required: ['claim', 'supported'],
+      },
+    },
+  },
+  required: ['claims'],
+};
+
+export const INJECTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    injection: { type: 'boolean' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    reason: { type: 'string' },
+  },
+  required: ['injection', 'confidence'],
+};
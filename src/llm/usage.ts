@@ -0,0 +1,251 @@
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { ModelPrice, TokenUsage, UsageBreakdown, UsageTotals } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * One LLM or embedding call
+ */
+export interface UsageRecord extends TokenUsage {
+  kind: 'llm' | 'embedding';
+  provider: string;
+  model: string;
+  task: string;        // Orchestrator task, or "embed"
+  step?: string;       // Pipeline step the call was made in
+  costUsd: number;
+}
+
+export interface UsageLedgerEntry extends UsageRecord {
+  timestamp: string;
+  ticketId?: number;
+  category?: string;
+  tenant?: string;
+}
+
+export interface UsageSummary {
+  from: string;
+  to: string;
+  total: UsageTotals;
+  byDay: Record<string, UsageTotals>;
+  byCategory: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  unpricedModels: string[];
+}
+
+/**
+ * USD per million tokens. Models are matched by longest prefix, so
+ * "gpt-4o-mini-2024-07-18" uses the "gpt-4o-mini" price.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+};
+
+interface UsageScope {
+  records: UsageRecord[];
+  step?: string;
+}
+
+/**
+ * Records the tokens of every LLM and embedding call, priced from the price
+ * table. Calls made inside track() are collected for that run (and attributed to
+ * the current step()); the caller commits them to the ledger once the ticket's
+ * category is known. Calls outside a run go to the ledger directly.
+ */
+export class UsageTracker {
+  private prices: Record<string, ModelPrice>;
+  private ledgerPath?: string;
+  private entries: UsageLedgerEntry[] = []; // Used when there is no ledger file
+  private storage = new AsyncLocalStorage<UsageScope>();
+  private unpriced = new Set<string>();
+  private listeners: Array<(record: UsageRecord) => void> = [];
+
+  constructor(config: { prices?: Record<string, ModelPrice>; ledgerPath?: string } = {}) {
+    this.prices = { ...DEFAULT_PRICES, ...config.prices };
+    this.ledgerPath = config.ledgerPath;
+  }
+
+  /**
+   * Run fn and collect the usage of every call it makes
+   */
+  async track<T>(fn: () => Promise<T>): Promise<{ result: T; records: UsageRecord[] }> {
+    const scope: UsageScope = { records: [] };
+    const result = await this.storage.run(scope, fn);
+    return { result, records: scope.records };
+  }
+
+  /**
+   * Attribute calls made by fn to a pipeline step of the current run
+   */
+  async step<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const scope = this.storage.getStore();
+    if (!scope) return fn();
+    return this.storage.run({ records: scope.records, step: name }, fn);
+  }
+
+  /**
+   * Called synchronously for every call as it is recorded
+   */
+  onRecord(listener: (record: UsageRecord) => void): void {
+    this.listeners.push(listener);
+  }
+
+  record(usage: Omit<UsageRecord, 'costUsd' | 'step'>): void {
+    const scope = this.storage.getStore();
+    const record: UsageRecord = { ...usage, step: scope?.step, costUsd: this.cost(usage) };
+    this.listeners.forEach(listener => listener(record));
+
+    if (scope) {
+      scope.records.push(record);
+    } else {
+      void this.commit([record]);
+    }
+  }
+
+  /**
+   * Append records to the ledger, with the ticket they were made for
+   */
+  async commit(
+    records: UsageRecord[],
+    meta: { ticketId?: number; category?: string; tenant?: string } = {}
+  ): Promise<void> {
+    if (records.length === 0) return;
+    const timestamp = new Date().toISOString();
+    const entries = records.map(r => ({ timestamp, ...meta, ...r }));
+
+    if (!this.ledgerPath) {
+      this.entries.push(...entries);
+      return;
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.ledgerPath), { recursive: true });
+      await fs.promises.appendFile(this.ledgerPath, entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+    } catch (error) {
+      logger.warn('Failed to write usage ledger', {
+        path: this.ledgerPath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Totals of a run, overall and per step
+   */
+  breakdown(records: UsageRecord[]): UsageBreakdown {
+    const total = emptyTotals();
+    const steps: Record<string, UsageTotals> = {};
+
+    for (const record of records) {
+      addTo(total, record);
+      addTo(steps[record.step || record.task] ||= emptyTotals(), record);
+    }
+
+    return { total: rounded(total), steps: mapValues(steps, rounded) };
+  }
+
+  /**
+   * Spend in [from, to], aggregated by day, ticket category and model
+   */
+  async summarize(range: { from: Date; to?: Date }): Promise<UsageSummary> {
+    const to = range.to || new Date();
+    const entries = (await this.readLedger()).filter(e => {
+      const time = new Date(e.timestamp).getTime();
+      return time >= range.from.getTime() && time <= to.getTime();
+    });
+
+    const total = emptyTotals();
+    const byDay: Record<string, UsageTotals> = {};
+    const byCategory: Record<string, UsageTotals> = {};
+    const byModel: Record<string, UsageTotals> = {};
+    const unpricedModels = new Set<string>();
+
+    for (const entry of entries) {
+      addTo(total, entry);
+      addTo(byDay[entry.timestamp.substring(0, 10)] ||= emptyTotals(), entry);
+      addTo(byCategory[entry.category || 'unattributed'] ||= emptyTotals(), entry);
+      addTo(byModel[entry.model] ||= emptyTotals(), entry);
+      if (!this.priceFor(entry.model)) unpricedModels.add(entry.model);
+    }
+
+    return {
+      from: range.from.toISOString(),
+      to: to.toISOString(),
+      total: rounded(total),
+      byDay: mapValues(byDay, rounded),
+      byCategory: mapValues(byCategory, rounded),
+      byModel: mapValues(byModel, rounded),
+      unpricedModels: [...unpricedModels],
+    };
+  }
+
+  private cost(usage: TokenUsage & { model: string }): number {
+    const price = this.priceFor(usage.model);
+    if (!price) {
+      if (!this.unpriced.has(usage.model)) {
+        this.unpriced.add(usage.model);
+        logger.debug(`No price for model ${usage.model}, counting its usage as free`);
+      }
+      return 0;
+    }
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  }
+
+  private priceFor(model: string): ModelPrice | undefined {
+    const prefix = Object.keys(this.prices)
+      .filter(p => model.startsWith(p))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.prices[prefix] : undefined;
+  }
+
+  private async readLedger(): Promise<UsageLedgerEntry[]> {
+    if (!this.ledgerPath) return this.entries;
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.ledgerPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: UsageLedgerEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as UsageLedgerEntry);
+      } catch {
+        // Skip a partially written line
+      }
+    }
+    return entries;
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.costUsd += record.costUsd;
+}
+
+function rounded(totals: UsageTotals): UsageTotals {
+  return { ...totals, costUsd: Math.round(totals.costUsd * 1e6) / 1e6 };
+}
+
+function mapValues<T, U>(record: Record<string, T>, fn: (value: T) => U): Record<string, U> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+}
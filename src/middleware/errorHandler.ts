@@ -7,12 +7,14 @@ export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
   code?: string;
+  retryAt?: number;          // Epoch ms before which retrying is pointless
 
-  constructor(message: string, statusCode = 500, code?: string) {
+  constructor(message: string, statusCode = 500, code?: string, retryAt?: number) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
     this.code = code;
+    this.retryAt = retryAt;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -42,6 +44,9 @@ export const Errors = {
   serviceUnavailable: (service: string) => 
     new AppError(`${service} is currently unavailable`, 503, 'SERVICE_UNAVAILABLE'),
   
+  budgetExceeded: (message: string, retryAt?: number) =>
+    new AppError(`Budget exceeded: ${message}`, 429, 'BUDGET_EXCEEDED', retryAt),
+  
   llmError: (message: string) => 
     new AppError(`LLM processing failed: ${message}`, 502, 'LLM_ERROR'),
   
@@ -121,6 +126,7 @@ export function notFoundHandler(req: Request, res: Response) {
       'POST /api/analyze',
       'POST /admin/kb/index',
       'GET  /admin/kb/search',
+      'GET  /admin/jobs',
     ]
   });
 }
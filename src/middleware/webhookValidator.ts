@@ -82,6 +82,9 @@ export function validateTicketPayload(req: Request, res: Response, next: NextFun
     subject: String(ticket.subject).trim(),
     description: String(ticket.description).trim(),
     tags: Array.isArray(ticket.tags) ? ticket.tags : [],
+    updated_at: ticket.updated_at ? String(ticket.updated_at) : undefined,
+    // Placeholders render as strings, and as "" for tickets without a brand
+    brand_id: Number(ticket.brand_id) || undefined,
     requester: ticket.requester || { name: 'Customer', email: 'unknown@example.com' }
   };
 
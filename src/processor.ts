@@ -1,42 +1,102 @@
 import { ZendeskClient } from './zendesk/client';
+import { formatDraftNote } from './zendesk/notes';
 import { LLMOrchestrator } from './llm/orchestrator';
 import { RAGService } from './rag/service';
 import { 
+  AutoReplyAction,
+  AutoReplyMode,
+  AutoReplyOutcome,
+  BudgetAction,
   ProcessingResult, 
   TicketCategory, 
   IntentAnalysis, 
   DraftResponse,
-  KnowledgeResult 
+  KnowledgeResult,
+  TicketUpdate,
+  ZendeskTicket,
+  InjectionAssessment,
+  GroundingReport,
 } from './types';
 import { logger } from './utils/logger';
+import { AppError } from './middleware/errorHandler';
+import { DedupStore } from './queue/dedupStore';
+import { UsageTracker } from './llm/usage';
+import { BudgetGuard, DEFAULT_TENANT } from './llm/budget';
+import { runWithTicketContext } from './utils/context';
+import { PIIDetector } from './utils/pii';
+import { InjectionGuard, INJECTION_TAG } from './llm/injectionGuard';
+import { GroundingVerifier } from './llm/groundingVerifier';
+import { AutoReplyCandidate, AutoReplyPolicy } from './automation/autoReply';
+import { RulesEngine, ZendeskPriority } from './automation/rulesEngine';
+import { Taxonomy, CATEGORY_SEPARATOR } from './utils/taxonomy';
 
-interface TicketInput {
+export interface TicketInput {
   id: number;
   subject: string;
   description: string;
-  requester?: { name: string; email: string };
+  requester?: { id?: number; name: string; email: string };
   tags?: string[];
+  updatedAt?: string;              // Zendesk updated_at, used for idempotency
+  brandId?: number;                // Budget tenant
 }
 
+export interface ProcessOptions {
+  force?: boolean;                 // Ignore the dedup cache
+  dryRun?: boolean;                // Only categorize; no knowledge, draft or Zendesk writes
+  shadowAutoReply?: boolean;       // Never send auto-replies; live mode is treated as shadow
+}
+
+// Added to every processed ticket
+export const PROCESSED_TAG = 'ai_processed';
+
+const unknownIntent = (): IntentAnalysis => ({ intent: 'unknown', urgency: 'medium', sentiment: 'neutral', keyEntities: [] });
+
 interface ProcessorConfig {
   addDraftToTicket?: boolean;      // Add draft as internal note
   addTagsToTicket?: boolean;       // Add AI tags to ticket
   minConfidenceForDraft?: number;  // Minimum confidence to generate draft
   categoryFieldId?: number;        // Custom field ID for category
+  taxonomy?: Taxonomy;             // Categories and their custom field values
+  dedupStore?: DedupStore<ProcessingResult>; // Skip duplicate deliveries of the same update
+  useConversation?: boolean;       // Read the comment thread, not just the description
+  summarizeThreadAfter?: number;   // Summarize threads with more public messages than this
+  combinedAnalysis?: boolean;      // One analyzeTicket call instead of categorize + extractIntent
+  usageTracker?: UsageTracker;     // Token usage and cost per pipeline step
+  budgetGuard?: BudgetGuard;       // Per-tenant spend limits
+  autoReply?: AutoReplyPolicy;     // Publish high-confidence drafts without review
+  rulesEngine?: RulesEngine;       // Assignment, group, priority and tag rules
+  pii?: PIIDetector;               // Redact PII from the ticket's LLM and embedding calls
+  injectionGuard?: InjectionGuard; // Screen customer text for prompt injection
+  groundingVerifier?: GroundingVerifier; // Check drafts against the retrieved knowledge
+}
+
+/**
+ * Where a ticket's conversation stands: the customer's latest public message
+ * plus the earlier thread (LLM-summarized when long, verbatim otherwise)
+ */
+interface Conversation {
+  latestMessage: string;
+  threadSummary: string;
+  messageCount: number;
+  summarized: boolean;
 }
 
 /**
  * Main ticket processor orchestrating the AI pipeline
  * 1. Categorizes ticket
- * 2. Extracts intent and sentiment
+ * 2. Extracts intent and sentiment (1 and 2 in one call with combinedAnalysis)
  * 3. Retrieves relevant knowledge
  * 4. Generates draft response
+ * 5. Auto-replies when every safety gate passes, otherwise adds the draft as a note
+ * 6. Routes the ticket: routing rules and urgency-based priority
+ * Tags, fields, the note or reply and routing go to Zendesk in a single update.
  */
 export class TicketProcessor {
   private zendesk: ZendeskClient;
   private llm: LLMOrchestrator;
   private rag: RAGService;
   private config: ProcessorConfig;
+  private taxonomy: Taxonomy;
 
   constructor(
     zendesk: ZendeskClient,
@@ -51,127 +111,538 @@ export class TicketProcessor {
       addDraftToTicket: true,
       addTagsToTicket: true,
       minConfidenceForDraft: 0.6,
+      useConversation: true,
+      summarizeThreadAfter: 4,
+      combinedAnalysis: true,
       ...config,
     };
+    this.taxonomy = this.config.taxonomy || new Taxonomy();
   }
 
   /**
-   * Process a ticket through the AI pipeline
+   * Process a ticket through the AI pipeline.
+   * Duplicate deliveries of the same ticket update return the cached result
+   * unless force is set.
    */
-  async process(ticket: TicketInput): Promise<ProcessingResult> {
+  async process(ticket: TicketInput, options: ProcessOptions = {}): Promise<ProcessingResult> {
+    const { dedupStore } = this.config;
+    if (!dedupStore || options.force || options.dryRun) {
+      return this.runTracked(ticket, options);
+    }
+
+    const { result, duplicate } = await dedupStore.run(
+      DedupStore.keyFor(ticket),
+      () => this.runTracked(ticket, options),
+      r => !r.error // Failed runs stay retryable
+    );
+    return duplicate ? { ...result, duplicate: true } : result;
+  }
+
+  /**
+   * Run the pipeline in the ticket's context, recording the usage of its LLM
+   * and embedding calls, the prompt versions they used and the PII redacted from them
+   */
+  private async runTracked(ticket: TicketInput, options: ProcessOptions): Promise<ProcessingResult> {
+    const tenant = tenantOf(ticket);
+    const run = () => (options.dryRun ? this.runDryRun(ticket) : this.runPipeline(ticket, options));
+
+    const redaction = this.config.pii?.session();
+    const prompts: ProcessingResult['prompts'] = {};
+
+    const result = await runWithTicketContext({ ticketId: ticket.id, tenant, redaction, prompts }, async () => {
+      const { usageTracker } = this.config;
+      if (!usageTracker) return run();
+
+      const { result, records } = await usageTracker.track(run);
+      await usageTracker.commit(records, { ticketId: ticket.id, category: result.category, tenant });
+      const usage = usageTracker.breakdown(records);
+      logger.info(`  💰 Usage: ${usage.total.inputTokens + usage.total.outputTokens} tokens, $${usage.total.costUsd.toFixed(4)}`);
+      return { ...result, usage };
+    });
+
+    if (Object.keys(prompts).length > 0) {
+      result.prompts = prompts;
+    }
+    if (redaction) {
+      result.redaction = redaction.report();
+      if (result.redaction.total > 0) {
+        logger.info(`  🔒 Redacted ${result.redaction.total} PII values`, { byType: result.redaction.byType });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Time a pipeline step and attribute its LLM usage to it
+   */
+  private step<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const { usageTracker } = this.config;
+    return logger.timed(name, () => (usageTracker ? usageTracker.step(name, fn) : fn()));
+  }
+
+  /**
+   * Run every pipeline step for a ticket
+   */
+  private async runPipeline(ticket: TicketInput, options: ProcessOptions): Promise<ProcessingResult> {
     const startTime = Date.now();
     logger.info(`🎫 Processing ticket #${ticket.id}`, { subject: ticket.subject });
 
-    let category: TicketCategory = 'general_inquiry';
-    let intent: IntentAnalysis = { intent: 'unknown', urgency: 'medium', sentiment: 'neutral', keyEntities: [] };
+    let category: TicketCategory = this.taxonomy.fallback;
+    let categoryConfidence: number | undefined;
+    let intent: IntentAnalysis = unknownIntent();
+    let language: string | undefined;
     let relevantKnowledge: KnowledgeResult[] = [];
     let draftResponse: DraftResponse | null = null;
     let error: string | undefined;
+    let errorCode: string | undefined;
+    let budgetAction: BudgetAction | undefined;
+    let resumeAt: string | undefined;
+    let autoReply: AutoReplyOutcome | undefined;
+    let matchedRules: string[] | undefined;
+    let injection: InjectionAssessment | undefined;
+    let grounding: GroundingReport | undefined;
+    const tenant = tenantOf(ticket);
 
     try {
-      // Step 1: Categorize the ticket
-      category = await logger.timed('categorize', async () => 
-        this.llm.categorize({
-          subject: ticket.subject,
-          description: ticket.description,
-          tags: ticket.tags,
-        })
-      );
-      logger.info(`  📁 Category: ${category}`);
+      // Follow-up replies change what the customer needs, so read the thread
+      const conversation = this.config.useConversation
+        ? await this.step('loadConversation', async () => this.loadConversation(ticket))
+        : null;
+      if (conversation) {
+        logger.info(`  💬 Thread: ${conversation.messageCount} messages${conversation.summarized ? ' (summarized)' : ''}`);
+      }
+      const latestMessage = conversation?.latestMessage || ticket.description;
 
-      // Step 2: Extract intent, urgency, and sentiment
-      intent = await logger.timed('extractIntent', async () =>
-        this.llm.extractIntent(ticket.description)
-      );
-      logger.info(`  🎯 Intent: ${intent.intent} | Urgency: ${intent.urgency} | Sentiment: ${intent.sentiment}`);
+      // Screen the customer's text before it reaches any prompt
+      if (this.config.injectionGuard) {
+        const text = [ticket.subject, ticket.description, latestMessage !== ticket.description ? latestMessage : '']
+          .filter(Boolean)
+          .join('\n');
+        injection = await this.step('injectionGuard', async () => this.config.injectionGuard!.assess(text));
+        if (injection.flagged) {
+          logger.warn(`  🛡️  Possible prompt injection (score ${injection.score})`, { signals: injection.signals });
+        }
+      }
+      const injectionSuspected = !!injection?.flagged;
+
+      // Steps 1-2: Categorize and extract intent, urgency, and sentiment
+      ({ category, categoryConfidence, intent, language } = await this.analyze(ticket, conversation));
 
       // Step 3: Retrieve relevant knowledge using hybrid search
-      relevantKnowledge = await logger.timed('ragRetrieval', async () =>
+      relevantKnowledge = await this.step('ragRetrieval', async () =>
         this.rag.hybridSearch(
-          `${ticket.subject}\n${ticket.description}`,
+          `${ticket.subject}\n${latestMessage}`,
           intent.keyEntities
         )
       );
       logger.info(`  📚 Found ${relevantKnowledge.length} relevant KB articles`);
 
-      // Step 4: Add tags to ticket (async, don't wait)
+      // Changes to the ticket are collected here and written in one update (Step 10)
+      const update: TicketUpdate = {};
+
+      // Step 4: Add tags to ticket
       if (this.config.addTagsToTicket) {
-        const tags = this.generateTags(category, intent);
-        this.zendesk.addTags(ticket.id, tags).catch(e => 
-          logger.warn('Failed to add tags', { ticketId: ticket.id, error: e.message })
-        );
+        mergeUpdate(update, { additional_tags: this.generateTags(category, intent) });
+      }
+      if (injectionSuspected) {
+        mergeUpdate(update, { additional_tags: [INJECTION_TAG] });
       }
 
-      // Step 5: Set category custom field if configured
+      // Step 5: Set category custom field if configured, using the dropdown option value
       if (this.config.categoryFieldId) {
-        this.zendesk.setCustomField(ticket.id, this.config.categoryFieldId, category).catch(e =>
-          logger.warn('Failed to set category field', { ticketId: ticket.id, error: e.message })
+        mergeUpdate(update, {
+          custom_fields: [{ id: this.config.categoryFieldId, value: this.taxonomy.fieldValue(category) }],
+        });
+      }
+
+      // Step 6: Generate draft response, unless the tenant's budget ran out
+      budgetAction = this.config.budgetGuard?.activeAction(tenant);
+      if (budgetAction === 'skip_draft') {
+        logger.warn(`  💸 Budget exhausted for ${tenant}, draft skipped`);
+      } else {
+        draftResponse = await this.step('generateDraft', async () =>
+          this.llm.generateDraft({
+            subject: ticket.subject,
+            description: ticket.description,
+            customerName: ticket.requester?.name || 'Customer',
+            context: relevantKnowledge,
+            category,
+            sentiment: intent.sentiment,
+            latestMessage: conversation?.latestMessage,
+            threadSummary: conversation?.threadSummary,
+          })
         );
+        logger.info(`  ✍️  Draft generated (confidence: ${Math.round(draftResponse.confidence * 100)}%)`);
+        if (injectionSuspected) {
+          draftResponse = { ...draftResponse, requiresHumanReview: true };
+        }
       }
 
-      // Step 6: Generate draft response
-      draftResponse = await logger.timed('generateDraft', async () =>
-        this.llm.generateDraft({
-          subject: ticket.subject,
-          description: ticket.description,
-          customerName: ticket.requester?.name || 'Customer',
-          context: relevantKnowledge,
+      // Step 6b: Check the draft's claims against the knowledge it was written from
+      const modelConfidence = draftResponse?.confidence ?? 0;
+      const verifier = this.config.groundingVerifier;
+      let weaklyGrounded = false;
+      if (draftResponse && verifier) {
+        const draft = draftResponse.draft;
+        try {
+          grounding = await this.step('verifyGrounding', async () => verifier.verify(draft, relevantKnowledge));
+        } catch (e) {
+          // The draft is still useful to an agent, but nothing vouches for it,
+          // so it isn't auto-replied
+          logger.warn('  🔎 Grounding check failed', { error: e instanceof Error ? e.message : e });
+          draftResponse = { ...draftResponse, requiresHumanReview: true };
+        }
+        weaklyGrounded = !!grounding && grounding.score < verifier.minScore;
+        if (grounding && weaklyGrounded) {
+          logger.warn(`  🔎 Weakly grounded draft (${grounding.unsupportedClaims.length}/${grounding.claims.length} claims unsupported)`);
+          draftResponse = {
+            ...draftResponse,
+            confidence: Math.round(draftResponse.confidence * (0.5 + grounding.score / 2) * 100) / 100,
+          };
+        }
+      }
+
+      // Step 7: Reply to the customer directly if every auto-reply gate passes
+      const policy = this.config.autoReply;
+      const autoReplyCandidate: AutoReplyCandidate | undefined = draftResponse && policy && policy.mode !== 'off'
+        ? {
+          ticketId: ticket.id,
           category,
           sentiment: intent.sentiment,
-        })
-      );
-      logger.info(`  ✍️  Draft generated (confidence: ${Math.round(draftResponse.confidence * 100)}%)`);
-
-      // Step 7: Add draft to ticket if confidence is high enough
-      if (
-        this.config.addDraftToTicket && 
-        draftResponse.confidence >= (this.config.minConfidenceForDraft || 0.6)
-      ) {
-        await this.zendesk.addDraftResponse(ticket.id, draftResponse.draft, {
+          draft: draftResponse,
+          knowledge: relevantKnowledge,
+          injectionSuspected,
+        }
+        : undefined;
+      if (autoReplyCandidate) {
+        autoReply = this.evaluateAutoReply(autoReplyCandidate, options.shadowAutoReply ? 'shadow' : policy!.mode);
+      }
+
+      // Step 8: Otherwise add draft to ticket if confidence is high enough. A
+      // weakly grounded draft is still shown (with a warning) on the model's own
+      // confidence, so agents can see what it got wrong.
+      const warnings: string[] = [];
+      if (injectionSuspected) {
+        warnings.push('The customer\'s message looks like an attempt to instruct the AI. Check this draft carefully before using it.');
+      }
+      if (weaklyGrounded) {
+        warnings.push(`Only ${Math.round(grounding!.score * 100)}% of this draft is backed by the knowledge base. Unsupported: ${
+          grounding!.unsupportedClaims.map(c => `"${c}"`).join('; ')}`);
+      }
+      const cited = grounding?.citations.filter(c => c.id) || [];
+      const draftNote = draftResponse &&
+        this.config.addDraftToTicket &&
+        modelConfidence >= (this.config.minConfidenceForDraft || 0.6)
+        ? formatDraftNote(draftResponse.draft, {
           category,
           confidence: draftResponse.confidence,
-          sources: relevantKnowledge.slice(0, 3).map(k => k.title || k.id),
+          sources: cited.length > 0
+            ? cited.map(c => `[${c.marker}] ${c.title || c.id}${c.url ? ` (${c.url})` : ''}`)
+            : relevantKnowledge.slice(0, 3).map(k => k.title || k.id),
+          warnings: warnings.length > 0 ? warnings : undefined,
+        })
+        : undefined;
+      // Budget thresholds crossed during this run share the internal note. A
+      // public reply leaves no room for one; they stay queued for the tenant's next ticket.
+      const budgetNote = autoReply?.action === 'sent' ? undefined : this.budgetNote(tenant);
+      const note = [draftNote, budgetNote].filter(Boolean).join('\n\n') || undefined;
+      if (autoReply?.action === 'sent') {
+        mergeUpdate(update, {
+          comment: { body: GroundingVerifier.linkCitations(draftResponse!.draft, relevantKnowledge), public: true },
+          additional_tags: [policy!.tag],
         });
-        logger.info(`  📝 Draft added to ticket`);
+      } else if (note) {
+        mergeUpdate(update, { comment: { body: note, public: false } });
       }
 
-      // Step 8: Set priority based on urgency
-      if (intent.urgency === 'critical' || intent.urgency === 'high') {
-        const priority = intent.urgency === 'critical' ? 'urgent' : 'high';
-        this.zendesk.setPriority(ticket.id, priority).catch(e =>
-          logger.warn('Failed to set priority', { ticketId: ticket.id, error: e.message })
-        );
+      // Step 9: Apply routing rules, or just set priority based on urgency. A
+      // flagged ticket's analysis may have been steered by its text, so it is
+      // left where it is for an agent to route.
+      if (injectionSuspected) {
+        logger.info('  🧭 Routing skipped: possible prompt injection');
+      } else if (this.config.rulesEngine) {
+        const routing = this.route(ticket, category, intent);
+        matchedRules = routing.matched;
+        mergeUpdate(update, routing.update);
+      } else {
+        mergeUpdate(update, { priority: priorityFor(intent.urgency) });
+      }
+
+      // Step 10: Write every change to Zendesk at once
+      try {
+        await this.step('updateTicket', async () => this.writeUpdate(ticket, update, autoReply, note));
+      } finally {
+        if (autoReplyCandidate && autoReply) {
+          await policy!.audit(autoReplyCandidate, autoReply);
+        }
       }
 
     } catch (e) {
       error = e instanceof Error ? e.message : 'Unknown processing error';
+      errorCode = e instanceof AppError ? e.code : undefined;
+      if (errorCode === 'BUDGET_EXCEEDED') {
+        budgetAction = 'pause';
+        const retryAt = (e as AppError).retryAt;
+        resumeAt = retryAt ? new Date(retryAt).toISOString() : undefined;
+      }
       logger.error(`Failed to process ticket #${ticket.id}`, { error });
     }
 
+    // A failed run sends no update, so budget warnings it crossed get their own note
+    const budgetNote = error ? this.budgetNote(tenant) : undefined;
+    if (budgetNote) {
+      await this.zendesk.addInternalNote(ticket.id, budgetNote).catch(e =>
+        logger.warn('Failed to add budget note', { ticketId: ticket.id, error: e.message })
+      );
+    }
+
     const processingTimeMs = Date.now() - startTime;
     logger.info(`✅ Ticket #${ticket.id} processed in ${processingTimeMs}ms`);
 
     return {
       ticketId: ticket.id,
       category,
+      categoryConfidence,
       intent,
+      language,
       relevantKnowledge,
       draftResponse,
       processingTimeMs,
       error,
+      errorCode,
+      budgetAction,
+      resumeAt,
+      autoReply,
+      matchedRules,
+      injection,
+      grounding,
+    };
+  }
+
+  /**
+   * Categorize the ticket and extract intent, urgency and sentiment: one
+   * analyzeTicket call with combinedAnalysis, otherwise categorize + extractIntent
+   */
+  private async analyze(
+    ticket: TicketInput,
+    conversation: Conversation | null
+  ): Promise<{ category: TicketCategory; categoryConfidence: number; intent: IntentAnalysis; language?: string }> {
+    let category: TicketCategory;
+    let categoryConfidence: number;
+    let intent: IntentAnalysis;
+    let language: string | undefined;
+
+    if (this.config.combinedAnalysis) {
+      const analysis = await this.step('analyzeTicket', async () =>
+        this.llm.analyzeTicket({
+          subject: ticket.subject,
+          description: ticket.description,
+          tags: ticket.tags,
+          latestMessage: conversation?.latestMessage,
+          threadSummary: conversation?.threadSummary,
+        })
+      );
+      ({ category, categoryConfidence, language, ...intent } = analysis);
+      logger.info(`  📁 Category: ${category} (${Math.round(categoryConfidence * 100)}%) | Language: ${language}`);
+    } else {
+      ({ category, confidence: categoryConfidence } = await this.step('categorize', async () =>
+        this.llm.categorize({
+          subject: ticket.subject,
+          description: ticket.description,
+          tags: ticket.tags,
+        })
+      ));
+      logger.info(`  📁 Category: ${category} (${Math.round(categoryConfidence * 100)}%)`);
+
+      intent = await this.step('extractIntent', async () =>
+        conversation
+          ? this.llm.extractIntent(conversation.latestMessage, { threadSummary: conversation.threadSummary })
+          : this.llm.extractIntent(ticket.description)
+      );
+    }
+    logger.info(`  🎯 Intent: ${intent.intent} | Urgency: ${intent.urgency} | Sentiment: ${intent.sentiment}`);
+
+    return { category, categoryConfidence, intent, language };
+  }
+
+  /**
+   * Categorize a ticket without retrieving knowledge, drafting or writing to Zendesk
+   */
+  private async runDryRun(ticket: TicketInput): Promise<ProcessingResult> {
+    const startTime = Date.now();
+    logger.info(`🧪 Dry run for ticket #${ticket.id}`, { subject: ticket.subject });
+
+    const result: ProcessingResult = {
+      ticketId: ticket.id,
+      category: this.taxonomy.fallback,
+      intent: unknownIntent(),
+      relevantKnowledge: [],
+      draftResponse: null,
+      processingTimeMs: 0,
+      dryRun: true,
+    };
+
+    try {
+      const conversation = this.config.useConversation
+        ? await this.step('loadConversation', async () => this.loadConversation(ticket))
+        : null;
+      Object.assign(result, await this.analyze(ticket, conversation));
+    } catch (e) {
+      result.error = e instanceof Error ? e.message : 'Unknown processing error';
+      result.errorCode = e instanceof AppError ? e.code : undefined;
+      logger.error(`Failed to analyze ticket #${ticket.id}`, { error: result.error });
+    }
+
+    result.processingTimeMs = Date.now() - startTime;
+    return result;
+  }
+
+  /**
+   * Evaluate the routing rules. Priority falls back to the urgency mapping
+   * when no rule sets it.
+   */
+  private route(
+    ticket: TicketInput,
+    category: TicketCategory,
+    intent: IntentAnalysis
+  ): { matched: string[]; update: TicketUpdate } {
+    const { matched, actions } = this.config.rulesEngine!.evaluate({
+      category,
+      urgency: intent.urgency,
+      sentiment: intent.sentiment,
+      keyEntities: intent.keyEntities,
+      requesterEmail: ticket.requester?.email,
+      tags: ticket.tags || [],
+    });
+    if (matched.length > 0) {
+      logger.info(`  🧭 Routing rules matched: ${matched.join(', ')}`);
+    }
+
+    return { matched, update: RulesEngine.toUpdate({ priority: priorityFor(intent.urgency), ...actions }) };
+  }
+
+  /**
+   * Evaluate the auto-reply gates for a draft. In live mode a draft that passes
+   * is marked sent; it goes out with the ticket update.
+   */
+  private evaluateAutoReply(candidate: AutoReplyCandidate, mode: AutoReplyMode): AutoReplyOutcome {
+    const reasons = this.config.autoReply!.evaluate(candidate);
+    let action: AutoReplyAction;
+
+    if (reasons.length > 0) {
+      action = 'blocked';
+      logger.info(`  🚦 Auto-reply blocked: ${reasons.join('; ')}`);
+    } else if (mode === 'shadow') {
+      action = 'shadow';
+      logger.info(`  👻 Auto-reply (shadow): would have sent the draft`, {
+        ticketId: candidate.ticketId,
+        draft: candidate.draft.draft,
+      });
+    } else {
+      action = 'sent';
+    }
+
+    return { mode, action, reasons };
+  }
+
+  /**
+   * Send the collected changes as one safe update. If an auto-reply can't be
+   * posted, its outcome is marked failed and the update is retried with the
+   * draft as an internal note instead.
+   */
+  private async writeUpdate(
+    ticket: TicketInput,
+    update: TicketUpdate,
+    autoReply: AutoReplyOutcome | undefined,
+    draftNote: string | undefined
+  ): Promise<void> {
+    if (Object.keys(update).length === 0) return;
+
+    try {
+      await this.zendesk.safeUpdateTicket(ticket.id, update, ticket.updatedAt);
+    } catch (e) {
+      if (autoReply?.action !== 'sent') throw e;
+
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      logger.warn('Auto-reply failed, adding the draft as a note instead', { ticketId: ticket.id, error: message });
+      autoReply.action = 'failed';
+      autoReply.reasons.push(message);
+
+      const fallback: TicketUpdate = {
+        ...update,
+        comment: draftNote ? { body: draftNote, public: false } : undefined,
+        additional_tags: update.additional_tags?.filter(t => t !== this.config.autoReply!.tag),
+      };
+      await this.zendesk.safeUpdateTicket(ticket.id, stripEmpty(fallback), ticket.updatedAt);
+    }
+
+    if (autoReply?.action === 'sent') {
+      logger.info(`  📨 Auto-reply sent`);
+    } else if (draftNote) {
+      logger.info(`  📝 Draft added to ticket`);
+    }
+  }
+
+  /**
+   * Note listing the budget thresholds the tenant crossed since the last one
+   */
+  private budgetNote(tenant: string): string | undefined {
+    const warnings = this.config.budgetGuard?.takeWarnings(tenant) || [];
+    if (warnings.length === 0) return undefined;
+    return `⚠️ **AI Budget Warning**\n\n${warnings.map(w => `• ${w}`).join('\n')}`;
+  }
+
+  /**
+   * Load the public comment thread. Returns null when there is nothing beyond the
+   * original description, or when the comments can't be fetched (the pipeline
+   * then falls back to the description alone).
+   */
+  private async loadConversation(ticket: TicketInput): Promise<Conversation | null> {
+    let comments;
+    try {
+      comments = (await this.zendesk.getComments(ticket.id)).filter(c => c.public && c.body?.trim());
+    } catch (e) {
+      logger.warn('Failed to load ticket comments, using description only', {
+        ticketId: ticket.id,
+        error: e instanceof Error ? e.message : 'Unknown error',
+      });
+      return null;
+    }
+
+    if (comments.length <= 1) return null;
+
+    // The first comment is the description, written by the requester
+    const requesterId = ticket.requester?.id ?? comments[0].author_id;
+    const fromCustomer = comments.filter(c => c.author_id === requesterId);
+    const latest = fromCustomer[fromCustomer.length - 1] || comments[0];
+
+    const earlier = comments
+      .filter(c => c !== latest)
+      .map(c => `${c.author_id === requesterId ? 'Customer' : 'Agent'}: ${c.body.trim()}`);
+
+    const summarized = comments.length > (this.config.summarizeThreadAfter || 4);
+    const threadSummary = summarized
+      ? await this.llm.summarizeThread(earlier)
+      : earlier.join('\n\n');
+
+    return {
+      latestMessage: latest.body.trim(),
+      threadSummary,
+      messageCount: comments.length,
+      summarized,
     };
   }
 
   /**
    * Process multiple tickets in parallel
    */
-  async processBatch(tickets: TicketInput[], concurrency = 5): Promise<ProcessingResult[]> {
+  async processBatch(tickets: TicketInput[], concurrency = 5, options: ProcessOptions = {}): Promise<ProcessingResult[]> {
     const results: ProcessingResult[] = [];
     
     for (let i = 0; i < tickets.length; i += concurrency) {
       const batch = tickets.slice(i, i + concurrency);
       const batchResults = await Promise.all(
-        batch.map(ticket => this.process(ticket))
+        batch.map(ticket => this.process(ticket, options))
       );
       results.push(...batchResults);
     }
@@ -184,10 +655,10 @@ export class TicketProcessor {
    */
   private generateTags(category: TicketCategory, intent: IntentAnalysis): string[] {
     const tags: string[] = [
-      `ai_category:${category}`,
+      `ai_category:${category.split(CATEGORY_SEPARATOR).join('__')}`,
       `ai_urgency:${intent.urgency}`,
       `ai_sentiment:${intent.sentiment}`,
-      'ai_processed',
+      PROCESSED_TAG,
     ];
 
     // Add entity tags (sanitized)
@@ -206,11 +677,62 @@ export class TicketProcessor {
    */
   async reprocess(ticketId: number): Promise<ProcessingResult> {
     const ticket = await this.zendesk.getTicket(ticketId);
-    return this.process({
-      id: ticket.id,
-      subject: ticket.subject,
-      description: ticket.description || '',
-      tags: ticket.tags,
-    });
+    return this.process(ticketInputFrom(ticket), { force: true });
   }
 }
+
+/**
+ * Pipeline input for a ticket fetched from the API (which, unlike the webhook
+ * payload, only has the requester's ID)
+ */
+export function ticketInputFrom(ticket: ZendeskTicket): TicketInput {
+  return {
+    id: ticket.id,
+    subject: ticket.subject,
+    description: ticket.description || '',
+    requester: { id: ticket.requester_id, name: 'Customer', email: '' },
+    tags: ticket.tags,
+    updatedAt: ticket.updated_at,
+    brandId: ticket.brand_id,
+  };
+}
+
+/**
+ * Add changes to a pending update. Tags are combined; fields already set,
+ * including custom fields with the same ID, are kept.
+ */
+function mergeUpdate(update: TicketUpdate, changes: TicketUpdate): void {
+  for (const [key, value] of Object.entries(stripEmpty(changes)) as Array<[keyof TicketUpdate, never]>) {
+    if (key === 'additional_tags') {
+      update.additional_tags = [...new Set([...(update.additional_tags || []), ...(value as string[])])];
+    } else if (key === 'custom_fields') {
+      const existing = update.custom_fields || [];
+      const added = (value as NonNullable<TicketUpdate['custom_fields']>).filter(f => !existing.some(e => e.id === f.id));
+      update.custom_fields = [...existing, ...added];
+    } else if (update[key] === undefined) {
+      update[key] = value;
+    }
+  }
+}
+
+function stripEmpty(update: TicketUpdate): TicketUpdate {
+  return Object.fromEntries(
+    Object.entries(update).filter(([, v]) => v !== undefined && !(Array.isArray(v) && v.length === 0))
+  ) as TicketUpdate;
+}
+
+/**
+ * Zendesk priority for high and critical urgency; others keep the ticket's priority
+ */
+function priorityFor(urgency: IntentAnalysis['urgency']): ZendeskPriority | undefined {
+  if (urgency === 'critical') return 'urgent';
+  if (urgency === 'high') return 'high';
+  return undefined;
+}
+
+/**
+ * Budget tenant of a ticket: its Zendesk brand
+ */
+function tenantOf(ticket: TicketInput): string {
+  return ticket.brandId ? String(ticket.brandId) : DEFAULT_TENANT;
+}
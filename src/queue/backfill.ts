@@ -0,0 +1,274 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { ZendeskClient } from '../zendesk/client';
+import { TicketProcessor, PROCESSED_TAG, ticketInputFrom } from '../processor';
+import { ProcessingResult } from '../types';
+import { logger } from '../utils/logger';
+import { writeJsonAtomic } from '../utils/files';
+import { Errors } from '../middleware/errorHandler';
+
+const MAX_ERRORS = 100;
+
+interface BackfillConfig {
+  statePath?: string;        // Persist progress here (in-memory if omitted)
+  concurrency?: number;      // Default tickets processed at once
+}
+
+export interface BackfillOptions {
+  query: string;             // Zendesk search query, e.g. "status:open created>2024-01-01"
+  dryRun?: boolean;          // Only categorize; nothing is written to Zendesk
+  concurrency?: number;
+  limit?: number;            // Stop after this many unprocessed tickets
+}
+
+export type BackfillStatus = 'collecting' | 'running' | 'completed' | 'cancelled' | 'interrupted' | 'failed';
+
+interface BackfillState {
+  id: string;
+  query: string;
+  dryRun: boolean;
+  concurrency: number;
+  status: BackfillStatus;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  found: number;                        // Search results
+  alreadyProcessed: number;             // Skipped: already tagged ai_processed
+  processed: number;
+  failed: number;
+  categories: Record<string, number>;   // Category -> tickets
+  errors: Array<{ ticketId: number; error: string }>;
+  pending: number[];                    // Ids not yet processed, in search order
+  error?: string;                       // Why the run failed
+}
+
+export type BackfillReport = Omit<BackfillState, 'pending'> & { remaining: number; running: boolean };
+
+/**
+ * Runs a Zendesk search's existing tickets through the processor. The ids of
+ * every result are collected up front (processing adds ai_processed, which would
+ * shift later pages), tickets that already have the tag are skipped, and the
+ * rest are re-fetched and processed in batches. Auto-replies are never sent to
+ * these old tickets: a live policy runs in shadow mode. Progress, which holds
+ * only ticket ids, is saved after each batch so an interrupted or cancelled run
+ * can be resumed where it stopped.
+ */
+export class Backfill {
+  private zendesk: ZendeskClient;
+  private processor: TicketProcessor;
+  private config: BackfillConfig;
+  private state?: BackfillState;
+  private running = false;
+  private cancelRequested = false;
+
+  constructor(zendesk: ZendeskClient, processor: TicketProcessor, config: BackfillConfig = {}) {
+    this.zendesk = zendesk;
+    this.processor = processor;
+    this.config = config;
+    this.load();
+  }
+
+  /**
+   * Start a new backfill, replacing any previous one
+   */
+  async run(options: BackfillOptions): Promise<BackfillReport> {
+    if (this.running) {
+      throw Errors.conflict('Backfill already in progress');
+    }
+
+    const now = new Date().toISOString();
+    const state: BackfillState = {
+      id: crypto.randomUUID(),
+      query: options.query,
+      dryRun: !!options.dryRun,
+      concurrency: options.concurrency || this.config.concurrency || 3,
+      status: 'collecting',
+      startedAt: now,
+      updatedAt: now,
+      found: 0,
+      alreadyProcessed: 0,
+      processed: 0,
+      failed: 0,
+      categories: {},
+      errors: [],
+      pending: [],
+    };
+    this.state = state;
+    this.running = true;
+    this.cancelRequested = false;
+    logger.info('Backfill started', { query: state.query, dryRun: state.dryRun });
+
+    try {
+      state.pending = await this.collect(state, options.limit);
+      this.persist();
+    } catch (error) {
+      this.running = false;
+      this.finish(state, 'failed', error);
+      throw error;
+    }
+
+    return this.processPending(state);
+  }
+
+  /**
+   * Continue an interrupted, cancelled or failed backfill
+   */
+  async resume(): Promise<BackfillReport> {
+    if (this.running) {
+      throw Errors.conflict('Backfill already in progress');
+    }
+    const state = this.state;
+    if (!state || state.pending.length === 0) {
+      throw Errors.badRequest('No backfill to resume');
+    }
+
+    this.running = true;
+    this.cancelRequested = false;
+    delete state.finishedAt;
+    delete state.error;
+    logger.info('Backfill resumed', { id: state.id, remaining: state.pending.length });
+
+    return this.processPending(state);
+  }
+
+  /**
+   * Stop the running backfill after its current batch. False if none is running.
+   */
+  cancel(): boolean {
+    if (!this.running) return false;
+    this.cancelRequested = true;
+    return true;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Progress of the current or last backfill, if any
+   */
+  status(): BackfillReport | undefined {
+    if (!this.state) return undefined;
+
+    const { pending, ...state } = this.state;
+    return { ...state, errors: [...state.errors], categories: { ...state.categories }, remaining: pending.length, running: this.running };
+  }
+
+  /**
+   * Export every search result, keeping the ids of tickets not yet processed
+   */
+  private async collect(state: BackfillState, limit?: number): Promise<number[]> {
+    const pending: number[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.zendesk.exportTickets(state.query, cursor);
+      for (const ticket of page.tickets) {
+        state.found++;
+        if (ticket.tags?.includes(PROCESSED_TAG)) {
+          state.alreadyProcessed++;
+        } else {
+          pending.push(ticket.id);
+        }
+      }
+      cursor = page.cursor;
+    } while (cursor && !(limit && pending.length >= limit) && !this.cancelRequested);
+
+    logger.info('Backfill collected tickets', { found: state.found, alreadyProcessed: state.alreadyProcessed, pending: pending.length });
+    return limit ? pending.slice(0, limit) : pending;
+  }
+
+  private async processPending(state: BackfillState): Promise<BackfillReport> {
+    state.status = 'running';
+    this.persist();
+
+    try {
+      while (state.pending.length > 0 && !this.cancelRequested) {
+        const batch = state.pending.slice(0, state.concurrency);
+        const results = await this.processBatch(state, batch);
+
+        for (const result of results) {
+          if (result.error) {
+            state.failed++;
+            if (state.errors.length < MAX_ERRORS) {
+              state.errors.push({ ticketId: result.ticketId, error: result.error });
+            }
+          } else {
+            state.processed++;
+            state.categories[result.category] = (state.categories[result.category] || 0) + 1;
+          }
+        }
+        state.pending = state.pending.slice(batch.length);
+        state.updatedAt = new Date().toISOString();
+        this.persist();
+      }
+    } catch (error) {
+      this.running = false;
+      this.finish(state, 'failed', error);
+      throw error;
+    }
+
+    this.running = false;
+    this.finish(state, state.pending.length > 0 ? 'cancelled' : 'completed');
+    return this.status()!;
+  }
+
+  /**
+   * Fetch a batch of tickets as they are now and process them. Tickets
+   * processed since they were collected are skipped; deleted ones fail.
+   */
+  private async processBatch(state: BackfillState, ids: number[]): Promise<Array<Pick<ProcessingResult, 'ticketId' | 'category' | 'error'>>> {
+    const tickets = new Map((await this.zendesk.getTickets(ids)).map(t => [t.id, t]));
+    const missing = ids.filter(id => !tickets.has(id)).map(ticketId => ({ ticketId, category: '', error: 'Ticket not found' }));
+
+    const unprocessed = ids.flatMap(id => {
+      const ticket = tickets.get(id);
+      if (!ticket) return [];
+      if (ticket.tags?.includes(PROCESSED_TAG)) {
+        state.alreadyProcessed++;
+        return [];
+      }
+      return [ticketInputFrom(ticket)];
+    });
+    const results = await this.processor.processBatch(unprocessed, state.concurrency, { dryRun: state.dryRun, shadowAutoReply: true });
+
+    return [...missing, ...results];
+  }
+
+  private finish(state: BackfillState, status: BackfillStatus, error?: unknown): void {
+    state.status = status;
+    state.finishedAt = state.updatedAt = new Date().toISOString();
+    if (error) {
+      state.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+    this.persist();
+
+    logger[error ? 'error' : 'info'](`Backfill ${status}`, {
+      id: state.id,
+      processed: state.processed,
+      failed: state.failed,
+      remaining: state.pending.length,
+      error: state.error,
+    });
+  }
+
+  private load(): void {
+    if (!this.config.statePath || !fs.existsSync(this.config.statePath)) return;
+
+    try {
+      this.state = JSON.parse(fs.readFileSync(this.config.statePath, 'utf-8')) as BackfillState;
+      // The process stopped mid-run
+      if (this.state.status === 'collecting' || this.state.status === 'running') {
+        this.state.status = 'interrupted';
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to load backfill state', { file: this.config.statePath, error: message });
+    }
+  }
+
+  private persist(): void {
+    if (!this.config.statePath || !this.state) return;
+    writeJsonAtomic(this.config.statePath, this.state, 'backfill state');
+  }
+}
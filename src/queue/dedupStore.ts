@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+
+export interface DedupKeyInput {
+  id: number;
+  subject: string;
+  description: string;
+  tags?: string[];
+  updatedAt?: string;
+}
+
+interface DedupEntry<R> {
+  result: R;
+  expiresAt: number;
+}
+
+/**
+ * TTL cache of processing results keyed on ticket id + update timestamp (or content hash).
+ * Zendesk retries webhooks and triggers can fire twice for the same update - duplicates
+ * get the cached result instead of another round of LLM calls and Zendesk writes.
+ */
+export class DedupStore<R = unknown> {
+  private entries = new Map<string, DedupEntry<R>>();
+  private inFlight = new Map<string, Promise<R>>();
+  private ttlMs: number;
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor(options: { ttlMs?: number } = {}) {
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+
+    // Cleanup expired entries periodically
+    this.cleanupTimer = setInterval(() => this.cleanup(), 60 * 1000);
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Build the dedup key for a ticket delivery.
+   * Prefers Zendesk's updated_at; falls back to a hash of the ticket content.
+   */
+  static keyFor(ticket: DedupKeyInput): string {
+    if (ticket.updatedAt) {
+      return `${ticket.id}:${ticket.updatedAt}`;
+    }
+
+    const hash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify([ticket.subject, ticket.description, [...(ticket.tags || [])].sort()]))
+      .digest('hex')
+      .substring(0, 16);
+    return `${ticket.id}:${hash}`;
+  }
+
+  /**
+   * Get a cached result if it hasn't expired
+   */
+  get(key: string): R | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.result;
+  }
+
+  /**
+   * Whether a result is cached or currently being produced for this key
+   */
+  has(key: string): boolean {
+    return this.inFlight.has(key) || this.get(key) !== undefined;
+  }
+
+  set(key: string, result: R): void {
+    this.entries.set(key, { result, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Run fn once per key. Concurrent callers share the in-flight promise and later
+   * callers get the cached result. Results rejected by shouldCache are neither
+   * stored nor shared: a caller that waited on a failed run runs fn itself.
+   */
+  async run(
+    key: string,
+    fn: () => Promise<R>,
+    shouldCache: (result: R) => boolean = () => true
+  ): Promise<{ result: R; duplicate: boolean }> {
+    const cached = this.get(key);
+    if (cached !== undefined) {
+      logger.info(`Duplicate delivery ${key}, returning cached result`);
+      return { result: cached, duplicate: true };
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      logger.info(`Duplicate delivery ${key}, waiting for in-flight processing`);
+      const shared = await pending.then(result => (shouldCache(result) ? result : undefined), () => undefined);
+      if (shared !== undefined) return { result: shared, duplicate: true };
+      return this.run(key, fn, shouldCache);
+    }
+
+    const promise = fn();
+    this.inFlight.set(key, promise);
+
+    try {
+      const result = await promise;
+      if (shouldCache(result)) {
+        this.set(key, result);
+      }
+      return { result, duplicate: false };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (now > entry.expiresAt) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
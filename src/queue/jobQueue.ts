@@ -0,0 +1,338 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { writeJsonAtomic } from '../utils/files';
+import { AppError, Errors } from '../middleware/errorHandler';
+
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'dead';
+
+export interface Job<T = unknown, R = unknown> {
+  id: string;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: number;
+  createdAt: string;
+  updatedAt: string;
+  lastError?: string;
+  lastErrorCode?: string;
+  result?: R;
+  retried?: boolean;         // Requeued by retry(): redo the work rather than reuse an earlier result
+}
+
+export interface JobQueueConfig {
+  filePath?: string;         // Persist jobs to this JSON file (in-memory if omitted)
+  concurrency?: number;      // Number of jobs processed in parallel
+  maxAttempts?: number;      // Attempts before a job is moved to the dead-letter list
+  baseBackoffMs?: number;    // First retry delay, doubled on each attempt
+  maxBackoffMs?: number;     // Upper bound for retry delay
+  pollIntervalMs?: number;   // How often to check for jobs whose backoff has elapsed
+  completedTtlMs?: number;   // Completed jobs are removed this long after finishing (0 keeps them)
+}
+
+export type JobHandler<T, R> = (payload: T, job: Job<T, R>) => Promise<R>;
+
+/**
+ * Error codes worth retrying - transient upstream failures
+ */
+export const RETRYABLE_ERROR_CODES = ['LLM_ERROR', 'ZENDESK_ERROR', 'RATE_LIMIT'];
+
+/**
+ * Error codes that put a job on hold without using up an attempt - it is run
+ * again at the error's retryAt (or after the maximum backoff)
+ */
+export const DEFERRED_ERROR_CODES = ['BUDGET_EXCEEDED'];
+
+/**
+ * Durable job queue with worker concurrency, exponential backoff and a dead-letter list.
+ * Jobs are persisted to a JSON file so in-flight work survives a restart.
+ */
+export class JobQueue<T = unknown, R = unknown> {
+  private jobs = new Map<string, Job<T, R>>();
+  private handler: JobHandler<T, R>;
+  private config: Required<Omit<JobQueueConfig, 'filePath'>> & { filePath?: string };
+  private active = 0;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(handler: JobHandler<T, R>, config: JobQueueConfig = {}) {
+    this.handler = handler;
+    this.config = {
+      concurrency: 2,
+      maxAttempts: 5,
+      baseBackoffMs: 1000,
+      maxBackoffMs: 5 * 60 * 1000,
+      pollIntervalMs: 1000,
+      completedTtlMs: 24 * 60 * 60 * 1000,
+      ...config,
+    };
+
+    this.load();
+  }
+
+  /**
+   * Start processing jobs
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.timer = setInterval(() => this.pump(), this.config.pollIntervalMs);
+    this.timer.unref();
+    logger.info('Job queue started', {
+      concurrency: this.config.concurrency,
+      pending: this.list('pending').length,
+    });
+    this.pump();
+  }
+
+  /**
+   * Stop picking up new jobs and wait for active ones to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) clearInterval(this.timer);
+    await this.onIdle();
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  enqueue(payload: T, options: { maxAttempts?: number } = {}): Job<T, R> {
+    const now = new Date().toISOString();
+    const job: Job<T, R> = {
+      id: crypto.randomUUID(),
+      payload,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? this.config.maxAttempts,
+      nextRunAt: Date.now(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(job.id, job);
+    this.persist();
+    logger.debug(`Job ${job.id} enqueued`);
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  get(id: string): Job<T, R> | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * List jobs, optionally filtered by status (oldest first)
+   */
+  list(status?: JobStatus): Job<T, R>[] {
+    return [...this.jobs.values()]
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Jobs that exhausted their attempts or failed with a non-retryable error
+   */
+  deadLetters(): Job<T, R>[] {
+    return this.list('dead');
+  }
+
+  /**
+   * Count jobs by status
+   */
+  stats(): Record<JobStatus, number> & { active: number } {
+    const counts = { pending: 0, processing: 0, completed: 0, dead: 0 };
+    for (const job of this.jobs.values()) {
+      counts[job.status]++;
+    }
+    return { ...counts, active: this.active };
+  }
+
+  /**
+   * Move a dead or completed job back to pending with a fresh attempt budget.
+   * Throws CONFLICT for a job that is still pending or processing.
+   */
+  retry(id: string): Job<T, R> | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    if (job.status === 'processing' || job.status === 'pending') {
+      throw Errors.conflict(`Job is already ${job.status}`);
+    }
+
+    job.status = 'pending';
+    job.attempts = 0;
+    job.retried = true;
+    job.nextRunAt = Date.now();
+    job.updatedAt = new Date().toISOString();
+    this.persist();
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Remove jobs in the given status (completed and dead by default).
+   * Jobs that are pending or processing are never purged.
+   */
+  purge(status?: 'completed' | 'dead'): number {
+    const statuses: JobStatus[] = status ? [status] : ['completed', 'dead'];
+    let removed = 0;
+
+    for (const [id, job] of this.jobs.entries()) {
+      if (statuses.includes(job.status)) {
+        this.jobs.delete(id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) this.persist();
+    return removed;
+  }
+
+  /**
+   * Resolve once no jobs are being processed
+   */
+  onIdle(): Promise<void> {
+    if (this.active === 0) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Start as many ready jobs as concurrency allows
+   */
+  private pump(): void {
+    if (!this.running) return;
+    this.expire();
+
+    const now = Date.now();
+    const ready = this.list('pending').filter(job => job.nextRunAt <= now);
+
+    while (this.active < this.config.concurrency && ready.length > 0) {
+      const job = ready.shift()!;
+      this.run(job);
+    }
+  }
+
+  private async run(job: Job<T, R>): Promise<void> {
+    this.active++;
+    job.status = 'processing';
+    job.attempts++;
+    job.updatedAt = new Date().toISOString();
+    this.persist();
+
+    try {
+      job.result = await this.handler(job.payload, job);
+      job.status = 'completed';
+      job.lastError = undefined;
+      job.lastErrorCode = undefined;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = error instanceof AppError ? error.code : undefined;
+      job.lastError = message;
+      job.lastErrorCode = code;
+
+      if (error instanceof AppError && error.code && DEFERRED_ERROR_CODES.includes(error.code)) {
+        job.attempts--;
+        job.status = 'pending';
+        job.nextRunAt = error.retryAt ?? Date.now() + this.config.maxBackoffMs;
+        logger.warn(`Job ${job.id} deferred until ${new Date(job.nextRunAt).toISOString()}`, { code, error: message });
+      } else if (this.isRetryable(error) && job.attempts < job.maxAttempts) {
+        const delay = this.backoff(job.attempts);
+        job.status = 'pending';
+        job.nextRunAt = Date.now() + delay;
+        logger.warn(`Job ${job.id} failed, retrying in ${delay}ms`, {
+          attempt: job.attempts,
+          code,
+          error: message,
+        });
+      } else {
+        job.status = 'dead';
+        logger.error(`Job ${job.id} moved to dead-letter list`, {
+          attempts: job.attempts,
+          code,
+          error: message,
+        });
+      }
+    } finally {
+      job.updatedAt = new Date().toISOString();
+      this.active--;
+      this.persist();
+
+      if (this.active === 0) {
+        this.idleWaiters.splice(0).forEach(resolve => resolve());
+      }
+      this.pump();
+    }
+  }
+
+  /**
+   * Drop completed jobs older than completedTtlMs, so the file (rewritten on
+   * every change) doesn't grow forever. Dead jobs are kept for inspection.
+   */
+  private expire(): void {
+    if (!this.config.completedTtlMs) return;
+
+    const cutoff = new Date(Date.now() - this.config.completedTtlMs).toISOString();
+    let removed = 0;
+    for (const [id, job] of this.jobs.entries()) {
+      if (job.status === 'completed' && job.updatedAt < cutoff) {
+        this.jobs.delete(id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.persist();
+      logger.debug(`Removed ${removed} expired completed jobs`);
+    }
+  }
+
+  private isRetryable(error: unknown): boolean {
+    return error instanceof AppError && !!error.code && RETRYABLE_ERROR_CODES.includes(error.code);
+  }
+
+  /**
+   * Exponential backoff with a little jitter
+   */
+  private backoff(attempt: number): number {
+    const delay = Math.min(
+      this.config.baseBackoffMs * 2 ** (attempt - 1),
+      this.config.maxBackoffMs
+    );
+    return Math.round(delay * (0.9 + Math.random() * 0.2));
+  }
+
+  /**
+   * Load persisted jobs. Jobs interrupted mid-processing are requeued.
+   */
+  private load(): void {
+    if (!this.config.filePath || !fs.existsSync(this.config.filePath)) return;
+
+    try {
+      const jobs = JSON.parse(fs.readFileSync(this.config.filePath, 'utf-8')) as Job<T, R>[];
+      for (const job of jobs) {
+        if (job.status === 'processing') {
+          job.status = 'pending';
+          job.nextRunAt = Date.now();
+        }
+        this.jobs.set(job.id, job);
+      }
+      logger.info(`Loaded ${jobs.length} jobs from ${this.config.filePath}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to load job queue file', { file: this.config.filePath, error: message });
+    }
+  }
+
+  /**
+   * Write all jobs to disk atomically (write temp file, then rename)
+   */
+  private persist(): void {
+    if (!this.config.filePath) return;
+    writeJsonAtomic(this.config.filePath, [...this.jobs.values()], 'job queue');
+  }
+}
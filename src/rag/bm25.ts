@@ -0,0 +1,237 @@
+import fs from 'fs';
+import { VectorMatch, VectorMetadata } from './vectorStore';
+import { tokenize } from './embeddings';
+import { logger } from '../utils/logger';
+import { writeJsonAtomic } from '../utils/files';
+
+interface IndexedEntry {
+  id: string;
+  parentId: string;
+  length: number;
+  termFreqs: Record<string, number>;
+  metadata: VectorMetadata;
+}
+
+interface NamespaceIndex {
+  entries: Map<string, IndexedEntry>;
+  postings: Map<string, Set<string>>;
+  totalLength: number;
+}
+
+export interface LexicalEntry {
+  id: string;
+  parentId: string;
+  text: string;              // Text to index (title + heading + chunk)
+  metadata: VectorMetadata;  // Returned with search results
+}
+
+/**
+ * In-process inverted index with BM25 scoring, kept next to the vector store so
+ * exact terms (error codes, product names) are found even when they score low
+ * semantically. Optionally persisted to a JSON file, written at most once per
+ * flushDelayMs and on exit.
+ *
+ * The index lives in this process only: run a single instance, since a second
+ * one sharing the file would neither see this one's updates nor keep its own.
+ */
+export class LexicalIndex {
+  private namespaces = new Map<string, NamespaceIndex>();
+  private filePath?: string;
+  private k1: number;
+  private b: number;
+  private flushDelayMs: number;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(config: { filePath?: string; k1?: number; b?: number; flushDelayMs?: number } = {}) {
+    this.filePath = config.filePath;
+    this.k1 = config.k1 ?? 1.2;
+    this.b = config.b ?? 0.75;
+    this.flushDelayMs = config.flushDelayMs ?? 1000;
+    this.load();
+
+    if (this.filePath) {
+      process.once('exit', () => this.flushTimer && this.flush());
+    }
+  }
+
+  /**
+   * Add or replace entries
+   */
+  add(namespace: string, entries: LexicalEntry[]): void {
+    const ns = this.getNamespace(namespace);
+
+    for (const entry of entries) {
+      this.removeEntry(ns, entry.id);
+
+      const tokens = tokenize(entry.text);
+      const termFreqs: Record<string, number> = {};
+      tokens.forEach(t => (termFreqs[t] = (termFreqs[t] || 0) + 1));
+
+      this.insertEntry(ns, {
+        id: entry.id,
+        parentId: entry.parentId,
+        length: tokens.length,
+        termFreqs,
+        metadata: entry.metadata,
+      });
+    }
+
+    this.persist();
+  }
+
+  /**
+   * Remove every entry belonging to the given parent documents
+   */
+  removeByParent(namespace: string, parentIds: string[]): void {
+    const ns = this.namespaces.get(namespace);
+    if (!ns) return;
+
+    const parents = new Set(parentIds);
+    for (const entry of [...ns.entries.values()]) {
+      if (parents.has(entry.parentId)) this.removeEntry(ns, entry.id);
+    }
+
+    this.persist();
+  }
+
+  clear(namespace: string): void {
+    this.namespaces.delete(namespace);
+    this.persist();
+  }
+
+  size(namespace: string): number {
+    return this.namespaces.get(namespace)?.entries.size || 0;
+  }
+
+  /**
+   * Score entries against the query with BM25, highest first
+   */
+  search(namespace: string, query: string, topK = 20): VectorMatch[] {
+    const ns = this.namespaces.get(namespace);
+    if (!ns || ns.entries.size === 0) return [];
+
+    const terms = [...new Set(tokenize(query))];
+    const n = ns.entries.size;
+    const avgLength = ns.totalLength / n || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const docs = ns.postings.get(term);
+      if (!docs) continue;
+
+      const idf = Math.log(1 + (n - docs.size + 0.5) / (docs.size + 0.5));
+
+      for (const id of docs) {
+        const entry = ns.entries.get(id)!;
+        const tf = entry.termFreqs[term];
+        const norm = tf * (this.k1 + 1) / (tf + this.k1 * (1 - this.b + this.b * entry.length / avgLength));
+        scores.set(id, (scores.get(id) || 0) + idf * norm);
+      }
+    }
+
+    return [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topK)
+      .map(([id, score]) => ({ id, score, metadata: ns.entries.get(id)!.metadata }));
+  }
+
+  private getNamespace(namespace: string): NamespaceIndex {
+    let ns = this.namespaces.get(namespace);
+    if (!ns) {
+      ns = { entries: new Map(), postings: new Map(), totalLength: 0 };
+      this.namespaces.set(namespace, ns);
+    }
+    return ns;
+  }
+
+  private insertEntry(ns: NamespaceIndex, entry: IndexedEntry): void {
+    ns.entries.set(entry.id, entry);
+    ns.totalLength += entry.length;
+
+    for (const term of Object.keys(entry.termFreqs)) {
+      let docs = ns.postings.get(term);
+      if (!docs) {
+        docs = new Set();
+        ns.postings.set(term, docs);
+      }
+      docs.add(entry.id);
+    }
+  }
+
+  private removeEntry(ns: NamespaceIndex, id: string): void {
+    const entry = ns.entries.get(id);
+    if (!entry) return;
+
+    ns.entries.delete(id);
+    ns.totalLength -= entry.length;
+
+    for (const term of Object.keys(entry.termFreqs)) {
+      const docs = ns.postings.get(term);
+      docs?.delete(id);
+      if (docs?.size === 0) ns.postings.delete(term);
+    }
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Record<string, IndexedEntry[]>;
+      for (const [namespace, entries] of Object.entries(data)) {
+        const ns = this.getNamespace(namespace);
+        entries.forEach(entry => this.insertEntry(ns, entry));
+      }
+      logger.info(`Loaded lexical index from ${this.filePath}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to load lexical index', { file: this.filePath, error: message });
+    }
+  }
+
+  /**
+   * Write the index to its file now rather than after the flush delay
+   */
+  flush(): void {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    if (!this.filePath) return;
+
+    const data: Record<string, IndexedEntry[]> = {};
+    for (const [namespace, ns] of this.namespaces) {
+      data[namespace] = [...ns.entries.values()];
+    }
+
+    writeJsonAtomic(this.filePath, data, 'lexical index');
+  }
+
+  /**
+   * Schedule a write, so a batch of changes costs one rewrite of the file
+   */
+  private persist(): void {
+    if (!this.filePath || this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => this.flush(), this.flushDelayMs);
+    this.flushTimer.unref();
+  }
+}
+
+/**
+ * Reciprocal rank fusion of several ranked lists of ids.
+ * score(id) = Σ weight / (k + rank), with 1-based ranks.
+ */
+export function reciprocalRankFusion(
+  rankings: Array<{ ids: string[]; weight: number }>,
+  k = 60
+): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+
+  for (const { ids, weight } of rankings) {
+    ids.forEach((id, i) => {
+      scores.set(id, (scores.get(id) || 0) + weight / (k + i + 1));
+    });
+  }
+
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
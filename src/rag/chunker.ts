@@ -0,0 +1,157 @@
+import { ChunkingOptions, KnowledgeDocument } from '../types';
+
+export interface DocumentChunk {
+  id: string;
+  parentId: string;
+  index: number;
+  text: string;
+  heading?: string;
+}
+
+const DEFAULT_OPTIONS: Required<ChunkingOptions> = {
+  strategy: 'heading',
+  maxTokens: 400,
+  overlapTokens: 50,
+};
+
+/**
+ * Separator between a document id and its chunk number.
+ * Chunk ids share the parent id as prefix so all chunks can be listed and deleted together.
+ */
+export const CHUNK_ID_SEPARATOR = '#chunk-';
+
+export function chunkId(parentId: string, index: number): string {
+  return `${parentId}${CHUNK_ID_SEPARATOR}${index}`;
+}
+
+/**
+ * Recover the parent document id from a chunk id (legacy un-chunked ids pass through)
+ */
+export function parentIdOf(id: string): string {
+  const at = id.lastIndexOf(CHUNK_ID_SEPARATOR);
+  return at === -1 ? id : id.substring(0, at);
+}
+
+/**
+ * Split a knowledge base document into chunks for embedding.
+ * - heading: one chunk per markdown section, large sections split by paragraph
+ * - paragraph: paragraphs packed together up to maxTokens
+ * - token: fixed windows of maxTokens with overlapTokens overlap
+ * Tokens are approximated by whitespace-separated words.
+ */
+export function chunkDocument(doc: KnowledgeDocument, options: ChunkingOptions = {}): DocumentChunk[] {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const content = doc.content.replace(/\r\n/g, '\n').trim();
+
+  let pieces: Array<{ text: string; heading?: string }>;
+  switch (opts.strategy) {
+    case 'token':
+      pieces = tokenWindows(content, opts.maxTokens, opts.overlapTokens).map(text => ({ text }));
+      break;
+    case 'paragraph':
+      pieces = packParagraphs(content, opts).map(text => ({ text }));
+      break;
+    case 'heading':
+    default:
+      pieces = splitSections(content).flatMap(section =>
+        packParagraphs(section.body, opts).map(text => ({ text, heading: section.heading }))
+      );
+  }
+
+  const nonEmpty = pieces.filter(p => p.text.trim());
+  if (nonEmpty.length === 0) {
+    nonEmpty.push({ text: content });
+  }
+
+  return nonEmpty.map((piece, index) => ({
+    id: chunkId(doc.id, index),
+    parentId: doc.id,
+    index,
+    text: piece.text.trim(),
+    heading: piece.heading,
+  }));
+}
+
+function countTokens(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Sliding windows of maxTokens words, each overlapping the previous by overlapTokens
+ */
+function tokenWindows(text: string, maxTokens: number, overlapTokens: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length <= maxTokens) return [words.join(' ')];
+
+  const step = Math.max(1, maxTokens - Math.min(overlapTokens, maxTokens - 1));
+  const windows: string[] = [];
+
+  for (let start = 0; start < words.length; start += step) {
+    windows.push(words.slice(start, start + maxTokens).join(' '));
+    if (start + maxTokens >= words.length) break;
+  }
+
+  return windows;
+}
+
+/**
+ * Pack consecutive paragraphs into chunks of at most maxTokens.
+ * Paragraphs larger than maxTokens fall back to token windows.
+ */
+function packParagraphs(text: string, opts: Required<ChunkingOptions>): string[] {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length) chunks.push(current.join('\n\n'));
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const paragraph of paragraphs) {
+    const tokens = countTokens(paragraph);
+
+    if (tokens > opts.maxTokens) {
+      flush();
+      chunks.push(...tokenWindows(paragraph, opts.maxTokens, opts.overlapTokens));
+      continue;
+    }
+
+    if (currentTokens + tokens > opts.maxTokens) flush();
+    current.push(paragraph);
+    currentTokens += tokens;
+  }
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Split markdown content on headings. Text before the first heading is its own section.
+ */
+function splitSections(text: string): Array<{ heading?: string; body: string }> {
+  const sections: Array<{ heading?: string; body: string }> = [];
+  let heading: string | undefined;
+  let lines: string[] = [];
+
+  const flush = () => {
+    const body = lines.join('\n').trim();
+    if (body) sections.push({ heading, body });
+    lines = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      flush();
+      heading = match[1];
+    } else {
+      lines.push(line);
+    }
+  }
+
+  flush();
+  return sections;
+}
@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import OpenAI from 'openai';
+import { Errors } from '../middleware/errorHandler';
+import { TokenUsage } from '../types';
+
+/**
+ * Turns text into vectors. The model name is stored with every indexed vector
+ * so vectors from different models are never mixed in one namespace.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const OPENAI_MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+/**
+ * OpenAI embeddings API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly dimension: number;
+  private openai: OpenAI;
+  private customDimension: boolean;
+  private onUsage?: (usage: TokenUsage) => void;
+
+  constructor(config: {
+    apiKey?: string;
+    model?: string;
+    dimension?: number;
+    onUsage?: (usage: TokenUsage) => void; // Called with the tokens of every request
+  }) {
+    this.openai = new OpenAI({ apiKey: config.apiKey || process.env.OPENAI_API_KEY });
+    this.model = config.model || 'text-embedding-3-small';
+    this.dimension = config.dimension || OPENAI_MODEL_DIMENSIONS[this.model] || 1536;
+    // text-embedding-3 models can shorten vectors natively
+    this.customDimension = !!config.dimension && this.model.startsWith('text-embedding-3');
+    this.onUsage = config.onUsage;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    // Truncate to model's max input (8191 tokens ≈ 32000 chars for safety)
+    const input = texts.map(t => (t.length > 32000 ? t.substring(0, 32000) : t));
+
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input,
+      ...(this.customDimension ? { dimensions: this.dimension } : {}),
+    });
+    this.onUsage?.({ inputTokens: response.usage?.prompt_tokens ?? 0, outputTokens: 0 });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding);
+  }
+}
+
+/**
+ * Deterministic, network-free embedder using feature hashing of unigrams and
+ * bigrams with sublinear term frequency. Far weaker than a neural model, but
+ * good enough for keyword-heavy support content, CI and air-gapped setups.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model: string;
+  readonly dimension: number;
+
+  constructor(config: { dimension?: number } = {}) {
+    this.dimension = config.dimension || 512;
+    this.model = `local-hash-${this.dimension}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const tokens = tokenize(text);
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`),
+    ];
+
+    const counts = new Map<string, number>();
+    features.forEach(f => counts.set(f, (counts.get(f) || 0) + 1));
+
+    for (const [feature, count] of counts) {
+      const hash = crypto.createHash('md5').update(feature).digest();
+      const bucket = hash.readUInt32LE(0) % this.dimension;
+      const sign = hash[4] & 1 ? 1 : -1; // Signed hashing reduces collision bias
+      vector[bucket] += sign * (1 + Math.log(count));
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Test double: deterministic pseudo-random vectors derived from the text hash,
+ * with optional fixed vectors per text. Records every call.
+ */
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'fake';
+  readonly model: string;
+  readonly dimension: number;
+  readonly calls: string[][] = [];
+  private fixed: Map<string, number[]>;
+
+  constructor(config: { model?: string; dimension?: number; vectors?: Record<string, number[]> } = {}) {
+    this.dimension = config.dimension || 8;
+    this.model = config.model || `fake-${this.dimension}`;
+    this.fixed = new Map(Object.entries(config.vectors || {}));
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.calls.push(texts);
+    return texts.map(text => this.fixed.get(text) || this.vectorFor(text));
+  }
+
+  private vectorFor(text: string): number[] {
+    const values: number[] = [];
+    let seed = crypto.createHash('sha256').update(text).digest();
+
+    while (values.length < this.dimension) {
+      for (let i = 0; i + 4 <= seed.length && values.length < this.dimension; i += 4) {
+        values.push(seed.readInt32LE(i) / 0x7fffffff);
+      }
+      seed = crypto.createHash('sha256').update(seed).digest();
+    }
+
+    return normalize(values);
+  }
+}
+
+/**
+ * Create the embedding provider selected by EMBEDDING_PROVIDER
+ */
+export function createEmbeddingProvider(config: {
+  provider?: string;
+  model?: string;
+  dimension?: number;
+  openaiApiKey?: string;
+  onUsage?: (usage: TokenUsage) => void;
+}): EmbeddingProvider {
+  switch (config.provider || 'openai') {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        apiKey: config.openaiApiKey,
+        model: config.model,
+        dimension: config.dimension,
+        onUsage: config.onUsage,
+      });
+    case 'local':
+      return new LocalHashEmbeddingProvider({ dimension: config.dimension });
+    default:
+      throw Errors.badRequest(`Unknown embedding provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Lowercase word tokens (letters, digits, and error-code punctuation like "E-1042")
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:[-_.][a-z0-9]+)*/g) || [];
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
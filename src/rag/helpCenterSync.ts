@@ -0,0 +1,185 @@
+import fs from 'fs';
+import { ZendeskClient } from '../zendesk/client';
+import { RAGService } from './service';
+import { HelpCenterArticle, KnowledgeDocument } from '../types';
+import { htmlToText } from '../utils/html';
+import { logger } from '../utils/logger';
+import { writeJsonAtomic } from '../utils/files';
+import { Errors } from '../middleware/errorHandler';
+
+interface SyncConfig {
+  locales: string[];
+  sectionIds?: number[];
+  statePath?: string;        // Persist sync state here (in-memory if omitted)
+}
+
+interface SyncState {
+  lastSyncAt?: string;
+  articles: Record<string, { updatedAt: string; title: string }>;
+}
+
+export interface SyncReport {
+  added: Array<{ id: string; title: string }>;
+  updated: Array<{ id: string; title: string }>;
+  removed: Array<{ id: string; title: string }>;
+  unchanged: number;
+  errors: Array<{ id: string; error: string }>;
+  startedAt: string;
+  durationMs: number;
+}
+
+/**
+ * Incremental sync of Zendesk Help Center articles into the knowledge base.
+ * New or changed articles (by updated_at) are indexed; articles no longer listed
+ * as published (archived, deleted or moved back to draft) are removed.
+ */
+export class HelpCenterSync {
+  private zendesk: ZendeskClient;
+  private rag: RAGService;
+  private config: SyncConfig;
+  private state: SyncState = { articles: {} };
+  private running = false;
+
+  constructor(zendesk: ZendeskClient, rag: RAGService, config: SyncConfig) {
+    this.zendesk = zendesk;
+    this.rag = rag;
+    this.config = config;
+    this.load();
+  }
+
+  /**
+   * Document id for an article (articles have one id across translations)
+   */
+  static documentId(article: Pick<HelpCenterArticle, 'id' | 'locale'>): string {
+    return `hc-${article.locale}-${article.id}`;
+  }
+
+  /**
+   * Run a sync. With full, every article is re-indexed regardless of updated_at.
+   */
+  async sync(options: { full?: boolean } = {}): Promise<SyncReport> {
+    if (this.running) {
+      throw Errors.conflict('Help Center sync already in progress');
+    }
+
+    this.running = true;
+    const start = Date.now();
+    const report: SyncReport = {
+      added: [],
+      updated: [],
+      removed: [],
+      unchanged: 0,
+      errors: [],
+      startedAt: new Date(start).toISOString(),
+      durationMs: 0,
+    };
+
+    try {
+      const articles: HelpCenterArticle[] = [];
+      for (const locale of this.config.locales) {
+        articles.push(...await this.zendesk.listArticles(locale, this.config.sectionIds));
+      }
+
+      // Work out what changed since the last sync
+      const seen = new Set<string>();
+      const changed: KnowledgeDocument[] = [];
+
+      for (const article of articles) {
+        const id = HelpCenterSync.documentId(article);
+        seen.add(id);
+
+        const previous = this.state.articles[id];
+        if (previous && previous.updatedAt === article.updated_at && !options.full) {
+          report.unchanged++;
+          continue;
+        }
+
+        changed.push(this.toDocument(article));
+        (previous ? report.updated : report.added).push({ id, title: article.title });
+      }
+
+      // Index new and updated articles
+      if (changed.length > 0) {
+        const result = await this.rag.indexDocuments(changed);
+        report.errors.push(...result.errors);
+
+        const failed = new Set(result.errors.map(e => e.id));
+        report.added = report.added.filter(a => !failed.has(a.id));
+        report.updated = report.updated.filter(a => !failed.has(a.id));
+
+        for (const doc of changed.filter(d => !failed.has(d.id))) {
+          this.state.articles[doc.id] = { updatedAt: doc.lastUpdated || '', title: doc.title };
+        }
+      }
+
+      // Remove articles that are no longer published
+      const removedIds = Object.keys(this.state.articles).filter(id => !seen.has(id));
+      if (removedIds.length > 0) {
+        await this.rag.deleteDocuments(removedIds);
+        for (const id of removedIds) {
+          report.removed.push({ id, title: this.state.articles[id].title });
+          delete this.state.articles[id];
+        }
+      }
+
+      this.state.lastSyncAt = report.startedAt;
+      this.persist();
+    } finally {
+      this.running = false;
+    }
+
+    report.durationMs = Date.now() - start;
+    logger.info('Help Center sync complete', {
+      added: report.added.length,
+      updated: report.updated.length,
+      removed: report.removed.length,
+      unchanged: report.unchanged,
+      errors: report.errors.length,
+    });
+    return report;
+  }
+
+  /**
+   * Sync status for the admin API
+   */
+  status(): { lastSyncAt?: string; articles: number; running: boolean } {
+    return {
+      lastSyncAt: this.state.lastSyncAt,
+      articles: Object.keys(this.state.articles).length,
+      running: this.running,
+    };
+  }
+
+  private toDocument(article: HelpCenterArticle): KnowledgeDocument {
+    return {
+      id: HelpCenterSync.documentId(article),
+      title: article.title,
+      content: htmlToText(article.body || ''),
+      url: article.html_url,
+      lastUpdated: article.updated_at,
+      source: 'help_center',
+      metadata: {
+        articleId: article.id,
+        locale: article.locale,
+        sectionId: article.section_id,
+        labels: article.label_names || [],
+      },
+    };
+  }
+
+  private load(): void {
+    if (!this.config.statePath || !fs.existsSync(this.config.statePath)) return;
+
+    try {
+      this.state = JSON.parse(fs.readFileSync(this.config.statePath, 'utf-8')) as SyncState;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to load Help Center sync state', { file: this.config.statePath, error: message });
+    }
+  }
+
+  private persist(): void {
+    if (!this.config.statePath) return;
+    writeJsonAtomic(this.config.statePath, this.state, 'Help Center sync state', { pretty: true });
+  }
+}
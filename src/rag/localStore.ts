@@ -0,0 +1,209 @@
+import fs from 'fs';
+import {
+  VectorStore,
+  VectorRecord,
+  VectorQuery,
+  VectorMatch,
+  VectorStoreStats,
+  MetadataFilter,
+  MetadataValue,
+} from './vectorStore';
+import { logger } from '../utils/logger';
+import { writeJsonAtomic } from '../utils/files';
+import { Errors } from '../middleware/errorHandler';
+
+type Namespaces = Record<string, Record<string, VectorRecord>>;
+
+/**
+ * In-process vector store using brute-force cosine similarity.
+ * Optionally persisted to a JSON file. Intended for CI, local development
+ * and air-gapped deployments with small knowledge bases.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly backend = 'local';
+  private namespaces: Namespaces = {};
+  private filePath?: string;
+
+  constructor(config: { filePath?: string } = {}) {
+    this.filePath = config.filePath;
+    this.load();
+  }
+
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    const ns = (this.namespaces[namespace] ??= {});
+    const dimension = this.dimensionOf(namespace);
+
+    for (const record of records) {
+      if (dimension && record.values.length !== dimension) {
+        throw Errors.ragError(
+          `Vector dimension ${record.values.length} does not match namespace "${namespace}" dimension ${dimension}`
+        );
+      }
+      ns[record.id] = { id: record.id, values: record.values, metadata: { ...record.metadata } };
+    }
+
+    this.persist();
+  }
+
+  async query(namespace: string, query: VectorQuery): Promise<VectorMatch[]> {
+    const ns = this.namespaces[namespace];
+    if (!ns) return [];
+
+    const dimension = this.dimensionOf(namespace);
+    if (dimension && query.vector.length !== dimension) {
+      throw Errors.ragError(
+        `Query dimension ${query.vector.length} does not match namespace "${namespace}" dimension ${dimension}`
+      );
+    }
+
+    return Object.values(ns)
+      .filter(record => !query.filter || matchesFilter(record.metadata, query.filter))
+      .map(record => ({
+        id: record.id,
+        score: cosineSimilarity(query.vector, record.values),
+        metadata: record.metadata,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.topK);
+  }
+
+  async deleteMany(namespace: string, ids: string[]): Promise<void> {
+    const ns = this.namespaces[namespace];
+    if (!ns) return;
+
+    ids.forEach(id => delete ns[id]);
+    this.persist();
+  }
+
+  async listIds(namespace: string, prefix: string): Promise<string[]> {
+    return Object.keys(this.namespaces[namespace] || {}).filter(id => id.startsWith(prefix));
+  }
+
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    const ns = this.namespaces[namespace] || {};
+    return ids.filter(id => ns[id]).map(id => ns[id]);
+  }
+
+  async deleteAll(namespace: string): Promise<void> {
+    delete this.namespaces[namespace];
+    this.persist();
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const namespaces: Record<string, { vectorCount: number }> = {};
+    let totalVectors = 0;
+    let dimension = 0;
+
+    for (const [name, records] of Object.entries(this.namespaces)) {
+      const count = Object.keys(records).length;
+      namespaces[name] = { vectorCount: count };
+      totalVectors += count;
+      dimension ||= this.dimensionOf(name);
+    }
+
+    return { totalVectors, namespaces, dimension };
+  }
+
+  /**
+   * Dimension of the vectors already stored in a namespace (0 if empty)
+   */
+  private dimensionOf(namespace: string): number {
+    const first = Object.values(this.namespaces[namespace] || {})[0];
+    return first ? first.values.length : 0;
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+
+    try {
+      this.namespaces = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Namespaces;
+      logger.info(`Loaded local vector store from ${this.filePath}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to load local vector store', { file: this.filePath, error: message });
+    }
+  }
+
+  private persist(): void {
+    if (!this.filePath) return;
+    writeJsonAtomic(this.filePath, this.namespaces, 'local vector store');
+  }
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Evaluate a Pinecone-style metadata filter against a record's metadata.
+ * Supports $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $exists, $and and $or.
+ * List-valued fields match when any element matches.
+ */
+export function matchesFilter(
+  metadata: Record<string, MetadataValue>,
+  filter: MetadataFilter
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as MetadataFilter[]).every(f => matchesFilter(metadata, f));
+    }
+    if (key === '$or') {
+      return (condition as MetadataFilter[]).some(f => matchesFilter(metadata, f));
+    }
+
+    const value = metadata[key];
+    const isOperatorObject = condition !== null
+      && typeof condition === 'object'
+      && !Array.isArray(condition);
+
+    if (!isOperatorObject) {
+      return matchesOperator(value, '$eq', condition);
+    }
+
+    return Object.entries(condition as Record<string, unknown>)
+      .every(([op, operand]) => matchesOperator(value, op, operand));
+  });
+}
+
+function matchesOperator(value: MetadataValue | undefined, op: string, operand: unknown): boolean {
+  if (op === '$exists') {
+    return (value !== undefined) === Boolean(operand);
+  }
+
+  const values: unknown[] = Array.isArray(value) ? value : [value];
+
+  switch (op) {
+    case '$eq':
+      return values.some(v => v === operand);
+    case '$ne':
+      return values.every(v => v !== operand);
+    case '$in':
+      return values.some(v => (operand as unknown[]).includes(v));
+    case '$nin':
+      return values.every(v => !(operand as unknown[]).includes(v));
+    case '$gt':
+      return values.some(v => v !== undefined && (v as number) > (operand as number));
+    case '$gte':
+      return values.some(v => v !== undefined && (v as number) >= (operand as number));
+    case '$lt':
+      return values.some(v => v !== undefined && (v as number) < (operand as number));
+    case '$lte':
+      return values.some(v => v !== undefined && (v as number) <= (operand as number));
+    default:
+      throw Errors.badRequest(`Unsupported metadata filter operator: ${op}`);
+  }
+}
@@ -0,0 +1,147 @@
+import { Pinecone, Index, RecordMetadata } from '@pinecone-database/pinecone';
+import {
+  VectorStore,
+  VectorRecord,
+  VectorQuery,
+  VectorMatch,
+  VectorMetadata,
+  VectorStoreStats,
+} from './vectorStore';
+import { CHUNK_ID_SEPARATOR, chunkId } from './chunker';
+
+type PineconeMetadata = VectorMetadata & RecordMetadata;
+
+// Chunk ids fetched per request when probing a pod-based index
+const FETCH_PAGE_SIZE = 50;
+
+/**
+ * Pinecone-backed vector store
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly backend = 'pinecone';
+  private pinecone: Pinecone;
+  private indexName: string;
+  private serverless?: Promise<boolean>;
+
+  constructor(config: { apiKey: string; indexName: string }) {
+    this.pinecone = new Pinecone({ apiKey: config.apiKey });
+    this.indexName = config.indexName;
+  }
+
+  /**
+   * Get the Pinecone index
+   */
+  private getIndex(): Index<PineconeMetadata> {
+    return this.pinecone.index<PineconeMetadata>(this.indexName);
+  }
+
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    await this.getIndex().namespace(namespace).upsert(
+      records.map(r => ({ id: r.id, values: r.values, metadata: r.metadata as PineconeMetadata }))
+    );
+  }
+
+  async query(namespace: string, query: VectorQuery): Promise<VectorMatch[]> {
+    const results = await this.getIndex().namespace(namespace).query({
+      vector: query.vector,
+      topK: query.topK,
+      includeMetadata: true,
+      filter: query.filter,
+    });
+
+    return (results.matches || []).map(match => ({
+      id: match.id,
+      score: match.score || 0,
+      metadata: match.metadata,
+    }));
+  }
+
+  async deleteMany(namespace: string, ids: string[]): Promise<void> {
+    await this.getIndex().namespace(namespace).deleteMany(ids);
+  }
+
+  /**
+   * Page through ids by prefix. Pod-based indexes can't list ids, so there
+   * the chunks of a document are found by fetching its chunk ids in order.
+   */
+  async listIds(namespace: string, prefix: string): Promise<string[]> {
+    if (!(await this.isServerless())) {
+      return this.probeChunkIds(namespace, prefix);
+    }
+
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await this.getIndex().namespace(namespace).listPaginated({ prefix, paginationToken });
+      (page.vectors || []).forEach(v => v.id && ids.push(v.id));
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    return ids;
+  }
+
+  /**
+   * Fetch chunk ids 0, 1, 2... of a document until one is missing. Chunks are
+   * numbered without gaps, including those left over from a longer version
+   * that the caller is about to delete, so chunkCount can't be used.
+   */
+  private async probeChunkIds(namespace: string, prefix: string): Promise<string[]> {
+    if (!prefix.endsWith(CHUNK_ID_SEPARATOR)) {
+      throw new Error(`Pod-based index ${this.indexName} can only list the chunks of a document`);
+    }
+    const parentId = prefix.slice(0, -CHUNK_ID_SEPARATOR.length);
+    const ids: string[] = [];
+
+    for (let start = 0; ; start += FETCH_PAGE_SIZE) {
+      const page = Array.from({ length: FETCH_PAGE_SIZE }, (_, i) => chunkId(parentId, start + i));
+      const { records } = await this.getIndex().namespace(namespace).fetch(page);
+      const found = page.filter(id => records[id]);
+      ids.push(...found);
+      if (found.length < page.length) return ids;
+    }
+  }
+
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    const { records } = await this.getIndex().namespace(namespace).fetch(ids);
+    return ids
+      .filter(id => records[id])
+      .map(id => ({ id, values: records[id].values, metadata: records[id].metadata as VectorMetadata }));
+  }
+
+  /**
+   * Whether the index is serverless (cached; retried if the lookup fails)
+   */
+  private isServerless(): Promise<boolean> {
+    this.serverless ??= this.pinecone.describeIndex(this.indexName).then(
+      model => model.spec.serverless !== undefined,
+      error => {
+        this.serverless = undefined;
+        throw error;
+      }
+    );
+    return this.serverless;
+  }
+
+  async deleteAll(namespace: string): Promise<void> {
+    await this.getIndex().namespace(namespace).deleteAll();
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const stats = await this.getIndex().describeIndexStats();
+
+    // Transform namespaces to expected format
+    const namespaces: Record<string, { vectorCount: number }> = {};
+    if (stats.namespaces) {
+      for (const [key, value] of Object.entries(stats.namespaces)) {
+        namespaces[key] = { vectorCount: value.recordCount || 0 };
+      }
+    }
+
+    return {
+      totalVectors: stats.totalRecordCount || 0,
+      namespaces,
+      dimension: stats.dimension || 0,
+    };
+  }
+}
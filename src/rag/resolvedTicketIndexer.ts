@@ -0,0 +1,231 @@
+import fs from 'fs';
+import { ZendeskClient } from '../zendesk/client';
+import { LLMOrchestrator } from '../llm/orchestrator';
+import { RAGService } from './service';
+import { KnowledgeDocument, ZendeskTicket } from '../types';
+import { stripPII } from '../utils/pii';
+import { logger } from '../utils/logger';
+import { writeJsonAtomic } from '../utils/files';
+import { Errors } from '../middleware/errorHandler';
+
+interface IndexerConfig {
+  namespace: string;
+  maxTickets: number;        // Solved tickets considered per run
+  statePath?: string;        // Persist indexing state here (in-memory if omitted)
+}
+
+interface IndexerState {
+  lastRunAt?: string;
+  cursor?: string;                  // updated_at (full timestamp) the next incremental run starts from
+  tickets: Record<string, string>;  // Ticket id -> updated_at when indexed
+}
+
+export interface ResolvedTicketReport {
+  indexed: Array<{ id: string; title: string }>;
+  skipped: Array<{ id: string; reason: string }>;
+  unchanged: number;
+  errors: Array<{ id: string; error: string }>;
+  startedAt: string;
+  durationMs: number;
+}
+
+/**
+ * Turns solved tickets into knowledge: each thread is stripped of personal data,
+ * condensed into a problem/resolution summary and indexed into its own namespace,
+ * which hybrid search weights below curated articles.
+ */
+export class ResolvedTicketIndexer {
+  private zendesk: ZendeskClient;
+  private llm: LLMOrchestrator;
+  private rag: RAGService;
+  private config: IndexerConfig;
+  private state: IndexerState = { tickets: {} };
+  private running = false;
+
+  constructor(zendesk: ZendeskClient, llm: LLMOrchestrator, rag: RAGService, config: IndexerConfig) {
+    this.zendesk = zendesk;
+    this.llm = llm;
+    this.rag = rag;
+    this.config = config;
+    this.load();
+  }
+
+  /**
+   * Document id for a solved ticket
+   */
+  static documentId(ticketId: number): string {
+    return `ticket-${ticketId}`;
+  }
+
+  /**
+   * Index solved tickets. Runs are incremental: only tickets updated since the
+   * last one the previous run got to are fetched, unless full is set or since
+   * is given explicitly. Tickets already indexed at their current version
+   * (those updated in the same second as the cursor) are skipped without
+   * counting toward the limit.
+   */
+  async run(options: { full?: boolean; since?: string; query?: string; limit?: number } = {}): Promise<ResolvedTicketReport> {
+    if (this.running) {
+      throw Errors.conflict('Resolved ticket indexing already in progress');
+    }
+
+    this.running = true;
+    const start = Date.now();
+    const report: ResolvedTicketReport = {
+      indexed: [],
+      skipped: [],
+      unchanged: 0,
+      errors: [],
+      startedAt: new Date(start).toISOString(),
+      durationMs: 0,
+    };
+
+    try {
+      const since = options.since || (options.full ? undefined : this.state.cursor ?? this.state.lastRunAt);
+      const isUnchanged = (ticket: ZendeskTicket) =>
+        !options.full && this.state.tickets[ResolvedTicketIndexer.documentId(ticket.id)] === ticket.updated_at;
+      const { tickets, unchanged, reachedAt } = await this.findSolvedTickets(
+        since, options.query, options.limit || this.config.maxTickets, isUnchanged
+      );
+      report.unchanged = unchanged;
+
+      const documents: KnowledgeDocument[] = [];
+      const updatedAt = new Map(tickets.map(t => [ResolvedTicketIndexer.documentId(t.id), t.updated_at]));
+      for (const ticket of tickets) {
+        const id = ResolvedTicketIndexer.documentId(ticket.id);
+
+        try {
+          const doc = await this.toDocument(ticket);
+          if (doc) {
+            documents.push(doc);
+          } else {
+            report.skipped.push({ id, reason: 'No public agent reply' });
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          report.errors.push({ id, error: message });
+        }
+      }
+
+      if (documents.length > 0) {
+        const result = await this.rag.indexDocuments(documents, { namespace: this.config.namespace });
+        report.errors.push(...result.errors);
+
+        const failed = new Set(result.errors.map(e => e.id));
+        for (const doc of documents.filter(d => !failed.has(d.id))) {
+          report.indexed.push({ id: doc.id, title: doc.title });
+          this.state.tickets[doc.id] = doc.lastUpdated || '';
+        }
+      }
+
+      // Resume after the last ticket this run got to (the limit may have cut the
+      // search short), or from the first one that failed so it is tried again
+      const failedAt = report.errors.map(e => updatedAt.get(e.id)).filter((u): u is string => !!u).sort()[0];
+      const cursor = failedAt || reachedAt;
+      if (cursor) this.state.cursor = cursor;
+      this.state.lastRunAt = report.startedAt;
+      this.persist();
+    } finally {
+      this.running = false;
+    }
+
+    report.durationMs = Date.now() - start;
+    logger.info('Resolved ticket indexing complete', {
+      indexed: report.indexed.length,
+      skipped: report.skipped.length,
+      unchanged: report.unchanged,
+      errors: report.errors.length,
+    });
+    return report;
+  }
+
+  /**
+   * Indexing status for the admin API
+   */
+  status(): { lastRunAt?: string; tickets: number; running: boolean } {
+    return {
+      lastRunAt: this.state.lastRunAt,
+      tickets: Object.keys(this.state.tickets).length,
+      running: this.running,
+    };
+  }
+
+  /**
+   * Page through solved tickets, oldest update first, until limit of them need
+   * indexing. reachedAt is the updated_at of the last ticket looked at.
+   */
+  private async findSolvedTickets(
+    since: string | undefined,
+    query: string | undefined,
+    limit: number,
+    isUnchanged: (ticket: ZendeskTicket) => boolean
+  ): Promise<{ tickets: ZendeskTicket[]; unchanged: number; reachedAt?: string }> {
+    const terms = ['status:solved', 'order_by:updated_at', 'sort:asc'];
+    if (since) terms.push(`updated>=${since}`);
+    if (query) terms.push(query);
+
+    const tickets: ZendeskTicket[] = [];
+    let unchanged = 0;
+    let reachedAt: string | undefined;
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore && tickets.length < limit) {
+      const result = await this.zendesk.searchTickets(terms.join(' '), page);
+      for (const ticket of result.results) {
+        if (tickets.length >= limit) break;
+        reachedAt = ticket.updated_at;
+        if (isUnchanged(ticket)) {
+          unchanged++;
+        } else {
+          tickets.push(ticket);
+        }
+      }
+      hasMore = !!result.next_page && result.results.length > 0;
+      page++;
+    }
+
+    return { tickets, unchanged, reachedAt };
+  }
+
+  /**
+   * Summarize a solved ticket's public conversation, or null if no agent replied publicly
+   */
+  private async toDocument(ticket: ZendeskTicket): Promise<KnowledgeDocument | null> {
+    const comments = (await this.zendesk.getComments(ticket.id)).filter(c => c.public && c.body.trim());
+    if (!comments.some(c => c.author_id !== ticket.requester_id)) return null;
+
+    const messages = comments.map(c =>
+      `${c.author_id === ticket.requester_id ? 'Customer' : 'Agent'}: ${stripPII(c.body)}`
+    );
+    const summary = await this.llm.summarizeThread(messages, { focus: 'resolution' });
+
+    return {
+      id: ResolvedTicketIndexer.documentId(ticket.id),
+      title: stripPII(ticket.subject),
+      content: stripPII(summary),
+      lastUpdated: ticket.updated_at,
+      source: 'resolved_ticket',
+      metadata: {
+        ticketId: ticket.id,
+        tags: ticket.tags,
+      },
+    };
+  }
+
+  private load(): void {
+    if (!this.config.statePath || !fs.existsSync(this.config.statePath)) return;
+
+    try {
+      this.state = JSON.parse(fs.readFileSync(this.config.statePath, 'utf-8')) as IndexerState;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to load resolved ticket state', { file: this.config.statePath, error: message });
+    }
+  }
+
+  private persist(): void {
+    if (!this.config.statePath) return;
+    writeJsonAtomic(this.config.statePath, this.state, 'resolved ticket state', { pretty: true });
+  }
+}
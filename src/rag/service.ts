@@ -1,89 +1,153 @@
-import { Pinecone, Index, RecordMetadata } from '@pinecone-database/pinecone';
-import OpenAI from 'openai';
-import { RAGConfig, KnowledgeDocument, KnowledgeResult } from '../types';
+import {
+  RAGConfig,
+  KnowledgeDocument,
+  KnowledgeResult,
+  KnowledgeSource,
+  ChunkingOptions,
+  HybridSearchOptions,
+} from '../types';
 import { logger } from '../utils/logger';
 import { Errors } from '../middleware/errorHandler';
+import { VectorStore, VectorMetadata, VectorRecord, VectorMatch } from './vectorStore';
+import { PineconeVectorStore } from './pineconeStore';
+import { LocalVectorStore } from './localStore';
+import { EmbeddingProvider, createEmbeddingProvider } from './embeddings';
+import { chunkDocument, parentIdOf, CHUNK_ID_SEPARATOR } from './chunker';
+import { LexicalIndex, LexicalEntry, reciprocalRankFusion } from './bm25';
+import { UsageTracker } from '../llm/usage';
+import { PIIDetector } from '../utils/pii';
+import { currentTicketContext } from '../utils/context';
 
-interface VectorMetadata extends RecordMetadata {
-  text: string;
-  title: string;
-  category: string;
-  url: string;
-  lastUpdated: string;
-  [key: string]: string | number | boolean | string[];
+/**
+ * Model assumed for vectors indexed before the model was recorded in metadata
+ */
+const LEGACY_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+const UPSERT_BATCH_SIZE = 100;
+const CHUNK_OVERSAMPLE = 4;       // Chunks fetched per requested document
+const MAX_CHUNKS_PER_RESULT = 3;  // Chunks of one document returned as context
+
+/**
+ * Lexical index entry for a stored chunk (legacy un-chunked records are their own parent)
+ */
+function toLexicalEntry(record: VectorRecord): LexicalEntry {
+  const { metadata } = record;
+  return {
+    id: record.id,
+    parentId: (metadata.parentId as string | undefined) || parentIdOf(record.id),
+    text: [metadata.title, metadata.heading, metadata.text].filter(Boolean).join('\n'),
+    metadata,
+  };
+}
+
+/**
+ * Create the vector store selected by RAG_BACKEND
+ */
+export function createVectorStore(config: RAGConfig): VectorStore {
+  switch (config.backend || 'pinecone') {
+    case 'local':
+      return new LocalVectorStore({ filePath: config.localStorePath });
+    case 'pinecone':
+      return new PineconeVectorStore({
+        apiKey: config.pineconeApiKey || '',
+        indexName: config.indexName,
+      });
+    default:
+      throw Errors.badRequest(`Unknown RAG backend: ${config.backend}`);
+  }
 }
 
 /**
  * RAG (Retrieval-Augmented Generation) Service
- * Handles knowledge base indexing and retrieval using Pinecone + OpenAI embeddings
+ * Handles knowledge base indexing and retrieval using pluggable vector store and embedding providers
  */
 export class RAGService {
-  private pinecone: Pinecone;
+  private store: VectorStore;
+  private embedder: EmbeddingProvider;
   private indexName: string;
   private namespace: string;
-  private openai: OpenAI;
-  private embeddingModel = 'text-embedding-3-small';
-  private embeddingDimension = 1536;
+  private chunking: ChunkingOptions;
+  private lexical: LexicalIndex;
+  private hybrid: Required<HybridSearchOptions>;
+  private resolvedNamespace?: string;
+  private verifiedNamespaces = new Set<string>();
+  private pii?: PIIDetector;
 
-  constructor(config: RAGConfig) {
-    this.pinecone = new Pinecone({ apiKey: config.pineconeApiKey });
+  constructor(
+    config: RAGConfig,
+    deps: { store?: VectorStore; embedder?: EmbeddingProvider; lexicalIndex?: LexicalIndex; usage?: UsageTracker; pii?: PIIDetector } = {}
+  ) {
+    const { usage } = deps;
+    this.pii = deps.pii;
+    this.store = deps.store || createVectorStore(config);
+    this.embedder = deps.embedder || createEmbeddingProvider({
+      provider: config.embeddingProvider,
+      model: config.embeddingModel,
+      dimension: config.embeddingDimension,
+      openaiApiKey: config.openaiApiKey,
+      onUsage: usage && (tokens => usage.record({
+        kind: 'embedding',
+        provider: this.embedder.name,
+        model: this.embedder.model,
+        task: 'embed',
+        ...tokens,
+      })),
+    });
     this.indexName = config.indexName;
     this.namespace = config.namespace || 'default';
-    this.openai = new OpenAI({ 
-      apiKey: config.openaiApiKey || process.env.OPENAI_API_KEY 
-    });
+    this.chunking = config.chunking || {};
+    this.lexical = deps.lexicalIndex || new LexicalIndex({ filePath: config.lexicalIndexPath });
+    this.hybrid = {
+      rrfK: 60,
+      semanticWeight: 1,
+      lexicalWeight: 1,
+      resolvedTicketWeight: 0.5,
+      ...config.hybrid,
+    };
+    this.resolvedNamespace = config.resolvedNamespace;
 
     logger.info('RAG Service initialized', { 
+      backend: this.store.backend,
+      embeddingModel: this.embedder.model,
       index: this.indexName, 
       namespace: this.namespace 
     });
   }
 
   /**
-   * Get the Pinecone index
-   */
-  private getIndex(): Index<VectorMetadata> {
-    return this.pinecone.index<VectorMetadata>(this.indexName);
-  }
-
-  /**
-   * Retrieve relevant knowledge for a query
+   * Retrieve relevant knowledge for a query.
+   * Matching chunks are grouped by parent document, so each result is one document
+   * scored by its best chunk, with its matching chunks as text.
    */
   async retrieve(query: string, options?: {
     topK?: number;
     minScore?: number;
     filter?: Record<string, unknown>;
+    namespace?: string;
   }): Promise<KnowledgeResult[]> {
-    const { topK = 5, minScore = 0.7, filter } = options || {};
+    const { topK = 5, minScore = 0.7, filter, namespace = this.namespace } = options || {};
 
     try {
       // Generate embedding for query
       const embedding = await this.embed(query);
+      await this.assertCompatibleNamespace(namespace, embedding);
       
-      // Query Pinecone
-      const index = this.getIndex();
-      const results = await index.namespace(this.namespace).query({
+      // Over-fetch chunks so several documents survive grouping
+      const matches = await this.store.query(namespace, {
         vector: embedding,
-        topK,
-        includeMetadata: true,
+        topK: Math.min(topK * CHUNK_OVERSAMPLE, 100),
         filter,
       });
 
-      // Filter by score and format results
-      const relevant = results.matches
-        ?.filter((match) => match.score && match.score >= minScore)
-        ?.map((match) => ({
-          id: match.id,
-          text: (match.metadata?.text as string) || '',
-          title: match.metadata?.title as string | undefined,
-          score: match.score || 0,
-          url: match.metadata?.url as string | undefined,
-        }))
-        ?.filter(r => r.text) || [];
+      // Filter by score and group chunks by parent document
+      const relevant = this.groupByParent(
+        matches.filter((match) => match.score && match.score >= minScore && match.metadata?.text)
+      ).slice(0, topK);
 
       logger.info(`Retrieved ${relevant.length} relevant documents`, { 
         query: query.substring(0, 100),
-        totalMatches: results.matches?.length,
+        namespace,
+        totalMatches: matches.length,
         aboveThreshold: relevant.length,
       });
 
@@ -100,68 +164,77 @@ export class RAGService {
   /**
    * Index a single document
    */
-  async indexDocument(doc: KnowledgeDocument): Promise<void> {
-    await this.indexDocuments([doc]);
+  async indexDocument(doc: KnowledgeDocument, options?: { namespace?: string }): Promise<void> {
+    await this.indexDocuments([doc], options);
   }
 
   /**
-   * Index multiple documents
+   * Index multiple documents. Each document is split into chunks; chunks left
+   * over from a previous, longer version of the document are removed.
    */
-  async indexDocuments(documents: KnowledgeDocument[]): Promise<{ 
+  async indexDocuments(documents: KnowledgeDocument[], options?: { namespace?: string }): Promise<{ 
     indexed: number; 
+    chunks: number;
     errors: Array<{ id: string; error: string }>;
   }> {
-    const index = this.getIndex();
     const errors: Array<{ id: string; error: string }> = [];
-    const batchSize = 100;
+    const batchSize = 20;
     let indexed = 0;
+    let chunkCount = 0;
+    const namespace = options?.namespace || this.namespace;
 
-    logger.info(`Indexing ${documents.length} documents...`);
+    logger.info(`Indexing ${documents.length} documents...`, { namespace });
 
     // Process in batches
     for (let i = 0; i < documents.length; i += batchSize) {
       const batch = documents.slice(i, i + batchSize);
       
       try {
-        // Generate embeddings for batch
-        const vectors = await Promise.all(
-          batch.map(async (doc) => {
-            try {
-              // Combine title and content for embedding
-              const textToEmbed = doc.title 
-                ? `${doc.title}\n\n${doc.content}`
-                : doc.content;
-              
-              const embedding = await this.embed(textToEmbed);
-              
-              return {
-                id: doc.id,
-                values: embedding,
-                metadata: {
-                  text: doc.content,
-                  title: doc.title || '',
-                  category: doc.category || '',
-                  url: doc.url || '',
-                  lastUpdated: doc.lastUpdated || new Date().toISOString(),
-                } as VectorMetadata,
-              };
-            } catch (error) {
-              const message = error instanceof Error ? error.message : 'Unknown error';
-              errors.push({ id: doc.id, error: message });
-              return null;
-            }
-          })
-        );
+        const vectors: VectorRecord[] = [];
+
+        for (const doc of batch) {
+          const chunks = chunkDocument(doc, this.chunking);
+
+          // Combine title, section heading and chunk text for embedding
+          const embeddings = await this.embedMany(chunks.map(chunk =>
+            [doc.title, chunk.heading, chunk.text].filter(Boolean).join('\n\n')
+          ));
+          await this.assertCompatibleNamespace(namespace, embeddings[0]);
 
-        // Filter out failed embeddings and upsert
-        const validVectors = vectors.filter(v => v !== null) as NonNullable<typeof vectors[0]>[];
-        if (validVectors.length > 0) {
-          await index.namespace(this.namespace).upsert(validVectors);
-          indexed += validVectors.length;
+          chunks.forEach((chunk, j) => vectors.push({
+            id: chunk.id,
+            values: embeddings[j],
+            metadata: {
+              text: chunk.text,
+              title: doc.title || '',
+              category: doc.category || '',
+              url: doc.url || '',
+              lastUpdated: doc.lastUpdated || new Date().toISOString(),
+              embeddingModel: this.embedder.model,
+              parentId: doc.id,
+              chunkIndex: chunk.index,
+              chunkCount: chunks.length,
+              heading: chunk.heading || '',
+              source: doc.source || 'manual',
+            } as VectorMetadata,
+          }));
         }
 
+        for (let j = 0; j < vectors.length; j += UPSERT_BATCH_SIZE) {
+          await this.store.upsert(namespace, vectors.slice(j, j + UPSERT_BATCH_SIZE));
+        }
+        await this.removeStaleChunks(namespace, batch.map(doc => doc.id), new Set(vectors.map(v => v.id)));
+
+        // Keep the lexical index in step with the vector store
+        this.lexical.removeByParent(namespace, batch.map(doc => doc.id));
+        this.lexical.add(namespace, vectors.map(toLexicalEntry));
+
+        indexed += batch.length;
+        chunkCount += vectors.length;
+
         logger.debug(`Indexed batch ${Math.floor(i / batchSize) + 1}`, { 
-          count: validVectors.length 
+          count: batch.length,
+          chunks: vectors.length,
         });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
@@ -170,25 +243,114 @@ export class RAGService {
       }
     }
 
-    logger.info(`Indexing complete`, { indexed, errors: errors.length });
-    return { indexed, errors };
+    logger.info(`Indexing complete`, { indexed, chunks: chunkCount, errors: errors.length });
+    return { indexed, chunks: chunkCount, errors };
+  }
+
+  /**
+   * Delete documents by IDs, including all of their chunks
+   */
+  async deleteDocuments(ids: string[], options?: { namespace?: string }): Promise<void> {
+    const namespace = options?.namespace || this.namespace;
+    const chunkIds = await this.listChunkIds(namespace, ids);
+    const toDelete = [...ids, ...chunkIds];
+
+    for (let i = 0; i < toDelete.length; i += UPSERT_BATCH_SIZE) {
+      await this.store.deleteMany(namespace, toDelete.slice(i, i + UPSERT_BATCH_SIZE));
+    }
+    this.lexical.removeByParent(namespace, ids);
+    logger.info(`Deleted ${ids.length} documents`, { chunks: chunkIds.length });
+  }
+
+  /**
+   * Ids of every stored chunk belonging to the given documents
+   */
+  private async listChunkIds(namespace: string, parentIds: string[]): Promise<string[]> {
+    const lists = await Promise.all(
+      parentIds.map(id => this.store.listIds(namespace, `${id}${CHUNK_ID_SEPARATOR}`))
+    );
+    return lists.flat();
   }
 
   /**
-   * Delete documents by IDs
+   * Delete chunks of re-indexed documents that were not part of this indexing run,
+   * plus any legacy un-chunked vector stored under the document id itself
    */
-  async deleteDocuments(ids: string[]): Promise<void> {
-    const index = this.getIndex();
-    await index.namespace(this.namespace).deleteMany(ids);
-    logger.info(`Deleted ${ids.length} documents`);
+  private async removeStaleChunks(namespace: string, parentIds: string[], current: Set<string>): Promise<void> {
+    const stale = (await this.listChunkIds(namespace, parentIds)).filter(id => !current.has(id));
+    await this.store.deleteMany(namespace, [...parentIds, ...stale]);
+  }
+
+  /**
+   * Group chunk matches by parent document, keeping the best score and up to
+   * MAX_CHUNKS_PER_RESULT chunks in document order
+   */
+  private groupByParent(matches: VectorMatch[]): KnowledgeResult[] {
+    const groups = new Map<string, VectorMatch[]>();
+
+    for (const match of matches) {
+      const parentId = (match.metadata?.parentId as string | undefined) || parentIdOf(match.id);
+      const group = groups.get(parentId) || [];
+      group.push(match);
+      groups.set(parentId, group);
+    }
+
+    return [...groups.entries()]
+      .map(([parentId, group]) => {
+        const best = group.slice(0, MAX_CHUNKS_PER_RESULT);
+        const ordered = [...best].sort((a, b) =>
+          ((a.metadata?.chunkIndex as number) || 0) - ((b.metadata?.chunkIndex as number) || 0)
+        );
+        const metadata = best[0].metadata;
+
+        return {
+          id: parentId,
+          text: ordered.map(m => m.metadata?.text || '').join('\n\n'),
+          title: metadata?.title || undefined,
+          score: best[0].score,
+          url: metadata?.url || undefined,
+          source: (metadata?.source as KnowledgeSource | undefined) || undefined,
+          chunkIds: ordered.map(m => m.id),
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Rebuild a namespace's lexical index from the chunks in the vector store,
+   * e.g. after its file was lost. Needs a store that can list every id, so not
+   * a pod-based Pinecone index.
+   */
+  async rebuildLexicalIndex(options?: { namespace?: string }): Promise<{ namespace: string; chunks: number }> {
+    const namespace = options?.namespace || this.namespace;
+    const ids = await this.store.listIds(namespace, '');
+    const entries: LexicalEntry[] = [];
+
+    for (let i = 0; i < ids.length; i += UPSERT_BATCH_SIZE) {
+      const records = await this.store.fetch(namespace, ids.slice(i, i + UPSERT_BATCH_SIZE));
+      entries.push(...records.map(toLexicalEntry));
+    }
+
+    this.lexical.clear(namespace);
+    this.lexical.add(namespace, entries);
+    logger.info(`Rebuilt lexical index for namespace: ${namespace}`, { chunks: entries.length });
+    return { namespace, chunks: entries.length };
+  }
+
+  /**
+   * Write pending lexical index changes now (on shutdown)
+   */
+  flushLexicalIndex(): void {
+    this.lexical.flush();
   }
 
   /**
    * Delete all documents in namespace
    */
   async clearNamespace(): Promise<void> {
-    const index = this.getIndex();
-    await index.namespace(this.namespace).deleteAll();
+    await this.store.deleteAll(this.namespace);
+    this.verifiedNamespaces.delete(this.namespace);
+    this.lexical.clear(this.namespace);
     logger.warn(`Cleared all documents in namespace: ${this.namespace}`);
   }
 
@@ -196,25 +358,20 @@ export class RAGService {
    * Get index statistics
    */
   async getStats(): Promise<{
+    backend: string;
+    embeddingModel: string;
     totalVectors: number;
     namespaces: Record<string, { vectorCount: number }>;
     dimension: number;
   }> {
-    const index = this.getIndex();
-    const stats = await index.describeIndexStats();
-    
-    // Transform namespaces to expected format
-    const namespaces: Record<string, { vectorCount: number }> = {};
-    if (stats.namespaces) {
-      for (const [key, value] of Object.entries(stats.namespaces)) {
-        namespaces[key] = { vectorCount: value.recordCount || 0 };
-      }
-    }
+    const stats = await this.store.stats();
     
     return {
-      totalVectors: stats.totalRecordCount || 0,
-      namespaces,
-      dimension: stats.dimension || this.embeddingDimension,
+      backend: this.store.backend,
+      embeddingModel: this.embedder.model,
+      totalVectors: stats.totalVectors,
+      namespaces: stats.namespaces,
+      dimension: stats.dimension || this.embedder.dimension,
     };
   }
 
@@ -222,16 +379,25 @@ export class RAGService {
    * Generate embedding for text
    */
   private async embed(text: string): Promise<number[]> {
+    return (await this.embedMany([text]))[0];
+  }
+
+  /**
+   * Generate embeddings for several texts in one provider call. PII is replaced
+   * with placeholders first (the ticket's, when processing one).
+   */
+  private async embedMany(texts: string[]): Promise<number[][]> {
+    const redaction = this.pii && (currentTicketContext()?.redaction ?? this.pii.session());
+    const input = redaction ? texts.map(t => redaction.redact(t)) : texts;
+
     try {
-      // Truncate to model's max input (8191 tokens ≈ 32000 chars for safety)
-      const truncated = text.length > 32000 ? text.substring(0, 32000) : text;
-      
-      const response = await this.openai.embeddings.create({
-        model: this.embeddingModel,
-        input: truncated,
-      });
-      
-      return response.data[0].embedding;
+      const embeddings = await this.embedder.embed(input);
+
+      const wrongSize = embeddings.find(e => e.length !== this.embedder.dimension);
+      if (wrongSize) {
+        throw new Error(`Expected ${this.embedder.dimension} dimensions, got ${wrongSize.length}`);
+      }
+      return embeddings;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       throw Errors.ragError(`Embedding generation failed: ${message}`);
@@ -239,10 +405,32 @@ export class RAGService {
   }
 
   /**
-   * Verify Pinecone connection
+   * Refuse to mix vectors from different embedding models in one namespace.
+   * Probes the nearest stored vector and compares its recorded model.
+   */
+  private async assertCompatibleNamespace(namespace: string, vector: number[]): Promise<void> {
+    if (this.verifiedNamespaces.has(namespace)) return;
+
+    const [match] = await this.store.query(namespace, { vector, topK: 1 });
+    if (!match) return; // Empty namespace - the first indexing run decides its model
+
+    const storedModel = (match.metadata?.embeddingModel as string | undefined) || LEGACY_EMBEDDING_MODEL;
+    if (storedModel !== this.embedder.model) {
+      throw Errors.ragError(
+        `Namespace "${namespace}" contains vectors from embedding model "${storedModel}", ` +
+        `refusing to mix with "${this.embedder.model}". Re-index into a new namespace.`
+      );
+    }
+
+    this.verifiedNamespaces.add(namespace);
+  }
+
+  /**
+   * Verify vector store connection
    */
   async verifyConnection(): Promise<{ 
     success: boolean; 
+    backend: string;
     index: string; 
     namespace: string;
     vectorCount?: number;
@@ -251,6 +439,7 @@ export class RAGService {
       const stats = await this.getStats();
       return { 
         success: true, 
+        backend: this.store.backend,
         index: this.indexName,
         namespace: this.namespace,
         vectorCount: stats.totalVectors,
@@ -258,6 +447,7 @@ export class RAGService {
     } catch (error) {
       return { 
         success: false, 
+        backend: this.store.backend,
         index: this.indexName,
         namespace: this.namespace,
       };
@@ -265,32 +455,63 @@ export class RAGService {
   }
 
   /**
-   * Hybrid search with keyword + semantic matching
+   * Hybrid search: semantic (vector) and lexical (BM25) rankings merged by
+   * reciprocal rank fusion. Results carry their fused rank, and score is the
+   * fused score scaled so a document ranked first by both searches scores 1.
+   * When a resolved-ticket namespace is configured it is searched too, with its
+   * rankings scaled by resolvedTicketWeight so curated articles rank above it.
    */
-  async hybridSearch(query: string, keywords?: string[]): Promise<KnowledgeResult[]> {
-    // Semantic search
-    const semanticResults = await this.retrieve(query, { topK: 10, minScore: 0.5 });
+  async hybridSearch(
+    query: string,
+    keywords?: string[],
+    options: HybridSearchOptions & { topK?: number } = {}
+  ): Promise<KnowledgeResult[]> {
+    const { topK = 5, ...weights } = options;
+    const { rrfK, semanticWeight, lexicalWeight, resolvedTicketWeight } = { ...this.hybrid, ...weights };
+    const lexicalQuery = [query, ...(keywords || [])].join(' ');
 
-    if (!keywords || keywords.length === 0) {
-      return semanticResults.slice(0, 5);
+    const sources = [{ namespace: this.namespace, weight: 1 }];
+    if (this.resolvedNamespace && resolvedTicketWeight > 0) {
+      sources.push({ namespace: this.resolvedNamespace, weight: resolvedTicketWeight });
     }
 
-    // Boost results that contain keywords
-    const boosted = semanticResults.map(result => {
-      const keywordMatches = keywords.filter(kw => 
-        result.text.toLowerCase().includes(kw.toLowerCase()) ||
-        result.title?.toLowerCase().includes(kw.toLowerCase())
+    const rankings: Array<{ ids: string[]; weight: number }> = [];
+    const semanticById = new Map<string, KnowledgeResult>();
+    const lexicalById = new Map<string, KnowledgeResult>();
+
+    for (const { namespace, weight } of sources) {
+      // Semantic search
+      const semanticResults = await this.retrieve(query, { topK: 10, minScore: 0.5, namespace });
+
+      // Lexical search over chunks, grouped by document like the semantic results
+      const lexicalResults = this.groupByParent(
+        this.lexical.search(namespace, lexicalQuery, 10 * CHUNK_OVERSAMPLE)
+      ).slice(0, 10);
+
+      rankings.push(
+        { ids: semanticResults.map(r => r.id), weight: semanticWeight * weight },
+        { ids: lexicalResults.map(r => r.id), weight: lexicalWeight * weight },
       );
-      
+      semanticResults.forEach(r => semanticById.set(r.id, r));
+      lexicalResults.forEach(r => lexicalById.set(r.id, r));
+    }
+
+    const fused = reciprocalRankFusion(rankings, rrfK);
+    const maxScore = (semanticWeight + lexicalWeight) / (rrfK + 1);
+
+    return fused.slice(0, topK).map(({ id, score }, i) => {
+      const semantic = semanticById.get(id);
+      const lexical = lexicalById.get(id);
+      const base = (semantic || lexical)!;
+
       return {
-        ...result,
-        score: result.score + (keywordMatches.length * 0.1), // Boost by 10% per keyword match
+        ...base,
+        score: maxScore > 0 ? score / maxScore : 0,
+        fusedRank: i + 1,
+        semanticScore: semantic?.score,
+        lexicalScore: lexical?.score,
+        chunkIds: [...new Set([...(semantic?.chunkIds || []), ...(lexical?.chunkIds || [])])],
       };
     });
-
-    // Re-sort by boosted score
-    return boosted
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 5);
   }
 }
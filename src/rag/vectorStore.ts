@@ -0,0 +1,60 @@
+/**
+ * Vector store abstraction so the RAG pipeline can run against Pinecone
+ * or an in-process store (CI, air-gapped environments)
+ */
+
+export type MetadataValue = string | number | boolean | string[];
+
+export interface VectorMetadata {
+  text: string;
+  title: string;
+  category: string;
+  url: string;
+  lastUpdated: string;
+  [key: string]: MetadataValue;
+}
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata?: VectorMetadata;
+}
+
+/**
+ * Pinecone-style metadata filter, e.g. { category: 'billing' }
+ * or { lastUpdated: { $gte: '2024-01-01' }, $or: [...] }
+ */
+export type MetadataFilter = Record<string, unknown>;
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+}
+
+export interface VectorStoreStats {
+  totalVectors: number;
+  namespaces: Record<string, { vectorCount: number }>;
+  dimension: number;
+}
+
+export interface VectorStore {
+  /** Backend name, reported in stats and health checks */
+  readonly backend: string;
+
+  upsert(namespace: string, records: VectorRecord[]): Promise<void>;
+  query(namespace: string, query: VectorQuery): Promise<VectorMatch[]>;
+  deleteMany(namespace: string, ids: string[]): Promise<void>;
+  /** List record ids starting with prefix (used to find every chunk of a document) */
+  listIds(namespace: string, prefix: string): Promise<string[]>;
+  /** Fetch records by id; ids that aren't stored are left out */
+  fetch(namespace: string, ids: string[]): Promise<VectorRecord[]>;
+  deleteAll(namespace: string): Promise<void>;
+  stats(): Promise<VectorStoreStats>;
+}
@@ -0,0 +1,129 @@
+import { ZendeskClient } from './zendesk/client';
+import { LLMOrchestrator } from './llm/orchestrator';
+import { UsageTracker } from './llm/usage';
+import { BudgetGuard } from './llm/budget';
+import { AutoReplyPolicy } from './automation/autoReply';
+import { RulesEngine } from './automation/rulesEngine';
+import { RAGService } from './rag/service';
+import { TicketProcessor } from './processor';
+import { DedupStore } from './queue/dedupStore';
+import { PIIDetector } from './utils/pii';
+import { InjectionGuard } from './llm/injectionGuard';
+import { GroundingVerifier } from './llm/groundingVerifier';
+import { PromptRegistry } from './llm/prompts';
+import { Taxonomy } from './utils/taxonomy';
+import { AppConfig, ProcessingResult } from './types';
+
+/**
+ * Build the Zendesk client, LLM and RAG services and the ticket processor from
+ * configuration. Shared by the server and the command line tools.
+ */
+export function createServices(config: AppConfig) {
+  const zendesk = new ZendeskClient({
+    subdomain: config.zendesk.subdomain,
+    email: config.zendesk.email,
+    token: config.zendesk.token,
+    baseUrl: config.zendesk.baseUrl,
+    requestsPerMinute: config.zendesk.requestsPerMinute,
+    maxRetries: config.zendesk.maxRetries,
+  });
+
+  const usageTracker = new UsageTracker({
+    ledgerPath: config.usage.ledgerPath,
+    prices: config.usage.prices,
+  });
+
+  const budgetGuard = new BudgetGuard(config.budget, { usage: usageTracker });
+
+  const pii = config.privacy.redactPII
+    ? new PIIDetector({ types: config.privacy.piiTypes, customPatterns: config.privacy.customPatterns })
+    : undefined;
+
+  const taxonomy = config.taxonomy.path
+    ? Taxonomy.fromFile(config.taxonomy.path)
+    : new Taxonomy();
+  taxonomy.check(config.autoReply.categories, 'AUTO_REPLY_CATEGORIES');
+
+  const prompts = new PromptRegistry({ dir: config.prompts.dir, statePath: config.prompts.statePath, taxonomy });
+
+  const llm = new LLMOrchestrator({
+    provider: config.llm.provider,
+    apiKey: config.llm.apiKey,
+    model: config.llm.model,
+    baseUrl: config.llm.baseUrl,
+    mockFixturesPath: config.llm.mockFixturesPath,
+    fallbacks: config.llm.fallbacks,
+    routes: config.llm.routes,
+    timeoutMs: config.llm.timeoutMs,
+    circuitBreaker: config.llm.circuitBreaker,
+  }, { usage: usageTracker, budget: budgetGuard, pii, prompts, taxonomy });
+
+  const rag = new RAGService({
+    backend: config.rag.backend,
+    pineconeApiKey: config.rag.pineconeApiKey,
+    indexName: config.rag.indexName,
+    openaiApiKey: config.rag.openaiApiKey,
+    namespace: config.rag.namespace,
+    localStorePath: config.rag.localStorePath,
+    embeddingProvider: config.rag.embeddingProvider,
+    embeddingModel: config.rag.embeddingModel,
+    embeddingDimension: config.rag.embeddingDimension,
+    chunking: config.rag.chunking,
+    lexicalIndexPath: config.rag.lexicalIndexPath,
+    hybrid: config.rag.hybrid,
+    resolvedNamespace: config.rag.resolvedNamespace,
+  }, { usage: usageTracker, pii });
+
+  const injectionGuard = config.injection.enabled
+    ? new InjectionGuard({ threshold: config.injection.threshold, llmClassifier: config.injection.llmClassifier }, { llm })
+    : undefined;
+
+  const groundingVerifier = config.grounding.enabled
+    ? new GroundingVerifier({ method: config.grounding.method, minScore: config.grounding.minScore }, { llm })
+    : undefined;
+
+  const dedupStore = new DedupStore<ProcessingResult>({
+    ttlMs: config.dedup.ttlSeconds * 1000,
+  });
+
+  const autoReplyPolicy = new AutoReplyPolicy(config.autoReply);
+
+  const rulesEngine = config.routing.rulesPath
+    ? RulesEngine.fromFile(config.routing.rulesPath)
+    : undefined;
+
+  const processor = new TicketProcessor(zendesk, llm, rag, {
+    addDraftToTicket: true,
+    addTagsToTicket: true,
+    categoryFieldId: config.zendesk.categoryFieldId,
+    taxonomy,
+    dedupStore,
+    useConversation: config.processing.useConversation,
+    summarizeThreadAfter: config.processing.summarizeThreadAfter,
+    combinedAnalysis: config.processing.combinedAnalysis,
+    usageTracker,
+    budgetGuard,
+    autoReply: autoReplyPolicy,
+    rulesEngine,
+    pii,
+    injectionGuard,
+    groundingVerifier,
+  });
+
+  return {
+    zendesk,
+    usageTracker,
+    budgetGuard,
+    pii,
+    taxonomy,
+    prompts,
+    llm,
+    rag,
+    injectionGuard,
+    groundingVerifier,
+    dedupStore,
+    autoReplyPolicy,
+    rulesEngine,
+    processor,
+  };
+}
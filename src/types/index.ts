@@ -15,6 +15,7 @@ export interface ZendeskTicket {
   created_at: string;
   updated_at: string;
   custom_fields: Array<{ id: number; value: string | null }>;
+  brand_id?: number;
 }
 
 export interface ZendeskRequester {
@@ -32,6 +33,8 @@ export interface ZendeskWebhookPayload {
     priority: string;
     tags: string[];
     requester: ZendeskRequester;
+    updated_at?: string;
+    brand_id?: number;
   };
   current_user?: {
     id: number;
@@ -47,26 +50,123 @@ export interface TicketUpdate {
   tags?: string[];
   custom_fields?: Array<{ id: number; value: string }>;
   assignee_id?: number;
+  group_id?: number;
+  additional_tags?: string[];  // Added to the ticket's tags (tags replaces them)
+  safe_update?: boolean;       // Reject with 409 if the ticket changed since updated_stamp
+  updated_stamp?: string;
+}
+
+export interface HelpCenterArticle {
+  id: number;
+  title: string;
+  body: string | null;
+  locale: string;
+  section_id: number;
+  draft: boolean;
+  html_url: string;
+  label_names?: string[];
+  updated_at: string;
 }
 
 // LLM Types
-export type LLMProvider = 'openai' | 'anthropic';
-
-export const TICKET_CATEGORIES = [
-  'billing',
-  'technical_support', 
-  'account_management',
-  'feature_request',
-  'bug_report',
-  'general_inquiry',
-  'cancellation',
-  'refund',
-  'onboarding',
-  'integration',
-  'security',
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'openai_compatible', 'mock'] as const;
+export type LLMProvider = typeof LLM_PROVIDERS[number];
+
+export const LLM_TASKS = [
+  'categorize',
+  'extractIntent',
+  'analyzeTicket',
+  'generateDraft',
+  'summarizeThread',
+  'detectInjection',
+  'verifyGrounding',
 ] as const;
+export type LLMTask = typeof LLM_TASKS[number];
+
+export interface LLMProviderConfig {
+  provider: LLMProvider;
+  apiKey: string;
+  model?: string;            // Provider default model
+  baseUrl?: string;          // openai_compatible: server URL, e.g. http://localhost:8000/v1
+  fixturesPath?: string;     // mock: JSON fixture file
+}
+
+/**
+ * A provider (and optionally a model) to try for a task; routes list these in order
+ */
+export interface LLMTarget {
+  provider: LLMProvider;
+  model?: string;
+}
+
+// Usage Types
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  costUsd: number;
+}
 
-export type TicketCategory = typeof TICKET_CATEGORIES[number];
+/**
+ * Token usage and cost of one ticket run, per pipeline step
+ */
+export interface UsageBreakdown {
+  total: UsageTotals;
+  steps: Record<string, UsageTotals>;
+}
+
+// Budget Types
+export const BUDGET_ACTIONS = ['skip_draft', 'cheaper_model', 'pause'] as const;
+export type BudgetAction = typeof BUDGET_ACTIONS[number];
+
+/**
+ * Spend limits for one tenant; unset limits are unlimited
+ */
+export interface BudgetLimits {
+  dailyTokens?: number;
+  monthlyTokens?: number;
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+// Path of a category in the taxonomy, e.g. "billing" or "billing/invoices"
+export type TicketCategory = string;
+
+/**
+ * A category as written in the taxonomy file; children make it a parent
+ */
+export interface TaxonomyNode {
+  id: string;                // Lowercase letters, digits and _
+  description?: string;
+  examples?: string[];       // Example tickets, shown to the model
+  fieldValue?: string;       // Zendesk dropdown option value (default: the path with / replaced by __)
+  children?: TaxonomyNode[];
+}
+
+export interface TaxonomyCategory {
+  path: TicketCategory;
+  parent?: TicketCategory;
+  description?: string;
+  examples: string[];
+  fieldValue: string;
+}
+
+export interface CategoryPrediction {
+  category: TicketCategory;
+  path: string[];            // Category ids from the top level down
+  confidence: number;
+}
 
 export type UrgencyLevel = 'low' | 'medium' | 'high' | 'critical';
 
@@ -83,6 +183,20 @@ export interface CategorizeInput {
   tags?: string[];
 }
 
+export interface AnalyzeInput extends CategorizeInput {
+  latestMessage?: string;    // Customer's most recent reply, when the ticket has a thread
+  threadSummary?: string;    // Earlier conversation
+}
+
+/**
+ * Category, intent and language from a single combined analysis call
+ */
+export interface TicketAnalysis extends IntentAnalysis {
+  category: TicketCategory;
+  categoryConfidence: number;
+  language: string;          // ISO 639-1 code of the customer's language
+}
+
 export interface DraftInput {
   subject: string;
   description: string;
@@ -90,6 +204,8 @@ export interface DraftInput {
   context: KnowledgeResult[];
   category?: TicketCategory;
   sentiment?: string;
+  latestMessage?: string;    // Customer's most recent reply, when the ticket has a thread
+  threadSummary?: string;    // Earlier conversation (summarized for long threads)
 }
 
 export interface DraftResponse {
@@ -100,7 +216,129 @@ export interface DraftResponse {
   reasoning: string;
 }
 
+// Grounding Types
+export const GROUNDING_METHODS = ['lexical', 'llm'] as const;
+export type GroundingMethod = typeof GROUNDING_METHODS[number];
+
+export interface GroundedClaim {
+  text: string;
+  supported: boolean;
+  sourceId?: string;         // Knowledge result that backs the claim
+}
+
+/**
+ * An inline [n] citation in a draft, resolved to the knowledge result it names
+ */
+export interface DraftCitation {
+  marker: number;
+  id?: string;               // Unset when n doesn't name a retrieved article
+  title?: string;
+  url?: string;
+}
+
+/**
+ * How well a draft is backed by the retrieved knowledge
+ */
+export interface GroundingReport {
+  method: GroundingMethod;
+  score: number;             // Share of claims supported (1 when the draft makes none)
+  claims: GroundedClaim[];
+  unsupportedClaims: string[];
+  citations: DraftCitation[];
+}
+
+// Prompt Template Types
+export const PROMPT_NAMES = [
+  'categorize',
+  'extractIntent',
+  'analyzeTicket',
+  'generateDraft',
+  'summarizeThread',
+  'summarizeResolution',
+  'detectInjection',
+  'verifyGrounding',
+] as const;
+export type PromptName = typeof PROMPT_NAMES[number];
+
+/**
+ * Which tickets a template applies to: all of them, or only one category or brand
+ */
+export interface PromptScope {
+  category?: string;
+  brand?: string;            // Zendesk brand id
+}
+
+export interface PromptVersionInfo {
+  version: number;
+  description?: string;
+  active: boolean;
+}
+
+export interface PromptTemplateInfo {
+  name: PromptName;
+  override?: string;         // "category:billing", "brand:360001"; unset for the default
+  variables: string[];
+  versions: PromptVersionInfo[];
+}
+
+/**
+ * The template version a prompt was rendered from
+ */
+export interface PromptUsage {
+  version: number;
+  override?: string;
+}
+
+// Auto-reply Types
+export const AUTO_REPLY_MODES = ['off', 'shadow', 'live'] as const;
+export type AutoReplyMode = typeof AUTO_REPLY_MODES[number];
+
+/**
+ * What happened to a draft under auto-reply: published, would have been
+ * published (shadow mode), or held back by a gate
+ */
+export type AutoReplyAction = 'sent' | 'shadow' | 'blocked' | 'failed';
+
+export interface AutoReplyOutcome {
+  mode: AutoReplyMode;
+  action: AutoReplyAction;
+  reasons: string[];         // Gates that failed (blocked), or the send error (failed)
+}
+
+// Privacy Types
+export const PII_TYPES = ['email', 'url', 'card', 'iban', 'ip', 'phone', 'address'] as const;
+export type PIIType = typeof PII_TYPES[number];
+
+/**
+ * Personal data redacted from a ticket's provider calls. Counts are of
+ * distinct values; the values themselves are never reported.
+ */
+export interface RedactionReport {
+  total: number;
+  byType: Record<string, number>;   // Built-in or custom pattern type -> values
+  occurrences: number;              // Replacements across every LLM and embedding call
+}
+
+// Prompt Injection Types
+/**
+ * The LLM classifier's verdict on a ticket's text
+ */
+export interface InjectionClassification {
+  injection: boolean;
+  confidence: number;        // 0-1
+  reason: string;
+}
+
+export interface InjectionAssessment {
+  score: number;             // 0-1, the higher of the heuristic and classifier scores
+  flagged: boolean;          // score reached the threshold
+  signals: string[];         // Heuristics that matched
+  classifier?: InjectionClassification;
+}
+
 // RAG Types
+export type KnowledgeSource = 'manual' | 'help_center' | 'resolved_ticket';
+
 export interface KnowledgeDocument {
   id: string;
   title: string;
@@ -108,33 +346,84 @@ export interface KnowledgeDocument {
   category?: string;
   url?: string;
   lastUpdated?: string;
+  source?: KnowledgeSource;
   metadata?: Record<string, unknown>;
 }
 
 export interface KnowledgeResult {
-  id: string;
-  text: string;
+  id: string;                // Parent document id
+  text: string;              // Best matching chunks, in document order
   title?: string;
   score: number;
   url?: string;
+  source?: KnowledgeSource;
+  chunkIds?: string[];       // Chunks that matched the query
+  fusedRank?: number;        // 1-based rank after reciprocal rank fusion (hybrid search)
+  semanticScore?: number;    // Cosine similarity of the best chunk
+  lexicalScore?: number;     // BM25 score of the best chunk
 }
 
+export interface HybridSearchOptions {
+  rrfK?: number;             // Reciprocal rank fusion constant
+  semanticWeight?: number;
+  lexicalWeight?: number;
+  resolvedTicketWeight?: number;  // Scales resolved-ticket rankings (0 excludes them)
+}
+
+export const CHUNK_STRATEGIES = ['heading', 'paragraph', 'token'] as const;
+export type ChunkStrategy = typeof CHUNK_STRATEGIES[number];
+
+export interface ChunkingOptions {
+  strategy?: ChunkStrategy;
+  maxTokens?: number;        // Approximate tokens (words) per chunk
+  overlapTokens?: number;    // Overlap between token windows
+}
+
+export const RAG_BACKENDS = ['pinecone', 'local'] as const;
+export type RAGBackend = typeof RAG_BACKENDS[number];
+
+export const EMBEDDING_PROVIDERS = ['openai', 'local'] as const;
+export type EmbeddingProviderName = typeof EMBEDDING_PROVIDERS[number];
+
 export interface RAGConfig {
-  pineconeApiKey: string;
+  backend?: RAGBackend;
+  pineconeApiKey?: string;
   indexName: string;
+  localStorePath?: string;   // JSON file for the local backend (in-memory if omitted)
   openaiApiKey?: string;
+  embeddingProvider?: EmbeddingProviderName;
+  embeddingModel?: string;
+  embeddingDimension?: number;
   namespace?: string;
+  chunking?: ChunkingOptions;
+  lexicalIndexPath?: string; // JSON file for the BM25 index (in-memory if omitted)
+  hybrid?: HybridSearchOptions;
+  resolvedNamespace?: string;  // Namespace holding summaries of solved tickets
 }
 
 // Processing Types
 export interface ProcessingResult {
   ticketId: number;
   category: TicketCategory;
+  categoryConfidence?: number;
   intent: IntentAnalysis;
+  language?: string;         // Set by combined analysis
   relevantKnowledge: KnowledgeResult[];
   draftResponse: DraftResponse | null;
   processingTimeMs: number;
   error?: string;
+  errorCode?: string;
+  duplicate?: boolean;       // Served from the dedup cache
+  usage?: UsageBreakdown;    // LLM and embedding usage of this run
+  budgetAction?: BudgetAction; // Applied because the tenant's budget ran out
+  resumeAt?: string;         // With budgetAction pause: when the tenant's budget resets
+  autoReply?: AutoReplyOutcome;
+  matchedRules?: string[];   // Routing rules applied to the ticket
+  dryRun?: boolean;          // Categorized only, nothing written to Zendesk
+  redaction?: RedactionReport; // PII kept from LLM and embedding providers
+  injection?: InjectionAssessment; // Prompt injection screening of the customer's text
+  grounding?: GroundingReport; // Draft claims checked against relevantKnowledge
+  prompts?: Partial<Record<PromptName, PromptUsage>>; // Template versions used
 }
 
 // API Response Types
@@ -153,13 +442,99 @@ export interface AppConfig {
     token: string;
     webhookSecret?: string;
     categoryFieldId?: number;
+    baseUrl?: string;
+    requestsPerMinute: number;      // Initial request pacing; resized from X-Rate-Limit
+    maxRetries: number;             // Retries of rate-limited idempotent requests
+  };
+  helpCenter: {
+    locales: string[];
+    sectionIds?: number[];
+    statePath?: string;
+  };
+  resolvedTickets: {
+    statePath?: string;
+    maxTickets: number;       // Solved tickets indexed per run
   };
   llm: {
     provider: LLMProvider;
     apiKey: string;
     model?: string;
+    baseUrl?: string;                // For openai_compatible
+    mockFixturesPath?: string;       // For mock
+    fallbacks: LLMProviderConfig[];  // Tried in order when the primary fails
+    routes: Partial<Record<LLMTask, LLMTarget[]>>;
+    timeoutMs: number;
+    circuitBreaker: {
+      failureThreshold: number;
+      resetTimeoutMs: number;
+    };
   };
   rag: RAGConfig;
+  usage: {
+    ledgerPath?: string;                 // JSONL file with one line per LLM/embedding call
+    prices: Record<string, ModelPrice>;  // Model name (or prefix) -> price
+  };
+  budget: {
+    limits: BudgetLimits;                   // Default for every tenant
+    tenants: Record<string, BudgetLimits>;  // Per Zendesk brand id
+    action: BudgetAction;                   // What happens once a limit is reached
+    cheaperModel?: LLMTarget;               // For the cheaper_model action
+    warnThreshold: number;                  // Fraction of a limit that triggers a warning
+    statePath?: string;
+  };
+  taxonomy: {
+    path?: string;                  // JSON or YAML categories (built-in flat list if unset)
+  };
+  routing: {
+    rulesPath?: string;             // JSON or YAML routing rules
+  };
+  injection: {
+    enabled: boolean;
+    threshold: number;              // Score at which a ticket is flagged
+    llmClassifier: boolean;         // Also ask the LLM (one extra call per ticket)
+  };
+  prompts: {
+    dir: string;                    // <name>/v<n>.md, plus category/ and brand/ overrides
+    statePath: string;              // Versions activated through the admin API
+  };
+  grounding: {
+    enabled: boolean;
+    method: GroundingMethod;
+    minScore: number;               // Below this, confidence is lowered and the note warns
+  };
+  privacy: {
+    redactPII: boolean;             // Replace PII with placeholders before provider calls
+    piiTypes: PIIType[];            // Built-in patterns to apply
+    customPatterns: Array<{ type: string; pattern: string }>;
+  };
+  autoReply: {
+    mode: AutoReplyMode;
+    categories: TicketCategory[];   // Allowlist
+    minConfidence: number;
+    minSources: number;             // Knowledge base articles that must back the draft
+    minSourceScore: number;
+    tag: string;                    // Added to tickets that were answered automatically
+    auditPath?: string;
+  };
+  processing: {
+    combinedAnalysis: boolean;     // One analyzeTicket call instead of categorize + extractIntent
+    useConversation: boolean;
+    summarizeThreadAfter: number;  // Public messages before a thread is summarized
+  };
+  dedup: {
+    ttlSeconds: number;
+  };
+  queue: {
+    filePath?: string;
+    concurrency: number;
+    maxAttempts: number;
+    baseBackoffMs: number;
+    completedTtlMs: number;         // Completed jobs are removed after this (0 keeps them)
+  };
+  backfill: {
+    statePath?: string;             // Progress of the last backfill, for resuming
+    concurrency: number;
+  };
   server: {
     port: number;
     nodeEnv: string;
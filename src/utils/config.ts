@@ -1,5 +1,30 @@
 import { config as dotenvConfig } from 'dotenv';
-import { AppConfig, LLMProvider } from '../types';
+import {
+  AppConfig,
+  AutoReplyMode,
+  AUTO_REPLY_MODES,
+  TicketCategory,
+  BudgetAction,
+  BudgetLimits,
+  BUDGET_ACTIONS,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMTarget,
+  LLMTask,
+  ModelPrice,
+  LLM_PROVIDERS,
+  LLM_TASKS,
+  PIIType,
+  PII_TYPES,
+  GroundingMethod,
+  GROUNDING_METHODS,
+  RAGBackend,
+  RAG_BACKENDS,
+  EmbeddingProviderName,
+  EMBEDDING_PROVIDERS,
+  ChunkStrategy,
+  CHUNK_STRATEGIES,
+} from '../types';
 
 // Load environment variables
 dotenvConfig();
@@ -7,7 +32,7 @@ dotenvConfig();
 /**
  * Validate and load application configuration from environment variables
  */
-function loadConfig(): AppConfig {
+export function loadConfig(): AppConfig {
   const missingVars: string[] = [];
 
   const required = (name: string, defaultValue?: string): string => {
@@ -23,10 +48,88 @@ function loadConfig(): AppConfig {
     return process.env[name] || defaultValue;
   };
 
+  // Credentials and endpoint for each provider type
+  const llmProviderSettings = (provider: LLMProvider): Omit<LLMProviderConfig, 'provider' | 'model'> => {
+    switch (provider) {
+      case 'openai':
+        return { apiKey: required('OPENAI_API_KEY') };
+      case 'anthropic':
+        return { apiKey: required('ANTHROPIC_API_KEY') };
+      case 'openai_compatible':
+        return { apiKey: optional('LLM_API_KEY', 'not-needed'), baseUrl: required('LLM_BASE_URL') };
+      case 'mock':
+        return { apiKey: '', fixturesPath: required('LLM_MOCK_FIXTURES') };
+    }
+  };
+
   const llmProvider = (process.env.LLM_PROVIDER || 'openai') as LLMProvider;
-  const llmApiKey = llmProvider === 'openai' 
-    ? required('OPENAI_API_KEY')
-    : required('ANTHROPIC_API_KEY');
+  if (!LLM_PROVIDERS.includes(llmProvider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${llmProvider}" (expected one of ${LLM_PROVIDERS.join(', ')})`);
+  }
+  const llmSettings = llmProviderSettings(llmProvider);
+
+  // Fallback chain, e.g. LLM_FALLBACKS=anthropic:claude-3-haiku-20240307
+  const llmFallbacks = parseTargets(optional('LLM_FALLBACKS'))
+    .filter(t => t.provider !== llmProvider)
+    .map(t => ({ ...t, ...llmProviderSettings(t.provider) }));
+
+  // Per-task routes may only use providers in the chain
+  const llmRoutes = parseRoutes(optional('LLM_ROUTES'));
+  const chainProviders = [llmProvider, ...llmFallbacks.map(f => f.provider)];
+  for (const [task, targets] of Object.entries(llmRoutes)) {
+    const unknown = targets.find(t => !chainProviders.includes(t.provider));
+    if (unknown) {
+      throw new Error(`LLM_ROUTES: ${task} uses "${unknown.provider}", which is not LLM_PROVIDER or in LLM_FALLBACKS`);
+    }
+  }
+
+  // Budget action when a limit is reached; cheaper_model needs a model in the chain
+  const budgetAction = (process.env.BUDGET_ACTION || 'skip_draft') as BudgetAction;
+  if (!BUDGET_ACTIONS.includes(budgetAction)) {
+    throw new Error(`Unknown BUDGET_ACTION "${budgetAction}" (expected one of ${BUDGET_ACTIONS.join(', ')})`);
+  }
+  const [budgetCheaperModel] = parseTargets(optional('BUDGET_CHEAPER_MODEL'));
+  if (budgetAction === 'cheaper_model' && !budgetCheaperModel) {
+    throw new Error('BUDGET_ACTION=cheaper_model requires BUDGET_CHEAPER_MODEL (provider:model)');
+  }
+  if (budgetCheaperModel && !chainProviders.includes(budgetCheaperModel.provider)) {
+    throw new Error(`BUDGET_CHEAPER_MODEL uses "${budgetCheaperModel.provider}", which is not LLM_PROVIDER or in LLM_FALLBACKS`);
+  }
+
+  const autoReplyMode = (process.env.AUTO_REPLY_MODE || 'off') as AutoReplyMode;
+  if (!AUTO_REPLY_MODES.includes(autoReplyMode)) {
+    throw new Error(`Unknown AUTO_REPLY_MODE "${autoReplyMode}" (expected one of ${AUTO_REPLY_MODES.join(', ')})`);
+  }
+  // Checked against the taxonomy when services are created
+  const autoReplyCategories = optional('AUTO_REPLY_CATEGORIES').split(',').map(c => c.trim()).filter(Boolean);
+
+  const groundingMethod = (process.env.GROUNDING_METHOD || 'lexical') as GroundingMethod;
+  if (!GROUNDING_METHODS.includes(groundingMethod)) {
+    throw new Error(`Unknown GROUNDING_METHOD "${groundingMethod}" (expected one of ${GROUNDING_METHODS.join(', ')})`);
+  }
+
+  const piiTypes = (process.env.PII_TYPES ? process.env.PII_TYPES.split(',') : [...PII_TYPES])
+    .map(t => t.trim())
+    .filter(Boolean) as PIIType[];
+  const unknownPiiType = piiTypes.find(t => !PII_TYPES.includes(t));
+  if (unknownPiiType) {
+    throw new Error(`Unknown PII type "${unknownPiiType}" in PII_TYPES (expected one of ${PII_TYPES.join(', ')})`);
+  }
+
+  const ragBackend = (process.env.RAG_BACKEND || 'pinecone') as RAGBackend;
+  if (!RAG_BACKENDS.includes(ragBackend)) {
+    throw new Error(`Unknown RAG_BACKEND "${ragBackend}" (expected one of ${RAG_BACKENDS.join(', ')})`);
+  }
+
+  const embeddingProvider = (process.env.EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderName;
+  if (!EMBEDDING_PROVIDERS.includes(embeddingProvider)) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${embeddingProvider}" (expected one of ${EMBEDDING_PROVIDERS.join(', ')})`);
+  }
+
+  const chunkStrategy = (process.env.RAG_CHUNK_STRATEGY || 'heading') as ChunkStrategy;
+  if (!CHUNK_STRATEGIES.includes(chunkStrategy)) {
+    throw new Error(`Unknown RAG_CHUNK_STRATEGY "${chunkStrategy}" (expected one of ${CHUNK_STRATEGIES.join(', ')})`);
+  }
 
   const config: AppConfig = {
     zendesk: {
@@ -37,17 +140,130 @@ function loadConfig(): AppConfig {
       categoryFieldId: process.env.ZENDESK_CATEGORY_FIELD_ID 
         ? parseInt(process.env.ZENDESK_CATEGORY_FIELD_ID, 10) 
         : undefined,
+      baseUrl: optional('ZENDESK_BASE_URL') || undefined,
+      requestsPerMinute: parseInt(process.env.ZENDESK_RATE_LIMIT_RPM || '200', 10),
+      maxRetries: parseInt(process.env.ZENDESK_MAX_RETRIES || '3', 10),
+    },
+    helpCenter: {
+      locales: optional('HELP_CENTER_LOCALES', 'en-us').split(',').map(l => l.trim()).filter(Boolean),
+      sectionIds: process.env.HELP_CENTER_SECTION_IDS
+        ? process.env.HELP_CENTER_SECTION_IDS.split(',').map(id => parseInt(id, 10))
+        : undefined,
+      statePath: optional('HELP_CENTER_SYNC_STATE', './data/help-center-sync.json'),
     },
     llm: {
       provider: llmProvider,
-      apiKey: llmApiKey,
+      apiKey: llmSettings.apiKey,
       model: optional('LLM_MODEL'),
+      baseUrl: llmSettings.baseUrl,
+      mockFixturesPath: llmSettings.fixturesPath,
+      fallbacks: llmFallbacks,
+      routes: llmRoutes,
+      timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '60000', 10),
+      circuitBreaker: {
+        failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '3', 10),
+        resetTimeoutMs: parseInt(process.env.LLM_CIRCUIT_RESET_MS || '30000', 10),
+      },
     },
     rag: {
-      pineconeApiKey: required('PINECONE_API_KEY'),
+      backend: ragBackend,
+      pineconeApiKey: ragBackend === 'pinecone' ? required('PINECONE_API_KEY') : optional('PINECONE_API_KEY'),
       indexName: required('PINECONE_INDEX', 'zendesk-knowledge'),
       openaiApiKey: optional('OPENAI_API_KEY'), // For embeddings
       namespace: optional('PINECONE_NAMESPACE', 'default'),
+      localStorePath: optional('RAG_LOCAL_STORE_PATH', './data/vectors.json'),
+      embeddingProvider,
+      embeddingModel: optional('EMBEDDING_MODEL') || undefined,
+      embeddingDimension: process.env.EMBEDDING_DIMENSION
+        ? parseInt(process.env.EMBEDDING_DIMENSION, 10)
+        : undefined,
+      chunking: {
+        strategy: chunkStrategy,
+        maxTokens: parseInt(process.env.RAG_CHUNK_MAX_TOKENS || '400', 10),
+        overlapTokens: parseInt(process.env.RAG_CHUNK_OVERLAP_TOKENS || '50', 10),
+      },
+      lexicalIndexPath: optional('RAG_LEXICAL_INDEX_PATH', './data/lexical-index.json'),
+      hybrid: {
+        rrfK: parseInt(process.env.RAG_RRF_K || '60', 10),
+        semanticWeight: parseFloat(process.env.RAG_SEMANTIC_WEIGHT || '1'),
+        lexicalWeight: parseFloat(process.env.RAG_LEXICAL_WEIGHT || '1'),
+        resolvedTicketWeight: parseFloat(process.env.RAG_RESOLVED_TICKET_WEIGHT || '0.5'),
+      },
+      resolvedNamespace: optional('RAG_RESOLVED_NAMESPACE', 'resolved_tickets'),
+    },
+    usage: {
+      ledgerPath: optional('USAGE_LEDGER_PATH', './data/usage.jsonl'),
+      prices: parsePrices(optional('USAGE_PRICES')),
+    },
+    budget: {
+      limits: {
+        dailyTokens: parseLimit(process.env.BUDGET_DAILY_TOKENS),
+        monthlyTokens: parseLimit(process.env.BUDGET_MONTHLY_TOKENS),
+        dailyUsd: parseLimit(process.env.BUDGET_DAILY_USD),
+        monthlyUsd: parseLimit(process.env.BUDGET_MONTHLY_USD),
+      },
+      tenants: parseTenantBudgets(optional('BUDGET_TENANTS')),
+      action: budgetAction,
+      cheaperModel: budgetCheaperModel,
+      warnThreshold: parseFloat(process.env.BUDGET_WARN_THRESHOLD || '0.8'),
+      statePath: optional('BUDGET_STATE_PATH', './data/budget.json'),
+    },
+    taxonomy: {
+      path: optional('TAXONOMY_PATH') || undefined,
+    },
+    routing: {
+      rulesPath: optional('ROUTING_RULES_PATH') || undefined,
+    },
+    injection: {
+      enabled: process.env.INJECTION_GUARD !== 'false',
+      threshold: parseFloat(process.env.INJECTION_THRESHOLD || '0.5'),
+      llmClassifier: process.env.INJECTION_LLM_CLASSIFIER === 'true',
+    },
+    prompts: {
+      dir: optional('PROMPTS_DIR', './prompts'),
+      statePath: optional('PROMPT_STATE_PATH', './data/prompts.json'),
+    },
+    grounding: {
+      enabled: process.env.GROUNDING_CHECK !== 'false',
+      method: groundingMethod,
+      minScore: parseFloat(process.env.GROUNDING_MIN_SCORE || '0.6'),
+    },
+    privacy: {
+      redactPII: process.env.PII_REDACTION !== 'false',
+      piiTypes,
+      customPatterns: parseCustomPatterns(optional('PII_CUSTOM_PATTERNS')),
+    },
+    autoReply: {
+      mode: autoReplyMode,
+      categories: autoReplyCategories as TicketCategory[],
+      minConfidence: parseFloat(process.env.AUTO_REPLY_MIN_CONFIDENCE || '0.9'),
+      minSources: parseInt(process.env.AUTO_REPLY_MIN_SOURCES || '1', 10),
+      minSourceScore: parseFloat(process.env.AUTO_REPLY_MIN_SOURCE_SCORE || '0.5'),
+      tag: optional('AUTO_REPLY_TAG', 'ai_auto_replied'),
+      auditPath: optional('AUTO_REPLY_AUDIT_PATH', './data/auto-replies.jsonl'),
+    },
+    resolvedTickets: {
+      statePath: optional('RESOLVED_TICKETS_SYNC_STATE', './data/resolved-tickets-sync.json'),
+      maxTickets: parseInt(process.env.RESOLVED_TICKETS_MAX || '200', 10),
+    },
+    processing: {
+      combinedAnalysis: process.env.LLM_COMBINED_ANALYSIS !== 'false',
+      useConversation: process.env.PROCESS_USE_CONVERSATION !== 'false',
+      summarizeThreadAfter: parseInt(process.env.THREAD_SUMMARY_AFTER_MESSAGES || '4', 10),
+    },
+    dedup: {
+      ttlSeconds: parseInt(process.env.DEDUP_TTL_SECONDS || '3600', 10),
+    },
+    queue: {
+      filePath: optional('JOB_QUEUE_FILE', './data/jobs.json'),
+      concurrency: parseInt(process.env.JOB_QUEUE_CONCURRENCY || '2', 10),
+      maxAttempts: parseInt(process.env.JOB_QUEUE_MAX_ATTEMPTS || '5', 10),
+      baseBackoffMs: parseInt(process.env.JOB_QUEUE_BACKOFF_MS || '2000', 10),
+      completedTtlMs: parseInt(process.env.JOB_QUEUE_COMPLETED_TTL_HOURS || '24', 10) * 60 * 60 * 1000,
+    },
+    backfill: {
+      statePath: optional('BACKFILL_STATE_PATH', './data/backfill.json'),
+      concurrency: parseInt(process.env.BACKFILL_CONCURRENCY || '3', 10),
     },
     server: {
       port: parseInt(process.env.PORT || '3000', 10),
@@ -68,4 +284,116 @@ function loadConfig(): AppConfig {
   return config;
 }
 
+/**
+ * Parse "provider[:model],..." into targets
+ */
+function parseTargets(value: string): LLMTarget[] {
+  return value
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const [provider, ...model] = part.split(':');
+      if (!LLM_PROVIDERS.includes(provider as LLMProvider)) {
+        throw new Error(`Unknown LLM provider "${provider}" in "${value}"`);
+      }
+      return { provider: provider as LLMProvider, model: model.join(':') || undefined };
+    });
+}
+
+/**
+ * Parse LLM_ROUTES, e.g. "categorize=openai:gpt-4o-mini;generateDraft=anthropic:claude-3-5-sonnet-20240620,openai:gpt-4o"
+ */
+function parseRoutes(value: string): Partial<Record<LLMTask, LLMTarget[]>> {
+  const routes: Partial<Record<LLMTask, LLMTarget[]>> = {};
+
+  for (const entry of value.split(';').map(e => e.trim()).filter(Boolean)) {
+    const [task, targets] = entry.split('=');
+    if (!LLM_TASKS.includes(task as LLMTask)) {
+      throw new Error(`Unknown LLM task "${task}" in LLM_ROUTES (expected one of ${LLM_TASKS.join(', ')})`);
+    }
+    routes[task as LLMTask] = parseTargets(targets || '');
+  }
+
+  return routes;
+}
+
+const TENANT_LIMIT_KEYS: Record<string, keyof BudgetLimits> = {
+  daily_tokens: 'dailyTokens',
+  monthly_tokens: 'monthlyTokens',
+  daily_usd: 'dailyUsd',
+  monthly_usd: 'monthlyUsd',
+};
+
+/**
+ * An optional budget limit; empty means unlimited
+ */
+function parseLimit(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const limit = parseFloat(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    throw new Error(`Invalid budget limit "${value}"`);
+  }
+  return limit;
+}
+
+/**
+ * Parse BUDGET_TENANTS, e.g. "360000123=daily_usd:5,monthly_usd:100;360000456=daily_tokens:200000"
+ * (tenants are Zendesk brand ids)
+ */
+function parseTenantBudgets(value: string): Record<string, BudgetLimits> {
+  const tenants: Record<string, BudgetLimits> = {};
+
+  for (const entry of value.split(';').map(e => e.trim()).filter(Boolean)) {
+    const [tenant, limits] = entry.split('=');
+    const budget: BudgetLimits = {};
+    for (const part of (limits || '').split(',').map(p => p.trim()).filter(Boolean)) {
+      const [name, amount] = part.split(':');
+      const key = TENANT_LIMIT_KEYS[name];
+      if (!key) {
+        throw new Error(`Unknown budget limit "${name}" in BUDGET_TENANTS (expected one of ${Object.keys(TENANT_LIMIT_KEYS).join(', ')})`);
+      }
+      budget[key] = parseLimit(amount);
+    }
+    tenants[tenant.trim()] = budget;
+  }
+
+  return tenants;
+}
+
+/**
+ * Parse PII_CUSTOM_PATTERNS, e.g. "account_id=ACC-\d{8};employee_id=EMP\d{5}"
+ */
+function parseCustomPatterns(value: string): Array<{ type: string; pattern: string }> {
+  return value
+    .split(';')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf('=');
+      if (separator < 1) {
+        throw new Error(`Invalid PII_CUSTOM_PATTERNS entry "${entry}" (expected type=regex)`);
+      }
+      return { type: entry.slice(0, separator).trim(), pattern: entry.slice(separator + 1) };
+    });
+}
+
+/**
+ * Parse USAGE_PRICES, e.g. "gpt-4o-mini=0.15/0.6;local-model=0/0" (USD per million input/output tokens)
+ */
+function parsePrices(value: string): Record<string, ModelPrice> {
+  const prices: Record<string, ModelPrice> = {};
+
+  for (const entry of value.split(';').map(e => e.trim()).filter(Boolean)) {
+    const [model, price] = entry.split('=');
+    const [input, output] = (price || '').split('/').map(Number);
+    if (!model || !Number.isFinite(input) || !Number.isFinite(output)) {
+      throw new Error(`Invalid USAGE_PRICES entry "${entry}" (expected model=input/output)`);
+    }
+    prices[model.trim()] = { input, output };
+  }
+
+  return prices;
+}
+
 export const appConfig = loadConfig();
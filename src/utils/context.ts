@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RedactionSession } from './pii';
+import { PromptName, PromptUsage } from '../types';
+
+/**
+ * The ticket being processed, visible to every call made on its behalf
+ * (LLM requests, embeddings, budget checks) without threading it through
+ * each signature.
+ */
+export interface TicketContext {
+  ticketId: number;
+  tenant: string;    // Zendesk brand id, or "default"
+  redaction?: RedactionSession;  // Placeholders for the ticket's PII
+  prompts?: Partial<Record<PromptName, PromptUsage>>;  // Filled in as prompts are rendered
+}
+
+const storage = new AsyncLocalStorage<TicketContext>();
+
+export function runWithTicketContext<T>(context: TicketContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+export function currentTicketContext(): TicketContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,38 @@
+import fs from 'fs';
+import path from 'path';
+import { load as loadYaml } from 'js-yaml';
+import { logger } from './logger';
+
+/**
+ * Read a .yaml/.yml file, or JSON otherwise. Parse errors name the file
+ * and what it holds, e.g. "Failed to parse routing rules rules.yaml: ..."
+ */
+export function readConfigFile(filePath: string, what: string): unknown {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+
+  try {
+    return ext === '.yaml' || ext === '.yml'
+      ? loadYaml(content, { filename: filePath })
+      : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${what} ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Write a value as JSON through a temp file and rename, so a crash mid-write
+ * leaves the previous file intact. Failures are logged, not thrown: losing a
+ * save shouldn't fail the work that changed the state.
+ */
+export function writeJsonAtomic(filePath: string, value: unknown, what: string, options: { pretty?: boolean } = {}): void {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(value, null, options.pretty ? 2 : undefined));
+    fs.renameSync(tmp, filePath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to persist ${what}`, { file: filePath, error: message });
+  }
+}
@@ -3,6 +3,8 @@
  * Can be replaced with Winston, Pino, etc. for production
  */
 
+import { stripPII } from './pii';
+
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
 interface LogEntry {
@@ -30,10 +32,12 @@ const LOG_ICONS = {
 class Logger {
   private minLevel: LogLevel;
   private isProduction: boolean;
+  private redactPII: boolean;
 
   constructor() {
     this.minLevel = (process.env.LOG_LEVEL as LogLevel) || 'debug';
     this.isProduction = process.env.NODE_ENV === 'production';
+    this.redactPII = process.env.LOG_REDACT_PII !== 'false';
   }
 
   private shouldLog(level: LogLevel): boolean {
@@ -64,7 +68,7 @@ class Logger {
       level,
       message,
       timestamp: new Date().toISOString(),
-      context,
+      context: context && this.redactPII ? redactContext(context) : context,
     };
 
     const formatted = this.formatMessage(entry);
@@ -125,4 +129,16 @@ class Logger {
   }
 }
 
+/**
+ * Strip PII from every string in a log context (ticket subjects, LLM replies, errors)
+ */
+function redactContext<T>(value: T): T {
+  if (typeof value === 'string') return stripPII(value) as T;
+  if (Array.isArray(value)) return value.map(redactContext) as T;
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactContext(v)])) as T;
+  }
+  return value;
+}
+
 export const logger = new Logger();
@@ -0,0 +1,207 @@
+import { PIIType, PII_TYPES, RedactionReport } from '../types';
+
+/**
+ * A kind of personal data. Matches of pattern are only treated as PII when
+ * validate (if any) accepts them.
+ */
+export interface PIIPattern {
+  type: string;              // Placeholder name, e.g. "email" -> [EMAIL_1]
+  label: string;             // Replacement used by strip()
+  pattern: RegExp;           // Must be global
+  validate?: (match: string) => boolean;
+}
+
+export interface PIIMatch {
+  type: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+// Earlier patterns win where matches overlap (card numbers also look like phone numbers)
+export const DEFAULT_PII_PATTERNS: Record<PIIType, PIIPattern> = {
+  email: { type: 'email', label: '[email]', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  url: { type: 'url', label: '[url]', pattern: /https?:\/\/[^\s?#]+\?[^\s]*(token|key|code|session|auth)=[^\s]*/gi },
+  card: { type: 'card', label: '[card number]', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: luhnValid },
+  iban: { type: 'iban', label: '[iban]', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, validate: ibanValid },
+  ip: { type: 'ip', label: '[ip address]', pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g, validate: ip => ip.split('.').every(n => Number(n) <= 255) },
+  phone: { type: 'phone', label: '[phone]', pattern: /(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)[ .-]?)?\d{3,4}[ .-]\d{3,4}(?:[ .-]\d{2,4})?\b/g },
+  address: {
+    type: 'address',
+    label: '[address]',
+    pattern: /\b\d{1,5}(?: [A-Z][a-z]+){1,3} (?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Square|Sq)\b\.?/g,
+  },
+};
+
+/**
+ * Finds personal data in text using the built-in patterns plus any custom ones
+ * (e.g. internal account numbers), and hands out redaction sessions.
+ */
+export class PIIDetector {
+  readonly patterns: PIIPattern[];
+
+  constructor(options: { types?: readonly PIIType[]; customPatterns?: Array<{ type: string; pattern: string }> } = {}) {
+    const custom = (options.customPatterns || []).map(({ type, pattern }) => {
+      if (!/^[a-z][a-z0-9_]*$/.test(type)) {
+        throw new Error(`Invalid PII pattern type "${type}" (use lowercase letters, digits and _)`);
+      }
+      try {
+        return { type, label: `[${type}]`, pattern: new RegExp(pattern, 'g') };
+      } catch (error) {
+        throw new Error(`Invalid PII pattern for ${type}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    this.patterns = [...(options.types || PII_TYPES).map(type => DEFAULT_PII_PATTERNS[type]), ...custom];
+  }
+
+  /**
+   * Every match, in order of position
+   */
+  find(text: string): PIIMatch[] {
+    const matches: PIIMatch[] = [];
+
+    for (const { type, pattern, validate } of this.patterns) {
+      for (const m of text.matchAll(pattern)) {
+        const start = m.index!;
+        const end = start + m[0].length;
+        if (!m[0] || (validate && !validate(m[0]))) continue;
+        if (matches.some(other => start < other.end && end > other.start)) continue;
+        matches.push({ type, value: m[0], start, end });
+      }
+    }
+
+    return matches.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Replace matches with their bracketed label, irreversibly
+   */
+  strip(text: string): string {
+    const labels = new Map(this.patterns.map(p => [p.type, p.label]));
+    return replaceMatches(text, this.find(text), m => labels.get(m.type)!);
+  }
+
+  /**
+   * Placeholders for one ticket
+   */
+  session(): RedactionSession {
+    return new RedactionSession(this);
+  }
+}
+
+/**
+ * Reversible redaction for one ticket. Each distinct value gets a placeholder
+ * such as [EMAIL_1] that stays the same across every call made for the
+ * ticket, so prompts stay consistent and replies can be restored.
+ */
+export class RedactionSession {
+  private detector: PIIDetector;
+  private placeholders = new Map<string, string>();  // type:value -> placeholder
+  private values = new Map<string, string>();        // placeholder -> value
+  private byType: Record<string, number> = {};
+  private occurrences = 0;
+
+  constructor(detector: PIIDetector) {
+    this.detector = detector;
+  }
+
+  redact(text: string): string {
+    const matches = this.detector.find(text);
+    this.occurrences += matches.length;
+    return replaceMatches(text, matches, m => this.placeholderFor(m));
+  }
+
+  /**
+   * Put the original values back in place of this session's placeholders
+   */
+  restore(text: string): string {
+    return text.replace(/\[[A-Z][A-Z0-9_]*_\d+\]/g, placeholder => this.values.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * restore() every string in a parsed reply
+   */
+  restoreDeep<T>(value: T): T {
+    if (typeof value === 'string') return this.restore(value) as T;
+    if (Array.isArray(value)) return value.map(v => this.restoreDeep(v)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.restoreDeep(v)])) as T;
+    }
+    return value;
+  }
+
+  report(): RedactionReport {
+    return { total: this.values.size, byType: { ...this.byType }, occurrences: this.occurrences };
+  }
+
+  private placeholderFor(match: PIIMatch): string {
+    const key = `${match.type}:${match.value}`;
+    let placeholder = this.placeholders.get(key);
+    if (!placeholder) {
+      this.byType[match.type] = (this.byType[match.type] || 0) + 1;
+      placeholder = `[${match.type.toUpperCase()}_${this.byType[match.type]}]`;
+      this.placeholders.set(key, placeholder);
+      this.values.set(placeholder, match.value);
+    }
+    return placeholder;
+  }
+}
+
+const defaultDetector = new PIIDetector();
+
+/**
+ * Best-effort removal of personal data from ticket text before it is stored
+ * as knowledge or logged. Matches are replaced with a bracketed label.
+ */
+export function stripPII(text: string): string {
+  return defaultDetector.strip(text);
+}
+
+/**
+ * Luhn checksum, so order numbers and other long digit runs aren't taken for cards
+ */
+export function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 check
+ */
+export function ibanValid(value: string): boolean {
+  const iban = value.replace(/ /g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const numeric = (iban.slice(4) + iban.slice(0, 4))
+    .split('')
+    .map(c => (/[A-Z]/.test(c) ? String(c.charCodeAt(0) - 55) : c))
+    .join('');
+
+  let remainder = 0;
+  for (const digit of numeric) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+function replaceMatches(text: string, matches: PIIMatch[], replacement: (match: PIIMatch) => string): string {
+  let result = '';
+  let last = 0;
+  for (const match of matches) {
+    result += text.slice(last, match.start) + replacement(match);
+    last = match.end;
+  }
+  return result + text.slice(last);
+}
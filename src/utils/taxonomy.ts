@@ -0,0 +1,173 @@
+import { TaxonomyCategory, TaxonomyNode, TicketCategory } from '../types';
+import { readConfigFile } from './files';
+
+// Separates the levels of a category path
+export const CATEGORY_SEPARATOR = '/';
+
+// Used when no taxonomy file is configured
+export const DEFAULT_TAXONOMY: TaxonomyNode[] = [
+  { id: 'billing', description: 'Payment, invoices, charges, pricing, subscriptions' },
+  { id: 'technical_support', description: 'Bugs, errors, troubleshooting, how-to questions' },
+  { id: 'account_management', description: 'Login issues, profile changes, permissions' },
+  { id: 'feature_request', description: 'New feature suggestions, enhancements' },
+  { id: 'bug_report', description: 'Software bugs, unexpected behavior' },
+  { id: 'general_inquiry', description: 'General questions, information requests' },
+  { id: 'cancellation', description: 'Account or subscription cancellation' },
+  { id: 'refund', description: 'Refund requests, money back' },
+  { id: 'onboarding', description: 'Getting started, setup, initial configuration' },
+  { id: 'integration', description: 'API, webhooks, third-party connections' },
+  { id: 'security', description: 'Security concerns, data privacy, access issues' },
+];
+
+/**
+ * The categories tickets are sorted into, optionally nested:
+ *
+ *   categories:
+ *     - id: billing
+ *       description: Payments and invoices
+ *       children:
+ *         - id: invoices
+ *           description: Invoice copies and corrections
+ *           examples: ["Can I get a copy of my March invoice?"]
+ *           fieldValue: billing_invoices
+ *   fallback: general_inquiry
+ *
+ * Categories are named by their path ("billing/invoices"). A ticket may be
+ * put in a parent when none of its children fit. fallback is used when the
+ * model's answer can't be parsed.
+ */
+export class Taxonomy {
+  readonly fallback: TicketCategory;
+  private categories = new Map<TicketCategory, TaxonomyCategory>();
+
+  constructor(nodes: unknown = DEFAULT_TAXONOMY, options: { fallback?: string } = {}) {
+    if (!Array.isArray(nodes) || nodes.length === 0) {
+      throw new Error('Taxonomy must be a non-empty list of categories');
+    }
+    this.add(nodes, undefined);
+
+    const fieldValues = new Map<string, string>();
+    for (const category of this.categories.values()) {
+      const other = fieldValues.get(category.fieldValue);
+      if (other) {
+        throw new Error(`Categories ${other} and ${category.path} have the same fieldValue "${category.fieldValue}"`);
+      }
+      fieldValues.set(category.fieldValue, category.path);
+    }
+
+    const fallback = options.fallback ?? (this.categories.has('general_inquiry') ? 'general_inquiry' : this.paths()[0]);
+    if (!this.categories.has(fallback)) {
+      throw new Error(`Taxonomy fallback "${fallback}" is not a category`);
+    }
+    this.fallback = fallback;
+  }
+
+  /**
+   * Load a taxonomy from a .yaml/.yml file, or JSON otherwise
+   */
+  static fromFile(filePath: string): Taxonomy {
+    const taxonomy = readConfigFile(filePath, 'taxonomy');
+    // Allow either a bare list or { categories: [...], fallback }
+    if (taxonomy && !Array.isArray(taxonomy) && typeof taxonomy === 'object' && 'categories' in taxonomy) {
+      const { categories, fallback } = taxonomy as { categories: unknown; fallback?: unknown };
+      if (fallback !== undefined && typeof fallback !== 'string') {
+        throw new Error('Taxonomy fallback must be a category path');
+      }
+      return new Taxonomy(categories, { fallback });
+    }
+    return new Taxonomy(taxonomy);
+  }
+
+  /**
+   * Every category, parents before their children
+   */
+  list(): TaxonomyCategory[] {
+    return [...this.categories.values()];
+  }
+
+  paths(): TicketCategory[] {
+    return [...this.categories.keys()];
+  }
+
+  has(category: string): boolean {
+    return this.categories.has(category);
+  }
+
+  /**
+   * Zendesk dropdown option value for a category
+   */
+  fieldValue(category: TicketCategory): string {
+    return this.categories.get(category)?.fieldValue ?? category;
+  }
+
+  /**
+   * Throw if a configured list (auto-reply allowlist, prompt overrides)
+   * names a category that doesn't exist
+   */
+  check(categories: string[], source: string): void {
+    const unknown = categories.find(c => !this.categories.has(c));
+    if (unknown) {
+      throw new Error(`Unknown category "${unknown}" in ${source}`);
+    }
+  }
+
+  /**
+   * The categories as a nested list for prompts, with descriptions and examples
+   */
+  describe(): string {
+    return this.list()
+      .map(c => {
+        const indent = '  '.repeat(c.path.split(CATEGORY_SEPARATOR).length - 1);
+        const lines = [`${indent}- ${c.path}${c.description ? `: ${c.description}` : ''}`];
+        for (const example of c.examples) {
+          lines.push(`${indent}    Example: "${example}"`);
+        }
+        return lines.join('\n');
+      })
+      .join('\n');
+  }
+
+  private add(nodes: unknown[], parent: TaxonomyCategory | undefined): void {
+    for (const [i, node] of nodes.entries()) {
+      const where = `Category ${parent ? `${parent.path} > ` : ''}${i + 1}`;
+      if (!node || typeof node !== 'object') throw new Error(`${where} must be an object`);
+
+      const { id, description, examples = [], fieldValue, children } = node as TaxonomyNode;
+      if (typeof id !== 'string' || !/^[a-z0-9_]+$/.test(id)) {
+        throw new Error(`${where} needs an id of lowercase letters, digits and _`);
+      }
+      const categoryPath = parent ? `${parent.path}${CATEGORY_SEPARATOR}${id}` : id;
+      if (this.categories.has(categoryPath)) throw new Error(`Duplicate category ${categoryPath}`);
+      if (description !== undefined && typeof description !== 'string') {
+        throw new Error(`Category ${categoryPath}: description must be a string`);
+      }
+      if (!Array.isArray(examples) || !examples.every(e => typeof e === 'string')) {
+        throw new Error(`Category ${categoryPath}: examples must be a list of strings`);
+      }
+      if (fieldValue !== undefined && (typeof fieldValue !== 'string' || !fieldValue)) {
+        throw new Error(`Category ${categoryPath}: fieldValue must be a non-empty string`);
+      }
+
+      const category: TaxonomyCategory = {
+        path: categoryPath,
+        parent: parent?.path,
+        description,
+        examples,
+        fieldValue: fieldValue ?? categoryPath.split(CATEGORY_SEPARATOR).join('__'),
+      };
+      this.categories.set(categoryPath, category);
+
+      if (children !== undefined) {
+        if (!Array.isArray(children)) throw new Error(`Category ${categoryPath}: children must be a list`);
+        this.add(children, category);
+      }
+    }
+  }
+}
+
+/**
+ * Whether category is ancestor or one of its subcategories
+ */
+export function categoryWithin(category: TicketCategory, ancestor: TicketCategory): boolean {
+  return category === ancestor || category.startsWith(`${ancestor}${CATEGORY_SEPARATOR}`);
+}
@@ -1,20 +1,36 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { ZendeskTicket, TicketUpdate } from '../types';
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { ZendeskTicket, TicketUpdate, HelpCenterArticle } from '../types';
 import { logger } from '../utils/logger';
-import { Errors } from '../middleware/errorHandler';
+import { AppError, Errors } from '../middleware/errorHandler';
+import { formatDraftNote } from './notes';
+import { RateLimiter, RateLimiterSnapshot } from './rateLimiter';
 
 interface ZendeskConfig {
   subdomain: string;
   email: string;
   token: string;
+  baseUrl?: string;  // Override API base URL (e.g. a local mock server)
+  requestsPerMinute?: number;  // Initial pacing, until responses report the plan's limit
+  maxRetries?: number;         // Retries of a rate-limited idempotent request
+  retryJitterMs?: number;      // Random delay added to Retry-After
 }
 
+// Zendesk doesn't process a rate-limited request, but only these are safe to repeat blindly
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+type RetriableRequest = InternalAxiosRequestConfig & { retryCount?: number };
+
 interface SearchResult {
   results: ZendeskTicket[];
   count: number;
   next_page: string | null;
 }
 
+interface SearchExportResult {
+  results: ZendeskTicket[];
+  meta: { has_more: boolean; after_cursor: string | null };
+}
+
 interface TicketComment {
   id: number;
   body: string;
@@ -25,16 +41,24 @@ interface TicketComment {
 }
 
 /**
- * Zendesk API client with full CRUD operations
+ * Zendesk API client with full CRUD operations. Requests are paced by a token
+ * bucket sized from Zendesk's rate limit headers; idempotent requests that are
+ * rate limited anyway wait out Retry-After (plus jitter) and are retried.
  */
 export class ZendeskClient {
   private client: AxiosInstance;
   private subdomain: string;
+  private limiter: RateLimiter;
+  private maxRetries: number;
+  private retryJitterMs: number;
 
   constructor(config: ZendeskConfig) {
     this.subdomain = config.subdomain;
+    this.limiter = new RateLimiter({ requestsPerMinute: config.requestsPerMinute });
+    this.maxRetries = config.maxRetries ?? 3;
+    this.retryJitterMs = config.retryJitterMs ?? 1000;
     this.client = axios.create({
-      baseURL: `https://${config.subdomain}.zendesk.com/api/v2`,
+      baseURL: config.baseUrl || `https://${config.subdomain}.zendesk.com/api/v2`,
       auth: {
         username: `${config.email}/token`,
         password: config.token,
@@ -45,19 +69,44 @@ export class ZendeskClient {
       timeout: 30000, // 30 second timeout
     });
 
-    // Request interceptor for logging
-    this.client.interceptors.request.use((config) => {
+    // Request interceptor for pacing and logging
+    this.client.interceptors.request.use(async (config) => {
+      await this.limiter.acquire();
       logger.debug(`Zendesk API: ${config.method?.toUpperCase()} ${config.url}`);
       return config;
     });
 
-    // Response interceptor for error handling
+    // Response interceptor for rate limits and error handling
     this.client.interceptors.response.use(
-      (response) => response,
-      (error: AxiosError) => {
+      (response) => {
+        this.limiter.update(response.headers);
+        return response;
+      },
+      async (error: AxiosError) => {
         const status = error.response?.status;
         const message = (error.response?.data as { error?: string })?.error || error.message;
-        
+
+        if (error.response) {
+          this.limiter.update(error.response.headers);
+        }
+        if (status === 429) {
+          const retryAfter = parseInt(error.response?.headers['retry-after'] || '60', 10);
+          this.limiter.pause(retryAfter * 1000);
+
+          const request = error.config as RetriableRequest | undefined;
+          const retryCount = request?.retryCount ?? 0;
+          if (request && IDEMPOTENT_METHODS.includes(request.method || 'get') && retryCount < this.maxRetries) {
+            request.retryCount = retryCount + 1;
+            const delayMs = retryAfter * 1000 + Math.random() * this.retryJitterMs;
+            logger.warn(`Zendesk rate limit hit, retrying in ${Math.round(delayMs)}ms`, {
+              url: request.url,
+              attempt: request.retryCount,
+            });
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+            return this.client.request(request);
+          }
+        }
+
         logger.error('Zendesk API error', { 
           status, 
           message, 
@@ -70,6 +119,9 @@ export class ZendeskClient {
         if (status === 404) {
           throw Errors.notFound('Zendesk resource');
         }
+        if (status === 409) {
+          throw Errors.conflict(`Zendesk update conflict: ${message}`);
+        }
         if (status === 429) {
           const retryAfter = parseInt(error.response?.headers['retry-after'] || '60', 10);
           throw Errors.rateLimit(retryAfter);
@@ -80,6 +132,13 @@ export class ZendeskClient {
     );
   }
 
+  /**
+   * Current request pacing state
+   */
+  getRateLimitState(): RateLimiterSnapshot {
+    return this.limiter.snapshot();
+  }
+
   /**
    * Get a single ticket by ID
    */
@@ -108,6 +167,48 @@ export class ZendeskClient {
     return response.data.ticket;
   }
 
+  /**
+   * Update a ticket only if it hasn't changed since updatedStamp (its
+   * updated_at when we read it). If someone else updated it in between, Zendesk
+   * rejects the write. A public comment is never retried: the customer may
+   * already have been answered. Otherwise the ticket is re-read and the update
+   * retried against the new stamp without the assignee, group, priority and
+   * status changes, which would overwrite what the agent just set. Without a
+   * stamp this is a plain update.
+   */
+  async safeUpdateTicket(
+    ticketId: number,
+    update: TicketUpdate,
+    updatedStamp?: string,
+    maxRetries = 2
+  ): Promise<ZendeskTicket> {
+    if (!updatedStamp) return this.updateTicket(ticketId, update);
+
+    let stamp = updatedStamp;
+    let pending = update;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.updateTicket(ticketId, { ...pending, safe_update: true, updated_stamp: stamp });
+      } catch (error) {
+        if (!(error instanceof AppError && error.statusCode === 409) || attempt >= maxRetries) throw error;
+        if (pending.comment?.public) throw error;
+
+        const fresh = await this.getTicket(ticketId);
+        const { assignee_id, group_id, priority, status, ...rest } = pending;
+        const dropped = Object.entries({ assignee_id, group_id, priority, status })
+          .filter(([, value]) => value !== undefined)
+          .map(([key]) => key);
+        if (Object.keys(rest).length === 0) {
+          logger.warn(`Ticket #${ticketId} changed during processing, update dropped`, { dropped });
+          return fresh;
+        }
+        logger.warn(`Ticket #${ticketId} changed during processing, retrying update`, { attempt: attempt + 1, dropped });
+        stamp = fresh.updated_at;
+        pending = rest;
+      }
+    }
+  }
+
   /**
    * Add an internal note (not visible to customer)
    */
@@ -136,16 +237,7 @@ export class ZendeskClient {
     confidence?: number;
     sources?: string[];
   }): Promise<void> {
-    let note = `📝 **AI Draft Response**\n\n${draft}`;
-    
-    if (metadata) {
-      note += '\n\n---\n*AI Metadata:*';
-      if (metadata.category) note += `\n• Category: ${metadata.category}`;
-      if (metadata.confidence) note += `\n• Confidence: ${Math.round(metadata.confidence * 100)}%`;
-      if (metadata.sources?.length) note += `\n• Sources: ${metadata.sources.join(', ')}`;
-    }
-    
-    await this.addInternalNote(ticketId, note);
+    await this.addInternalNote(ticketId, formatDraftNote(draft, metadata));
   }
 
   /**
@@ -211,6 +303,19 @@ export class ZendeskClient {
     return response.data;
   }
 
+  /**
+   * One page of every ticket matching a query. Unlike searchTickets this isn't
+   * capped at 1000 results; pass the returned cursor to get the next page.
+   * Cursors expire after an hour.
+   */
+  async exportTickets(query: string, cursor?: string): Promise<{ tickets: ZendeskTicket[]; cursor?: string }> {
+    const response = await this.client.get('/search/export.json', {
+      params: { query, 'filter[type]': 'ticket', 'page[size]': 1000, 'page[after]': cursor },
+    });
+    const { results, meta } = response.data as SearchExportResult;
+    return { tickets: results, cursor: meta.has_more && meta.after_cursor ? meta.after_cursor : undefined };
+  }
+
   /**
    * Get recent tickets (new/open)
    */
@@ -220,6 +325,38 @@ export class ZendeskClient {
     return result.results.slice(0, limit);
   }
 
+  /**
+   * List published Help Center articles for a locale, following pagination.
+   * Drafts are excluded. Restrict to specific sections with sectionIds.
+   */
+  async listArticles(locale: string, sectionIds?: number[]): Promise<HelpCenterArticle[]> {
+    const paths = sectionIds?.length
+      ? sectionIds.map(id => `/help_center/${locale}/sections/${id}/articles.json`)
+      : [`/help_center/${locale}/articles.json`];
+
+    const articles: HelpCenterArticle[] = [];
+    for (const path of paths) {
+      let page = 1;
+      let hasMore = true;
+
+      while (hasMore) {
+        const response = await this.client.get(path, {
+          params: { per_page: 100, page, sort_by: 'updated_at' },
+        });
+        articles.push(...(response.data.articles as HelpCenterArticle[]));
+        hasMore = !!response.data.next_page;
+        page++;
+      }
+    }
+
+    const published = articles.filter(a => !a.draft);
+    logger.debug(`Listed ${published.length} Help Center articles`, {
+      locale,
+      drafts: articles.length - published.length,
+    });
+    return published;
+  }
+
   /**
    * Verify API connection
    */
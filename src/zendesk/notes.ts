@@ -0,0 +1,24 @@
+/**
+ * Internal note body for an AI draft
+ */
+export function formatDraftNote(draft: string, metadata?: {
+  category?: string;
+  confidence?: number;
+  sources?: string[];
+  warnings?: string[];       // Shown above the draft
+}): string {
+  let note = '📝 **AI Draft Response**\n\n';
+  for (const warning of metadata?.warnings || []) {
+    note += `⚠️ ${warning}\n\n`;
+  }
+  note += draft;
+
+  if (metadata) {
+    note += '\n\n---\n*AI Metadata:*';
+    if (metadata.category) note += `\n• Category: ${metadata.category}`;
+    if (metadata.confidence) note += `\n• Confidence: ${Math.round(metadata.confidence * 100)}%`;
+    if (metadata.sources?.length) note += `\n• Sources: ${metadata.sources.join(', ')}`;
+  }
+
+  return note;
+}
@@ -0,0 +1,117 @@
+export interface RateLimiterOptions {
+  requestsPerMinute?: number;  // Until the API reports the account's limit
+}
+
+export interface RateLimiterSnapshot {
+  limit: number;               // Requests per minute
+  available: number;           // Tokens in the bucket
+  queued: number;              // Requests waiting for a token
+  remaining?: number;          // Last X-Rate-Limit-Remaining from Zendesk
+  pausedUntil?: string;        // Set while honouring a Retry-After
+  throttled: number;           // 429 responses received
+}
+
+/**
+ * Token bucket pacing requests to the Zendesk API. The bucket holds one
+ * minute's worth of requests and refills continuously; it is resized from the
+ * X-Rate-Limit headers of each response, and drained to match
+ * X-Rate-Limit-Remaining so other clients sharing the account are accounted for.
+ * Requests that find the bucket empty wait in FIFO order rather than failing.
+ * A 429 pauses every request for its Retry-After.
+ */
+export class RateLimiter {
+  private limit: number;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private waiters: Array<() => void> = [];
+  private timer?: NodeJS.Timeout;
+  private remaining?: number;
+  private pausedUntil = 0;
+  private throttled = 0;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.limit = options.requestsPerMinute ?? 200;
+    this.tokens = this.limit;
+  }
+
+  /**
+   * Wait for a token
+   */
+  acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.waiters.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Resize the bucket from a response's rate limit headers
+   */
+  update(headers: Record<string, unknown>): void {
+    const limit = parseInt(String(headers['x-rate-limit'] ?? ''), 10);
+    const remaining = parseInt(String(headers['x-rate-limit-remaining'] ?? ''), 10);
+
+    this.refill();
+    if (limit > 0 && limit !== this.limit) {
+      this.limit = limit;
+      this.tokens = Math.min(this.tokens, limit);
+    }
+    if (remaining >= 0) {
+      this.remaining = remaining;
+      this.tokens = Math.min(this.tokens, remaining);
+    }
+  }
+
+  /**
+   * Hold every request for ms after a 429
+   */
+  pause(ms: number): void {
+    this.throttled++;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.drain();
+  }
+
+  snapshot(): RateLimiterSnapshot {
+    this.refill();
+    return {
+      limit: this.limit,
+      available: Math.floor(this.tokens),
+      queued: this.waiters.length,
+      remaining: this.remaining,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : undefined,
+      throttled: this.throttled,
+    };
+  }
+
+  /**
+   * Hand out tokens to waiters, and schedule the next attempt if any are left
+   */
+  private drain(): void {
+    if (this.timer) return;
+    this.refill();
+
+    const pausedFor = this.pausedUntil - Date.now();
+    while (pausedFor <= 0 && this.waiters.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.waiters.shift()!();
+    }
+    if (this.waiters.length === 0) return;
+
+    const refillMs = Math.ceil((1 - this.tokens) * 60_000 / this.limit);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.max(pausedFor, refillMs, 1));
+  }
+
+  private refill(): void {
+    // Nothing accrues while paused
+    const now = Date.now();
+    const from = Math.max(this.refilledAt, this.pausedUntil);
+    if (now > from) {
+      this.tokens = Math.min(this.limit, this.tokens + (now - from) * this.limit / 60_000);
+    }
+    this.refilledAt = now;
+  }
+}
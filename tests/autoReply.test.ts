@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AutoReplyPolicy, AutoReplyCandidate } from '../src/automation/autoReply';
+import { PIIDetector } from '../src/utils/pii';
+import { runWithTicketContext } from '../src/utils/context';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const candidate = (overrides: Partial<AutoReplyCandidate> = {}): AutoReplyCandidate => ({
+  ticketId: 1,
+  category: 'billing',
+  sentiment: 'neutral',
+  draft: {
+    draft: 'Your refund was issued today.',
+    confidence: 0.95,
+    suggestedTags: [],
+    requiresHumanReview: false,
+    reasoning: 'Refund policy applies',
+  },
+  knowledge: [{ id: 'kb-refunds', text: 'Refunds take 5-10 days', title: 'Refunds', score: 0.8, source: 'help_center' }],
+  ...overrides,
+});
+
+describe('AutoReplyPolicy', () => {
+  const policy = new AutoReplyPolicy({ mode: 'live', categories: ['billing'], minConfidence: 0.9 });
+
+  it('should pass a confident, backed draft in an allowlisted category', () => {
+    expect(policy.evaluate(candidate())).toEqual([]);
+  });
+
+  it('should report every failed gate', () => {
+    const reasons = policy.evaluate(candidate({
+      category: 'bug_report',
+      sentiment: 'frustrated',
+      draft: { ...candidate().draft, confidence: 0.7, requiresHumanReview: true },
+      knowledge: [],
+    }));
+
+    expect(reasons).toEqual([
+      'category bug_report is not on the allowlist',
+      'confidence 0.7 is below 0.9',
+      'draft requires human review',
+      'customer is frustrated',
+      '0 supporting knowledge base sources, 1 required',
+    ]);
+  });
+
+  it('should allow subcategories of an allowlisted category', () => {
+    expect(policy.evaluate(candidate({ category: 'billing/invoices' }))).toEqual([]);
+    expect(policy.evaluate(candidate({ category: 'billing_disputes' }))).toEqual(['category billing_disputes is not on the allowlist']);
+  });
+
+  it('should not count solved tickets or weak matches as supporting sources', () => {
+    const reasons = policy.evaluate(candidate({
+      knowledge: [
+        { id: 'ticket-9', text: 'We refunded it', score: 0.9, source: 'resolved_ticket' },
+        { id: 'kb-misc', text: 'Unrelated', score: 0.2, source: 'help_center' },
+      ],
+    }));
+
+    expect(reasons).toEqual(['0 supporting knowledge base sources, 1 required']);
+  });
+
+  it('should judge hybrid results by semantic similarity, not fused rank', () => {
+    const hybrid = { text: 'Refunds take 5-10 days', source: 'help_center' as const, fusedRank: 1 };
+
+    expect(policy.evaluate(candidate({
+      knowledge: [{ ...hybrid, id: 'kb-keyword', score: 0.5, lexicalScore: 3.2 }],
+    }))).toEqual(['0 supporting knowledge base sources, 1 required']);
+    expect(policy.evaluate(candidate({
+      knowledge: [{ ...hybrid, id: 'kb-refunds', score: 0.5, semanticScore: 0.82, lexicalScore: 3.2 }],
+    }))).toEqual([]);
+  });
+
+  it('should append decisions to the audit log and list them newest first', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-reply-'));
+    const audited = new AutoReplyPolicy({ mode: 'shadow', auditPath: path.join(dir, 'audit.jsonl') });
+
+    try {
+      await audited.audit(candidate({ ticketId: 1 }), { mode: 'shadow', action: 'shadow', reasons: [] });
+      await audited.audit(candidate({ ticketId: 2 }), { mode: 'shadow', action: 'blocked', reasons: ['x'] });
+
+      expect((await audited.list()).map(e => e.ticketId)).toEqual([2, 1]);
+      expect(await audited.list({ action: 'shadow' })).toEqual([expect.objectContaining({
+        ticketId: 1,
+        confidence: 0.95,
+        sources: [{ id: 'kb-refunds', title: 'Refunds', score: 0.8 }],
+      })]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should audit drafts with the ticket PII placeholders', async () => {
+    const audited = new AutoReplyPolicy({ mode: 'shadow' });
+    const redaction = new PIIDetector().session();
+    const draft = { ...candidate().draft, draft: 'We emailed the receipt to jane@example.com.' };
+
+    await runWithTicketContext({ ticketId: 1, tenant: 'default', redaction }, () =>
+      audited.audit(candidate({ draft }), { mode: 'shadow', action: 'shadow', reasons: [] })
+    );
+
+    expect((await audited.list())[0].draft).toBe('We emailed the receipt to [EMAIL_1].');
+  });
+});
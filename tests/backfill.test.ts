@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ZendeskClient } from '../src/zendesk/client';
+import { TicketProcessor, TicketInput, ProcessOptions } from '../src/processor';
+import { Backfill } from '../src/queue/backfill';
+import { ProcessingResult, ZendeskTicket } from '../src/types';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const ticket = (id: number, tags: string[] = []): ZendeskTicket => ({
+  id,
+  subject: `Ticket ${id}`,
+  description: `Description ${id}`,
+  status: 'open',
+  priority: 'normal',
+  tags,
+  requester_id: 100,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z',
+  custom_fields: [],
+});
+
+const result = (ticket: TicketInput, overrides: Partial<ProcessingResult> = {}): ProcessingResult => ({
+  ticketId: ticket.id,
+  category: ticket.id % 2 ? 'billing' : 'technical_support',
+  intent: { intent: 'x', urgency: 'medium', sentiment: 'neutral', keyEntities: [] },
+  relevantKnowledge: [],
+  draftResponse: null,
+  processingTimeMs: 1,
+  ...overrides,
+});
+
+describe('Backfill', () => {
+  let dir: string;
+  let statePath: string;
+  let zendesk: { exportTickets: ReturnType<typeof vi.fn>; getTickets: ReturnType<typeof vi.fn> };
+  let tickets: Map<number, ZendeskTicket>;
+  let processor: { processBatch: ReturnType<typeof vi.fn> };
+
+  const create = () => new Backfill(
+    zendesk as unknown as ZendeskClient,
+    processor as unknown as TicketProcessor,
+    { statePath, concurrency: 2 }
+  );
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backfill-'));
+    statePath = path.join(dir, 'backfill.json');
+
+    const pages: Record<string, { tickets: ZendeskTicket[]; cursor?: string }> = {
+      start: { tickets: [ticket(1), ticket(2, ['ai_processed'])], cursor: 'c2' },
+      c2: { tickets: [ticket(3), ticket(4)], cursor: 'c3' },
+      c3: { tickets: [ticket(5)] },
+    };
+    tickets = new Map(Object.values(pages).flatMap(p => p.tickets).map(t => [t.id, t]));
+    zendesk = {
+      exportTickets: vi.fn(async (_query: string, cursor?: string) => pages[cursor || 'start']),
+      getTickets: vi.fn(async (ids: number[]) => ids.flatMap(id => tickets.get(id) || [])),
+    };
+    processor = {
+      processBatch: vi.fn(async (tickets: TicketInput[], _concurrency: number, _options: ProcessOptions) =>
+        tickets.map(t => result(t))
+      ),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should page through every result and skip processed tickets', async () => {
+    const report = await create().run({ query: 'status:open' });
+
+    expect(zendesk.exportTickets.mock.calls.map(c => c[1])).toEqual([undefined, 'c2', 'c3']);
+    expect(processor.processBatch.mock.calls.map(c => c[0].map((t: TicketInput) => t.id))).toEqual([[1, 3], [4, 5]]);
+    expect(report).toMatchObject({
+      status: 'completed',
+      found: 5,
+      alreadyProcessed: 1,
+      processed: 4,
+      failed: 0,
+      remaining: 0,
+      categories: { billing: 3, technical_support: 1 },
+    });
+  });
+
+  it('should pass dry run to the processor and stop at the limit', async () => {
+    const report = await create().run({ query: 'status:open', dryRun: true, limit: 2 });
+
+    expect(zendesk.exportTickets).toHaveBeenCalledTimes(2);
+    expect(processor.processBatch).toHaveBeenCalledWith(expect.any(Array), 2, { dryRun: true, shadowAutoReply: true });
+    expect(report).toMatchObject({ dryRun: true, processed: 2, remaining: 0 });
+  });
+
+  it('should record failed tickets', async () => {
+    processor.processBatch.mockImplementation(async (tickets: TicketInput[]) =>
+      tickets.map(t => result(t, t.id === 3 ? { error: 'LLM down' } : {}))
+    );
+
+    const report = await create().run({ query: 'status:open' });
+
+    expect(report).toMatchObject({ processed: 3, failed: 1, errors: [{ ticketId: 3, error: 'LLM down' }] });
+  });
+
+  it('should resume an interrupted run from its saved progress', async () => {
+    processor.processBatch
+      .mockImplementationOnce(async (tickets: TicketInput[]) => tickets.map(t => result(t)))
+      .mockRejectedValueOnce(new Error('process killed'));
+
+    await expect(create().run({ query: 'status:open' })).rejects.toThrow('process killed');
+
+    const saved = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+    saved.status = 'running';
+    fs.writeFileSync(statePath, JSON.stringify(saved));
+
+    const backfill = create();
+    expect(backfill.status()).toMatchObject({ status: 'interrupted', processed: 2, remaining: 2 });
+
+    const report = await backfill.resume();
+    expect(processor.processBatch.mock.calls[2][0].map((t: TicketInput) => t.id)).toEqual([4, 5]);
+    expect(report).toMatchObject({ status: 'completed', processed: 4, remaining: 0 });
+    expect(zendesk.exportTickets).toHaveBeenCalledTimes(3);
+  });
+
+  it('should save only ticket ids and process tickets as they are now', async () => {
+    processor.processBatch.mockImplementationOnce(async (batch: TicketInput[]) => {
+      tickets.set(3, { ...ticket(3), subject: 'Edited subject' });
+      tickets.set(4, ticket(4, ['ai_processed']));
+      tickets.delete(5);
+      return batch.map(t => result(t));
+    });
+
+    const report = await create().run({ query: 'status:open' });
+
+    const saved = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+    expect(saved.pending).toEqual([]);
+    expect(fs.readFileSync(statePath, 'utf-8')).not.toContain('Description');
+    expect(processor.processBatch.mock.calls[1][0]).toEqual([]);
+    expect(report).toMatchObject({
+      processed: 2,
+      alreadyProcessed: 2,
+      failed: 1,
+      errors: [{ ticketId: 5, error: 'Ticket not found' }],
+    });
+  });
+
+  it('should stop between batches when cancelled', async () => {
+    const backfill = create();
+    processor.processBatch.mockImplementationOnce(async (tickets: TicketInput[]) => {
+      backfill.cancel();
+      return tickets.map(t => result(t));
+    });
+
+    const report = await backfill.run({ query: 'status:open' });
+
+    expect(report).toMatchObject({ status: 'cancelled', processed: 2, remaining: 2 });
+    await expect(backfill.resume()).resolves.toMatchObject({ status: 'completed', remaining: 0 });
+  });
+
+  it('should refuse to start while running', async () => {
+    const backfill = create();
+    const first = backfill.run({ query: 'status:open' });
+
+    await expect(backfill.run({ query: 'status:open' })).rejects.toMatchObject({ code: 'CONFLICT' });
+    await first;
+  });
+});
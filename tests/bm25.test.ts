@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LexicalIndex, reciprocalRankFusion } from '../src/rag/bm25';
+import { LocalVectorStore } from '../src/rag/localStore';
+import { FakeEmbeddingProvider } from '../src/rag/embeddings';
+import { RAGService } from '../src/rag/service';
+import { VectorMetadata } from '../src/rag/vectorStore';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const entry = (id: string, text: string) => ({
+  id,
+  parentId: id,
+  text,
+  metadata: { text, title: id, category: '', url: '', lastUpdated: '' } as VectorMetadata,
+});
+
+describe('LexicalIndex', () => {
+  it('should rank documents by BM25', () => {
+    const index = new LexicalIndex();
+    index.add('kb', [
+      entry('a', 'error E-1042 appears when the sync job fails'),
+      entry('b', 'the sync job runs every night'),
+      entry('c', 'billing invoices and payment methods'),
+    ]);
+
+    const results = index.search('kb', 'E-1042 sync');
+
+    expect(results.map(r => r.id)).toEqual(['a', 'b']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[0].metadata?.title).toBe('a');
+  });
+
+  it('should favour rare terms over common ones', () => {
+    const index = new LexicalIndex();
+    index.add('kb', [
+      entry('a', 'account account account'),
+      entry('b', 'account webhook'),
+      entry('c', 'account settings'),
+    ]);
+
+    expect(index.search('kb', 'account webhook')[0].id).toBe('b');
+  });
+
+  it('should replace and remove entries by parent', () => {
+    const index = new LexicalIndex();
+    index.add('kb', [entry('a', 'old text'), entry('b', 'other text')]);
+    index.add('kb', [entry('a', 'new text')]);
+
+    expect(index.search('kb', 'old')).toEqual([]);
+    expect(index.search('kb', 'new')[0].id).toBe('a');
+
+    index.removeByParent('kb', ['a']);
+    expect(index.size('kb')).toBe(1);
+  });
+
+  it('should write a batch of changes to its file once', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bm25-'));
+    const filePath = path.join(dir, 'lexical.json');
+    const writes = vi.spyOn(fs, 'writeFileSync');
+    const index = new LexicalIndex({ filePath, flushDelayMs: 10 });
+
+    index.removeByParent('kb', ['a']);
+    index.add('kb', [entry('a', 'error E-1042')]);
+    index.add('kb', [entry('b', 'sync job')]);
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    await vi.waitFor(() => expect(fs.existsSync(filePath)).toBe(true));
+    expect(writes).toHaveBeenCalledTimes(1);
+    expect(new LexicalIndex({ filePath }).search('kb', 'E-1042')[0].id).toBe('a');
+
+    writes.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('reciprocalRankFusion()', () => {
+  it('should combine rankings with weights', () => {
+    const fused = reciprocalRankFusion([
+      { ids: ['a', 'b'], weight: 1 },
+      { ids: ['b', 'c'], weight: 1 },
+    ], 60);
+
+    expect(fused[0].id).toBe('b');
+    expect(fused.map(f => f.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('should let weights override rank order', () => {
+    const fused = reciprocalRankFusion([
+      { ids: ['a'], weight: 1 },
+      { ids: ['c'], weight: 3 },
+    ], 60);
+
+    expect(fused[0].id).toBe('c');
+  });
+});
+
+describe('RAGService.hybridSearch()', () => {
+  const docs = [
+    { id: 'kb-sync', title: 'Sync errors', content: 'Error E-1042 means the sync token expired. Reconnect the integration.' },
+    { id: 'kb-billing', title: 'Billing', content: 'Invoices are emailed monthly.' },
+    { id: 'kb-login', title: 'Login', content: 'Use Forgot Password to reset your password.' },
+  ];
+
+  it('should surface exact error code matches that score low semantically', async () => {
+    // Fake embeddings are unrelated to meaning, so only the lexical index can find the doc
+    const rag = new RAGService(
+      { backend: 'local', indexName: 'local' },
+      { store: new LocalVectorStore(), embedder: new FakeEmbeddingProvider({ dimension: 16 }) }
+    );
+    await rag.indexDocuments(docs);
+
+    const results = await rag.hybridSearch('Customer reports E-1042 after upgrade', ['E-1042']);
+
+    expect(results[0].id).toBe('kb-sync');
+    expect(results[0].fusedRank).toBe(1);
+    expect(results[0].lexicalScore).toBeGreaterThan(0);
+    expect(results[0].score).toBeGreaterThan(0);
+    expect(results[0].score).toBeLessThanOrEqual(1);
+  });
+
+  it('should rank documents found by both searches first', async () => {
+    const query = 'reset password';
+    const rag = new RAGService(
+      { backend: 'local', indexName: 'local' },
+      {
+        store: new LocalVectorStore(),
+        // Make the login doc the semantic nearest neighbour of the query
+        embedder: new FakeEmbeddingProvider({
+          dimension: 2,
+          vectors: {
+            [query]: [1, 0],
+            'Login\n\nUse Forgot Password to reset your password.': [1, 0],
+            'Sync errors\n\nError E-1042 means the sync token expired. Reconnect the integration.': [0, 1],
+            'Billing\n\nInvoices are emailed monthly.': [0, 1],
+          },
+        }),
+      }
+    );
+    await rag.indexDocuments(docs);
+
+    const results = await rag.hybridSearch(query);
+
+    expect(results[0].id).toBe('kb-login');
+    expect(results[0].semanticScore).toBeCloseTo(1);
+    expect(results[0].score).toBeCloseTo(1);
+  });
+
+  it('should drop deleted documents from lexical results', async () => {
+    const rag = new RAGService(
+      { backend: 'local', indexName: 'local' },
+      { store: new LocalVectorStore(), embedder: new FakeEmbeddingProvider() }
+    );
+    await rag.indexDocuments(docs);
+    await rag.deleteDocuments(['kb-sync']);
+
+    const results = await rag.hybridSearch('E-1042');
+    expect(results.find(r => r.id === 'kb-sync')).toBeUndefined();
+  });
+});
+
+describe('RAGService.rebuildLexicalIndex()', () => {
+  it('should restore lexical results from the chunks in the vector store', async () => {
+    const store = new LocalVectorStore();
+    const embedder = new FakeEmbeddingProvider({ dimension: 16 });
+    await new RAGService({ backend: 'local', indexName: 'local' }, { store, embedder }).indexDocuments([
+      { id: 'kb-sync', title: 'Sync errors', content: 'Error E-1042 means the sync token expired.' },
+    ]);
+
+    // A fresh process whose lexical index file was lost
+    const lexicalIndex = new LexicalIndex();
+    const rag = new RAGService({ backend: 'local', indexName: 'local' }, { store, embedder, lexicalIndex });
+
+    const report = await rag.rebuildLexicalIndex();
+
+    expect(report).toEqual({ namespace: 'default', chunks: 1 });
+    expect(lexicalIndex.search('default', 'E-1042').map(m => m.id)).toEqual(['kb-sync#chunk-0']);
+  });
+});
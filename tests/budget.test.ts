@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BudgetGuard } from '../src/llm/budget';
+import { UsageTracker } from '../src/llm/usage';
+import { LLMOrchestrator } from '../src/llm/orchestrator';
+import { LLMProviderClient, CompletionRequest } from '../src/llm/providers';
+import { runWithTicketContext } from '../src/utils/context';
+import { AppError } from '../src/middleware/errorHandler';
+import { LLMProvider } from '../src/types';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+// $1 per million input and output tokens
+const PRICES = { 'test-model': { input: 1, output: 1 } };
+
+const spend = (usage: UsageTracker, tokens: number, tenant = 'default') =>
+  runWithTicketContext({ ticketId: 1, tenant }, async () => usage.record({
+    kind: 'llm',
+    provider: 'openai',
+    model: 'test-model',
+    task: 'generateDraft',
+    inputTokens: tokens,
+    outputTokens: 0,
+  }));
+
+const inTenant = <T>(tenant: string, fn: () => T) =>
+  runWithTicketContext({ ticketId: 1, tenant }, async () => fn());
+
+describe('BudgetGuard', () => {
+  let usage: UsageTracker;
+
+  beforeEach(() => {
+    usage = new UsageTracker({ prices: PRICES });
+  });
+
+  it('should allow requests while under budget', async () => {
+    const budget = new BudgetGuard({ limits: { dailyTokens: 1000 } }, { usage });
+    await spend(usage, 999);
+
+    expect(await inTenant('default', () => budget.enforce('generateDraft'))).toBeUndefined();
+    expect(budget.status().daily.tokens).toBe(999);
+  });
+
+  it('should refuse only drafts with skip_draft', async () => {
+    const budget = new BudgetGuard({ limits: { dailyTokens: 1000 }, action: 'skip_draft' }, { usage });
+    await spend(usage, 1000);
+
+    expect(budget.activeAction()).toBe('skip_draft');
+    expect(await inTenant('default', () => budget.enforce('analyzeTicket'))).toBeUndefined();
+    await expect(inTenant('default', () => budget.enforce('generateDraft'))).rejects.toMatchObject({
+      code: 'BUDGET_EXCEEDED',
+    });
+  });
+
+  it('should refuse every request with pause', async () => {
+    const budget = new BudgetGuard({ limits: { monthlyUsd: 0.001 }, action: 'pause' }, { usage });
+    await spend(usage, 1000);
+
+    await expect(inTenant('default', () => budget.enforce('analyzeTicket'))).rejects.toBeInstanceOf(AppError);
+    const now = new Date();
+    await expect(inTenant('default', () => budget.enforce('analyzeTicket'))).rejects.toMatchObject({
+      retryAt: Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+    });
+  });
+
+  it('should send every task to the cheaper model with cheaper_model', async () => {
+    const budget = new BudgetGuard({
+      limits: { dailyTokens: 10 },
+      action: 'cheaper_model',
+      cheaperModel: { provider: 'openai', model: 'gpt-4o-mini' },
+    }, { usage });
+    await spend(usage, 10);
+
+    expect(await inTenant('default', () => budget.enforce('generateDraft'))).toEqual([
+      { provider: 'openai', model: 'gpt-4o-mini' },
+    ]);
+  });
+
+  it('should keep tenants apart and apply per-tenant limits', async () => {
+    const budget = new BudgetGuard({
+      limits: { dailyTokens: 1000 },
+      tenants: { '360001': { dailyTokens: 100 } },
+    }, { usage });
+    await spend(usage, 100, '360001');
+
+    expect(budget.status('360001').exceeded).toEqual(['dailyTokens']);
+    expect(budget.status('default')).toMatchObject({ exceeded: [], daily: { tokens: 0 } });
+  });
+
+  it('should warn once at the threshold and once at the limit', async () => {
+    const budget = new BudgetGuard({ limits: { dailyTokens: 1000 }, warnThreshold: 0.8 }, { usage });
+
+    await spend(usage, 850);
+    const atThreshold = budget.takeWarnings();
+    await spend(usage, 50);
+    const repeated = budget.takeWarnings();
+    await spend(usage, 100);
+    const atLimit = budget.takeWarnings();
+
+    expect(atThreshold).toEqual([expect.stringContaining('85% of its daily token limit')]);
+    expect(repeated).toEqual([]);
+    expect(atLimit).toEqual([expect.stringContaining('reached its daily token limit')]);
+  });
+
+  describe('periods', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should reset daily spend on a new day but keep the month', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-15T23:00:00Z'));
+      const budget = new BudgetGuard({ limits: { dailyTokens: 100, monthlyTokens: 1000 } }, { usage });
+      await spend(usage, 100);
+      expect(budget.activeAction()).toBe('skip_draft');
+
+      vi.setSystemTime(new Date('2024-01-16T01:00:00Z'));
+
+      expect(budget.activeAction()).toBeUndefined();
+      expect(budget.status()).toMatchObject({ daily: { tokens: 0 }, monthly: { tokens: 100 } });
+    });
+  });
+
+  it('should restore spend from its state file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-'));
+    const statePath = path.join(dir, 'budget.json');
+
+    try {
+      new BudgetGuard({ statePath, limits: { dailyTokens: 100 } }, { usage });
+      await spend(usage, 60);
+
+      const restored = new BudgetGuard({ statePath, limits: { dailyTokens: 100 } });
+
+      expect(restored.status().daily.tokens).toBe(60);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should require a model for the cheaper_model action', () => {
+    expect(() => new BudgetGuard({ action: 'cheaper_model' })).toThrow('cheaper model');
+  });
+});
+
+describe('LLMOrchestrator budget enforcement', () => {
+  const provider = (name: LLMProvider) => {
+    const calls: CompletionRequest[] = [];
+    const client: LLMProviderClient & { calls: CompletionRequest[] } = {
+      name,
+      defaultModel: `${name}-default`,
+      calls,
+      async complete(request) {
+        calls.push(request);
+        return { text: 'Summary', model: request.model || `${name}-default`, usage: { inputTokens: 600, outputTokens: 0 } };
+      },
+    };
+    return client;
+  };
+
+  it('should switch to the cheaper model once the budget runs out', async () => {
+    const usage = new UsageTracker({ prices: PRICES });
+    const budget = new BudgetGuard({
+      limits: { dailyTokens: 1000 },
+      action: 'cheaper_model',
+      cheaperModel: { provider: 'openai', model: 'gpt-4o-mini' },
+    }, { usage });
+    const openai = provider('openai');
+    const llm = new LLMOrchestrator({ provider: 'openai', apiKey: 'x' }, { providers: [openai], usage, budget });
+
+    await llm.summarizeThread(['Hi']);
+    await llm.summarizeThread(['Hi']);
+    await llm.summarizeThread(['Hi']);
+
+    expect(openai.calls.map(c => c.model)).toEqual([undefined, undefined, 'gpt-4o-mini']);
+  });
+
+  it('should not send the request when processing is paused', async () => {
+    const usage = new UsageTracker({ prices: PRICES });
+    const budget = new BudgetGuard({ limits: { dailyTokens: 500 }, action: 'pause' }, { usage });
+    const openai = provider('openai');
+    const llm = new LLMOrchestrator({ provider: 'openai', apiKey: 'x' }, { providers: [openai], usage, budget });
+
+    await llm.summarizeThread(['Hi']);
+
+    await expect(llm.summarizeThread(['Hi'])).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED' });
+    expect(openai.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { chunkDocument, chunkId, parentIdOf } from '../src/rag/chunker';
+import { LocalVectorStore } from '../src/rag/localStore';
+import { LocalHashEmbeddingProvider } from '../src/rag/embeddings';
+import { RAGService } from '../src/rag/service';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const words = (n: number, word = 'word') => Array.from({ length: n }, (_, i) => `${word}${i}`).join(' ');
+
+describe('chunkDocument()', () => {
+  it('should split by markdown heading', () => {
+    const chunks = chunkDocument({
+      id: 'kb-1',
+      title: 'Guide',
+      content: 'Intro text.\n\n## Reset password\nClick forgot password.\n\n## Change email\nOpen settings.',
+    });
+
+    expect(chunks.map(c => c.heading)).toEqual([undefined, 'Reset password', 'Change email']);
+    expect(chunks[1].text).toBe('Click forgot password.');
+    expect(chunks.map(c => c.id)).toEqual(['kb-1#chunk-0', 'kb-1#chunk-1', 'kb-1#chunk-2']);
+    expect(chunks.every(c => c.parentId === 'kb-1')).toBe(true);
+  });
+
+  it('should pack paragraphs up to maxTokens', () => {
+    const content = [words(30, 'a'), words(30, 'b'), words(30, 'c')].join('\n\n');
+    const chunks = chunkDocument({ id: 'd', title: '', content }, { strategy: 'paragraph', maxTokens: 60 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].text).toContain('a0');
+    expect(chunks[0].text).toContain('b0');
+    expect(chunks[1].text).toContain('c0');
+  });
+
+  it('should use overlapping token windows', () => {
+    const chunks = chunkDocument(
+      { id: 'd', title: '', content: words(100) },
+      { strategy: 'token', maxTokens: 40, overlapTokens: 10 }
+    );
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks[0].text.split(' ')).toHaveLength(40);
+    expect(chunks[1].text.startsWith('word30 ')).toBe(true);
+    expect(chunks[2].text.endsWith('word99')).toBe(true);
+  });
+
+  it('should split oversized sections into windows', () => {
+    const chunks = chunkDocument(
+      { id: 'd', title: '', content: `# Big\n${words(250)}` },
+      { strategy: 'heading', maxTokens: 100, overlapTokens: 0 }
+    );
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks.every(c => c.heading === 'Big')).toBe(true);
+  });
+
+  it('should keep short documents as a single chunk', () => {
+    expect(chunkDocument({ id: 'd', title: 't', content: 'Short.' })).toHaveLength(1);
+  });
+});
+
+describe('chunk ids', () => {
+  it('should round-trip parent ids', () => {
+    expect(parentIdOf(chunkId('kb#1', 3))).toBe('kb#1');
+    expect(parentIdOf('legacy-doc')).toBe('legacy-doc');
+  });
+});
+
+describe('RAGService chunking', () => {
+  const createRag = (store = new LocalVectorStore()) => new RAGService(
+    { backend: 'local', indexName: 'local', chunking: { strategy: 'heading', maxTokens: 50 } },
+    { store, embedder: new LocalHashEmbeddingProvider({ dimension: 256 }) }
+  );
+
+  const longArticle = {
+    id: 'kb-long',
+    title: 'Account Guide',
+    url: 'https://help.example.com/account',
+    content: [
+      '## Two-factor authentication\nEnable two-factor authentication from the security page using an authenticator app.',
+      '## Billing address\nUpdate your billing address from the invoices page.',
+      '## Deleting your account\nContact support to permanently delete your account and data.',
+    ].join('\n\n'),
+  };
+
+  it('should group matching chunks back into their parent document', async () => {
+    const rag = createRag();
+    const result = await rag.indexDocuments([longArticle]);
+    expect(result.chunks).toBe(3);
+
+    const hits = await rag.retrieve('two-factor authentication authenticator app', { minScore: 0.05 });
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].id).toBe('kb-long');
+    expect(hits[0].url).toBe('https://help.example.com/account');
+    expect(hits[0].chunkIds?.[0]).toBe('kb-long#chunk-0');
+    expect(hits[0].text).toContain('authenticator app');
+  });
+
+  it('should delete every chunk of a document', async () => {
+    const store = new LocalVectorStore();
+    const rag = createRag(store);
+    await rag.indexDocuments([longArticle, { id: 'other', title: 'Other', content: 'Unrelated.' }]);
+
+    await rag.deleteDocuments(['kb-long']);
+
+    expect(await store.listIds('default', 'kb-long')).toEqual([]);
+    expect((await store.stats()).totalVectors).toBe(1);
+  });
+
+  it('should remove stale chunks when a document gets shorter', async () => {
+    const store = new LocalVectorStore();
+    const rag = createRag(store);
+    await rag.indexDocuments([longArticle]);
+
+    await rag.indexDocuments([{ ...longArticle, content: 'Now a single short paragraph.' }]);
+
+    expect(await store.listIds('default', 'kb-long')).toEqual(['kb-long#chunk-0']);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  LocalHashEmbeddingProvider,
+  FakeEmbeddingProvider,
+  createEmbeddingProvider,
+  tokenize,
+} from '../src/rag/embeddings';
+import { cosineSimilarity, LocalVectorStore } from '../src/rag/localStore';
+import { RAGService } from '../src/rag/service';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+describe('LocalHashEmbeddingProvider', () => {
+  const embedder = new LocalHashEmbeddingProvider({ dimension: 256 });
+
+  it('should produce deterministic normalized vectors of the configured dimension', async () => {
+    const [a] = await embedder.embed(['Reset your password']);
+    const [b] = await embedder.embed(['Reset your password']);
+
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+    expect(embedder.model).toBe('local-hash-256');
+  });
+
+  it('should place related texts closer than unrelated ones', async () => {
+    const [query, related, unrelated] = await embedder.embed([
+      'How do I reset my password?',
+      'To reset your password click Forgot Password on the login page',
+      'Invoices are emailed on the first day of each billing cycle',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('tokenize()', () => {
+  it('should keep error codes intact', () => {
+    expect(tokenize('Got error E-1042 on v2.3')).toEqual(['got', 'error', 'e-1042', 'on', 'v2.3']);
+  });
+});
+
+describe('createEmbeddingProvider()', () => {
+  it('should create the local provider without network access', () => {
+    const provider = createEmbeddingProvider({ provider: 'local', dimension: 64 });
+    expect(provider.name).toBe('local');
+    expect(provider.dimension).toBe(64);
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createEmbeddingProvider({ provider: 'nope' })).toThrow('Unknown embedding provider');
+  });
+});
+
+describe('RAGService with pluggable embeddings', () => {
+  const docs = [
+    { id: 'kb-1', title: 'Password Reset', content: 'Click Forgot Password on the login page.' },
+    { id: 'kb-2', title: 'Invoices', content: 'Invoices are emailed monthly.' },
+  ];
+
+  it('should index and retrieve using the provider dimension', async () => {
+    const store = new LocalVectorStore();
+    const rag = new RAGService(
+      { backend: 'local', indexName: 'local' },
+      { store, embedder: new LocalHashEmbeddingProvider({ dimension: 128 }) }
+    );
+
+    const result = await rag.indexDocuments(docs);
+    expect(result).toEqual({ indexed: 2, chunks: 2, errors: [] });
+
+    const stats = await rag.getStats();
+    expect(stats.dimension).toBe(128);
+    expect(stats.embeddingModel).toBe('local-hash-128');
+
+    const hits = await rag.retrieve('forgot password login', { minScore: 0.1 });
+    expect(hits[0].id).toBe('kb-1');
+  });
+
+  it('should refuse to mix models in one namespace', async () => {
+    const store = new LocalVectorStore();
+    const first = new RAGService(
+      { backend: 'local', indexName: 'local' },
+      { store, embedder: new FakeEmbeddingProvider({ model: 'model-a', dimension: 8 }) }
+    );
+    await first.indexDocuments(docs);
+
+    const second = new RAGService(
+      { backend: 'local', indexName: 'local' },
+      { store, embedder: new FakeEmbeddingProvider({ model: 'model-b', dimension: 8 }) }
+    );
+
+    const result = await second.indexDocuments(docs);
+    expect(result.indexed).toBe(0);
+    expect(result.errors[0].error).toContain('refusing to mix');
+
+    // Retrieval degrades gracefully instead of returning cross-model matches
+    expect(await second.retrieve('password', { minScore: -1 })).toEqual([]);
+  });
+
+  it('should allow a different model in a separate namespace', async () => {
+    const store = new LocalVectorStore();
+    await new RAGService(
+      { backend: 'local', indexName: 'local', namespace: 'a' },
+      { store, embedder: new FakeEmbeddingProvider({ model: 'model-a' }) }
+    ).indexDocuments(docs);
+
+    const other = new RAGService(
+      { backend: 'local', indexName: 'local', namespace: 'b' },
+      { store, embedder: new FakeEmbeddingProvider({ model: 'model-b' }) }
+    );
+
+    expect((await other.indexDocuments(docs)).indexed).toBe(2);
+  });
+});
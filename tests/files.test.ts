@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readConfigFile, writeJsonAtomic } from '../src/utils/files';
+import { logger } from '../src/utils/logger';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+describe('file helpers', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'files-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read YAML and JSON config files by extension', () => {
+    fs.writeFileSync(path.join(dir, 'rules.yml'), '- name: vip\n  then: { groupId: 1 }\n');
+    fs.writeFileSync(path.join(dir, 'rules.json'), '[{"name": "vip"}]');
+
+    expect(readConfigFile(path.join(dir, 'rules.yml'), 'routing rules')).toEqual([{ name: 'vip', then: { groupId: 1 } }]);
+    expect(readConfigFile(path.join(dir, 'rules.json'), 'routing rules')).toEqual([{ name: 'vip' }]);
+  });
+
+  it('should name the file and what it holds in parse errors', () => {
+    const file = path.join(dir, 'taxonomy.json');
+    fs.writeFileSync(file, '{ not json');
+
+    expect(() => readConfigFile(file, 'taxonomy')).toThrow(`Failed to parse taxonomy ${file}:`);
+  });
+
+  it('should write JSON atomically, creating the directory', () => {
+    const file = path.join(dir, 'nested', 'state.json');
+
+    writeJsonAtomic(file, { a: 1 }, 'test state', { pretty: true });
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe('{\n  "a": 1\n}');
+    expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+  });
+
+  it('should log a failed write instead of throwing', () => {
+    const file = path.join(dir, 'state.json');
+    fs.mkdirSync(file);
+
+    expect(() => writeJsonAtomic(file, { a: 1 }, 'test state')).not.toThrow();
+    expect(logger.error).toHaveBeenCalledWith('Failed to persist test state', expect.objectContaining({ file }));
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GroundingVerifier } from '../src/llm/groundingVerifier';
+import { LLMOrchestrator } from '../src/llm/orchestrator';
+import { MockLLMProvider } from '../src/llm/providers';
+import { KnowledgeResult } from '../src/types';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const knowledge: KnowledgeResult[] = [
+  {
+    id: 'kb-reset',
+    title: 'Resetting your password',
+    text: 'Click "Forgot password" on the sign-in page. We email a reset link that expires after 24 hours.',
+    url: 'https://help.example.com/articles/reset',
+    score: 0.9,
+  },
+  {
+    id: 'kb-2fa',
+    title: 'Two-factor authentication',
+    text: 'Turn on two-factor authentication under Settings > Security using an authenticator app.',
+    score: 0.7,
+  },
+];
+
+const draft = [
+  'Hi Sam,',
+  'Sorry for the trouble with signing in!',
+  'Click Forgot password on the sign-in page and we will email you a reset link [1].',
+  'The reset link expires after 24 hours.',
+  'Your account has been upgraded to Premium for free as an apology.',
+  'Is two-factor authentication turned on?',
+  'Let us know if you need anything else.',
+].join(' ');
+
+describe('GroundingVerifier', () => {
+  it('should split a draft into checkable claims', () => {
+    expect(GroundingVerifier.claims(draft)).toEqual([
+      'Click Forgot password on the sign-in page and we will email you a reset link [1].',
+      'The reset link expires after 24 hours.',
+      'Your account has been upgraded to Premium for free as an apology.',
+    ]);
+    expect(GroundingVerifier.claims('- Open Settings > Security\n- Scan the code with your authenticator app')).toEqual([
+      'Open Settings > Security',
+      'Scan the code with your authenticator app',
+    ]);
+  });
+
+  it('should check claims by term overlap', async () => {
+    const report = await new GroundingVerifier().verify(draft, knowledge);
+
+    expect(report).toEqual({
+      method: 'lexical',
+      score: 0.67,
+      claims: [
+        { text: expect.stringContaining('Click Forgot password'), supported: true, sourceId: 'kb-reset' },
+        { text: 'The reset link expires after 24 hours.', supported: true, sourceId: 'kb-reset' },
+        { text: 'Your account has been upgraded to Premium for free as an apology.', supported: false },
+      ],
+      unsupportedClaims: ['Your account has been upgraded to Premium for free as an apology.'],
+      citations: [{ marker: 1, id: 'kb-reset', title: 'Resetting your password', url: 'https://help.example.com/articles/reset' }],
+    });
+  });
+
+  it('should treat every claim as unsupported without knowledge', async () => {
+    const report = await new GroundingVerifier().verify('Refunds take 5 business days to arrive.', []);
+
+    expect(report).toMatchObject({ score: 0, unsupportedClaims: ['Refunds take 5 business days to arrive.'] });
+    expect((await new GroundingVerifier().verify('Thanks for reaching out!', [])).score).toBe(1);
+  });
+
+  it('should ask the LLM for entailment verdicts', async () => {
+    const provider = new MockLLMProvider({
+      fixtures: {
+        tasks: {
+          verifyGrounding: { claims: [{ claim: 1, supported: true, article: 1 }, { claim: 2, supported: true, article: 1 }] },
+        },
+      },
+    });
+    const llm = new LLMOrchestrator({ provider: 'mock', apiKey: '' }, { providers: [provider] });
+
+    const report = await new GroundingVerifier({ method: 'llm' }, { llm }).verify(draft, knowledge);
+
+    expect(report.claims.map(c => [c.supported, c.sourceId])).toEqual([[true, 'kb-reset'], [true, 'kb-reset'], [false, undefined]]);
+    expect(report.score).toBe(0.67);
+    expect(provider.calls[0].prompt).toContain('<customer_content>\n1. Click Forgot password');
+    expect(() => new GroundingVerifier({ method: 'llm' })).toThrow('needs an LLM orchestrator');
+  });
+
+  it('should replace citations with article links', () => {
+    expect(GroundingVerifier.linkCitations('See the reset guide [1]. Enable 2FA [2], as in [7].', knowledge))
+      .toBe('See the reset guide (https://help.example.com/articles/reset). Enable 2FA, as in.');
+  });
+});
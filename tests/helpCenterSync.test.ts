@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ZendeskClient } from '../src/zendesk/client';
+import { RAGService } from '../src/rag/service';
+import { LocalVectorStore } from '../src/rag/localStore';
+import { LocalHashEmbeddingProvider } from '../src/rag/embeddings';
+import { HelpCenterSync } from '../src/rag/helpCenterSync';
+import { HelpCenterArticle } from '../src/types';
+import { htmlToText } from '../src/utils/html';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const article = (id: number, overrides: Partial<HelpCenterArticle> = {}): HelpCenterArticle => ({
+  id,
+  title: `Article ${id}`,
+  body: `<h2>Overview</h2><p>Content of article ${id}.</p>`,
+  locale: 'en-us',
+  section_id: 1,
+  draft: false,
+  html_url: `https://help.example.com/articles/${id}`,
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+/**
+ * Local mock of the Help Center articles API, serving two articles per page
+ */
+describe('HelpCenterSync (mock Help Center server)', () => {
+  let server: Server;
+  let articles: HelpCenterArticle[];
+  let store: LocalVectorStore;
+  let sync: HelpCenterSync;
+
+  beforeAll(async () => {
+    const app = express();
+    app.get('/api/v2/help_center/:locale/articles.json', (req, res) => {
+      const page = parseInt(req.query.page as string, 10) || 1;
+      const perPage = 2;
+      const localeArticles = articles.filter(a => a.locale === req.params.locale);
+      const slice = localeArticles.slice((page - 1) * perPage, page * perPage);
+      const hasMore = page * perPage < localeArticles.length;
+
+      res.json({
+        articles: slice,
+        next_page: hasMore ? `http://mock/articles.json?page=${page + 1}` : null,
+      });
+    });
+
+    await new Promise<void>(resolve => {
+      server = app.listen(0, () => resolve());
+    });
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    articles = [
+      article(1),
+      article(2),
+      article(3, { draft: true }),
+      article(4),
+    ];
+
+    const port = (server.address() as AddressInfo).port;
+    const zendesk = new ZendeskClient({
+      subdomain: 'test',
+      email: 'test@test.com',
+      token: 'token',
+      baseUrl: `http://127.0.0.1:${port}/api/v2`,
+    });
+
+    store = new LocalVectorStore();
+    const rag = new RAGService(
+      { backend: 'local', indexName: 'local' },
+      { store, embedder: new LocalHashEmbeddingProvider({ dimension: 64 }) }
+    );
+    sync = new HelpCenterSync(zendesk, rag, { locales: ['en-us'] });
+  });
+
+  it('should page through articles and index published ones', async () => {
+    const report = await sync.sync();
+
+    expect(report.added.map(a => a.id)).toEqual(['hc-en-us-1', 'hc-en-us-2', 'hc-en-us-4']);
+    expect(report.updated).toEqual([]);
+    expect(report.removed).toEqual([]);
+    expect(await store.listIds('default', 'hc-en-us-3')).toEqual([]);
+    expect(sync.status().articles).toBe(3);
+  });
+
+  it('should only re-index articles whose updated_at changed', async () => {
+    await sync.sync();
+    articles[1] = article(2, { updated_at: '2024-02-01T00:00:00Z', body: '<p>Rewritten</p>' });
+
+    const report = await sync.sync();
+
+    expect(report.added).toEqual([]);
+    expect(report.updated.map(a => a.id)).toEqual(['hc-en-us-2']);
+    expect(report.unchanged).toBe(2);
+  });
+
+  it('should remove archived articles from the vector store', async () => {
+    await sync.sync();
+    articles = articles.filter(a => a.id !== 4);
+
+    const report = await sync.sync();
+
+    expect(report.removed).toEqual([{ id: 'hc-en-us-4', title: 'Article 4' }]);
+    expect(await store.listIds('default', 'hc-en-us-4')).toEqual([]);
+  });
+
+  it('should re-index everything on a full sync', async () => {
+    await sync.sync();
+    const report = await sync.sync({ full: true });
+
+    expect(report.updated).toHaveLength(3);
+    expect(report.unchanged).toBe(0);
+  });
+});
+
+describe('htmlToText()', () => {
+  it('should turn headings into markdown and strip tags', () => {
+    const text = htmlToText('<h2>Setup</h2><p>Click <b>Save</b> &amp; continue.</p><ul><li>One</li><li>Two</li></ul>');
+
+    expect(text).toBe('## Setup\n\nClick Save & continue.\n\n- One\n- Two');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../src/utils/config';
+import { LLMOrchestrator } from '../src/llm/orchestrator';
+import { RAGService } from '../src/rag/service';
+import { UsageTracker } from '../src/llm/usage';
+import { TicketProcessor } from '../src/processor';
+import { ZendeskClient } from '../src/zendesk/client';
+import { AppConfig } from '../src/types';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+/**
+ * Runs the real orchestration code offline: mock LLM fixtures, local embeddings
+ * and the local vector store, selected through environment configuration
+ */
+describe('Offline pipeline (mock LLM provider)', () => {
+  const savedEnv = { ...process.env };
+  let dataDir: string;
+  let config: AppConfig;
+
+  beforeAll(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zendesk-ai-'));
+    Object.assign(process.env, {
+      ZENDESK_SUBDOMAIN: 'test',
+      ZENDESK_EMAIL: 'test@test.com',
+      ZENDESK_API_TOKEN: 'token',
+      LLM_PROVIDER: 'mock',
+      LLM_MOCK_FIXTURES: path.join(__dirname, 'fixtures/llm-fixtures.json'),
+      RAG_BACKEND: 'local',
+      EMBEDDING_PROVIDER: 'local',
+      RAG_LOCAL_STORE_PATH: path.join(dataDir, 'vectors.json'),
+      RAG_LEXICAL_INDEX_PATH: path.join(dataDir, 'lexical.json'),
+    });
+    config = loadConfig();
+  });
+
+  afterAll(() => {
+    process.env = savedEnv;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should select the mock provider and local backends from the environment', () => {
+    expect(config.llm.provider).toBe('mock');
+    expect(config.rag.backend).toBe('local');
+    expect(config.rag.embeddingProvider).toBe('local');
+  });
+
+  it('should process a ticket end to end', async () => {
+    const usageTracker = new UsageTracker();
+    const llm = new LLMOrchestrator(config.llm, { usage: usageTracker });
+    const rag = new RAGService(config.rag, { usage: usageTracker });
+    await rag.indexDocuments([{
+      id: 'kb-refunds',
+      title: 'Refunds for duplicate charges',
+      content: 'Duplicate charges on an invoice are refunded within 5-10 business days.',
+      category: 'billing',
+    }]);
+
+    const zendesk = {
+      getComments: vi.fn().mockResolvedValue([]),
+      safeUpdateTicket: vi.fn().mockResolvedValue({}),
+    };
+    const processor = new TicketProcessor(zendesk as unknown as ZendeskClient, llm, rag, { usageTracker });
+
+    const result = await processor.process({
+      id: 42,
+      subject: 'Charged twice',
+      description: 'My invoice shows a duplicate charge this month.',
+      requester: { name: 'Jane', email: 'jane@example.com' },
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.category).toBe('billing');
+    expect(result.intent.urgency).toBe('high');
+    expect(result.language).toBe('en');
+    expect(result.relevantKnowledge.map(k => k.id)).toContain('kb-refunds');
+    expect(result.draftResponse?.draft).toContain('refunded');
+    expect(zendesk.safeUpdateTicket).toHaveBeenCalledWith(42, expect.objectContaining({
+      comment: { body: expect.stringContaining(result.draftResponse!.draft), public: false },
+      priority: 'high',
+    }), undefined);
+    expect(result.usage?.steps).toMatchObject({
+      analyzeTicket: { calls: 1 },
+      generateDraft: { calls: 1 },
+    });
+    expect(llm.getStructuredOutputStats()).toMatchObject({
+      analyzeTicket: { requests: 1, valid: 1 },
+      generateDraft: { requests: 1, valid: 1 },
+    });
+  });
+
+  it('should report the mock provider as healthy', async () => {
+    const llm = new LLMOrchestrator(config.llm);
+
+    expect(await llm.verifyConnection()).toMatchObject({ success: true, provider: 'mock', model: 'mock' });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JobQueue } from '../src/queue/jobQueue';
+import { AppError, Errors } from '../src/middleware/errorHandler';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('JobQueue', () => {
+  const queues: JobQueue<unknown, unknown>[] = [];
+  const tmpDirs: string[] = [];
+
+  const createQueue = <T, R>(...args: ConstructorParameters<typeof JobQueue<T, R>>) => {
+    const queue = new JobQueue<T, R>(...args);
+    queues.push(queue as JobQueue<unknown, unknown>);
+    return queue;
+  };
+
+  afterEach(async () => {
+    await Promise.all(queues.splice(0).map(q => q.stop()));
+    tmpDirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  it('should process enqueued jobs', async () => {
+    const handler = vi.fn().mockResolvedValue('done');
+    const queue = createQueue(handler, { pollIntervalMs: 5 });
+    queue.start();
+
+    const job = queue.enqueue({ id: 1 });
+    await waitFor(() => queue.get(job.id)?.status === 'completed');
+
+    expect(handler).toHaveBeenCalledWith({ id: 1 }, expect.objectContaining({ id: job.id }));
+    expect(queue.get(job.id)?.result).toBe('done');
+  });
+
+  it('should respect worker concurrency', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const queue = createQueue(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      active--;
+    }, { concurrency: 2, pollIntervalMs: 5 });
+    queue.start();
+
+    for (let i = 0; i < 5; i++) queue.enqueue({ i });
+    await waitFor(() => queue.stats().completed === 5);
+
+    expect(maxActive).toBe(2);
+  });
+
+  it('should retry retryable errors with backoff', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce(Errors.llmError('timeout'))
+      .mockRejectedValueOnce(Errors.rateLimit(1))
+      .mockResolvedValue('ok');
+    const queue = createQueue(handler, { baseBackoffMs: 5, pollIntervalMs: 5 });
+    queue.start();
+
+    const job = queue.enqueue({});
+    await waitFor(() => queue.get(job.id)?.status === 'completed');
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(queue.get(job.id)?.attempts).toBe(3);
+  });
+
+  it('should dead-letter non-retryable errors immediately', async () => {
+    const handler = vi.fn().mockRejectedValue(Errors.badRequest('bad payload'));
+    const queue = createQueue(handler, { pollIntervalMs: 5 });
+    queue.start();
+
+    const job = queue.enqueue({});
+    await waitFor(() => queue.get(job.id)?.status === 'dead');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(queue.deadLetters()).toHaveLength(1);
+    expect(queue.get(job.id)?.lastErrorCode).toBe('BAD_REQUEST');
+  });
+
+  it('should hold jobs refused by a paused budget until it resets, without using attempts', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce(Errors.budgetExceeded('paused', Date.now() + 60))
+      .mockRejectedValueOnce(Errors.budgetExceeded('paused', Date.now() + 60))
+      .mockResolvedValue('ok');
+    const queue = createQueue(handler, { maxAttempts: 1, pollIntervalMs: 5 });
+    queue.start();
+
+    const job = queue.enqueue({});
+    await waitFor(() => handler.mock.calls.length === 1);
+    await waitFor(() => queue.get(job.id)?.status === 'pending');
+
+    expect(queue.get(job.id)).toMatchObject({ attempts: 0, lastErrorCode: 'BUDGET_EXCEEDED' });
+    expect(queue.get(job.id)!.nextRunAt).toBeGreaterThan(Date.now());
+    expect(queue.deadLetters()).toHaveLength(0);
+
+    await waitFor(() => queue.get(job.id)?.status === 'completed');
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(queue.get(job.id)?.attempts).toBe(1);
+  });
+
+  it('should dead-letter after exhausting attempts', async () => {
+    const handler = vi.fn().mockRejectedValue(new AppError('down', 502, 'ZENDESK_ERROR'));
+    const queue = createQueue(handler, { maxAttempts: 2, baseBackoffMs: 5, pollIntervalMs: 5 });
+    queue.start();
+
+    const job = queue.enqueue({});
+    await waitFor(() => queue.get(job.id)?.status === 'dead');
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry and purge dead jobs', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce(Errors.badRequest('bad'))
+      .mockResolvedValue('ok');
+    const queue = createQueue(handler, { pollIntervalMs: 5 });
+    queue.start();
+
+    const job = queue.enqueue({});
+    await waitFor(() => queue.get(job.id)?.status === 'dead');
+
+    queue.retry(job.id);
+    await waitFor(() => queue.get(job.id)?.status === 'completed');
+
+    expect(queue.purge()).toBe(1);
+    expect(queue.get(job.id)).toBeUndefined();
+  });
+
+  it('should mark jobs requeued by retry so the handler redoes the work', async () => {
+    const retried: Array<boolean | undefined> = [];
+    const queue = createQueue(async (_payload, job) => {
+      retried.push(job.retried);
+      return 'ok';
+    }, { pollIntervalMs: 5 });
+    queue.start();
+
+    const job = queue.enqueue({});
+    await waitFor(() => queue.get(job.id)?.status === 'completed');
+    queue.retry(job.id);
+    await waitFor(() => retried.length === 2);
+
+    expect(retried).toEqual([undefined, true]);
+  });
+
+  it('should refuse to retry a job that is still pending', () => {
+    const queue = createQueue(vi.fn());
+    const job = queue.enqueue({});
+
+    expect(() => queue.retry(job.id)).toThrow(expect.objectContaining({ code: 'CONFLICT', statusCode: 409 }));
+    expect(queue.retry('does-not-exist')).toBeUndefined();
+  });
+
+  it('should remove completed jobs once they expire, keeping dead ones', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce(Errors.badRequest('bad'))
+      .mockResolvedValue('ok');
+    const queue = createQueue(handler, { pollIntervalMs: 5, completedTtlMs: 30 });
+    queue.start();
+
+    const dead = queue.enqueue({});
+    const completed = queue.enqueue({});
+    await waitFor(() => queue.get(completed.id)?.status === 'completed');
+    await waitFor(() => queue.get(completed.id) === undefined);
+
+    expect(queue.get(dead.id)?.status).toBe('dead');
+  });
+
+  it('should persist jobs and requeue interrupted ones on restart', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobqueue-'));
+    tmpDirs.push(dir);
+    const filePath = path.join(dir, 'jobs.json');
+
+    // First queue is never started, simulating a crash before processing
+    const first = createQueue(vi.fn(), { filePath });
+    const job = first.enqueue({ id: 42 });
+
+    const persisted = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    persisted[0].status = 'processing';
+    fs.writeFileSync(filePath, JSON.stringify(persisted));
+
+    const handler = vi.fn().mockResolvedValue('recovered');
+    const second = createQueue(handler, { filePath, pollIntervalMs: 5 });
+    expect(second.get(job.id)?.status).toBe('pending');
+
+    second.start();
+    await waitFor(() => second.get(job.id)?.status === 'completed');
+    expect(handler).toHaveBeenCalledWith({ id: 42 }, expect.anything());
+  });
+});
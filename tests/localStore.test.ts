@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalVectorStore, matchesFilter, cosineSimilarity } from '../src/rag/localStore';
+import { RAGService, createVectorStore } from '../src/rag/service';
+import { VectorRecord } from '../src/rag/vectorStore';
+import { FakeEmbeddingProvider } from '../src/rag/embeddings';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const record = (id: string, values: number[], metadata: Record<string, unknown> = {}): VectorRecord => ({
+  id,
+  values,
+  metadata: {
+    text: `text for ${id}`,
+    title: id,
+    category: '',
+    url: '',
+    lastUpdated: '2024-01-01',
+    ...metadata,
+  } as VectorRecord['metadata'],
+});
+
+describe('LocalVectorStore', () => {
+  const tmpDirs: string[] = [];
+
+  afterEach(() => {
+    tmpDirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  it('should return nearest neighbours by cosine similarity', async () => {
+    const store = new LocalVectorStore();
+    await store.upsert('kb', [
+      record('a', [1, 0, 0]),
+      record('b', [0.9, 0.1, 0]),
+      record('c', [0, 0, 1]),
+    ]);
+
+    const matches = await store.query('kb', { vector: [1, 0, 0], topK: 2 });
+
+    expect(matches.map(m => m.id)).toEqual(['a', 'b']);
+    expect(matches[0].score).toBeCloseTo(1);
+    expect(matches[0].metadata?.title).toBe('a');
+  });
+
+  it('should apply metadata filters', async () => {
+    const store = new LocalVectorStore();
+    await store.upsert('kb', [
+      record('a', [1, 0], { category: 'billing' }),
+      record('b', [1, 0], { category: 'security' }),
+    ]);
+
+    const matches = await store.query('kb', {
+      vector: [1, 0],
+      topK: 5,
+      filter: { category: { $eq: 'security' } },
+    });
+
+    expect(matches.map(m => m.id)).toEqual(['b']);
+  });
+
+  it('should keep namespaces isolated', async () => {
+    const store = new LocalVectorStore();
+    await store.upsert('one', [record('a', [1, 0])]);
+    await store.upsert('two', [record('b', [1, 0])]);
+
+    expect((await store.query('one', { vector: [1, 0], topK: 5 })).map(m => m.id)).toEqual(['a']);
+    expect(await store.query('missing', { vector: [1, 0], topK: 5 })).toEqual([]);
+  });
+
+  it('should delete records and namespaces', async () => {
+    const store = new LocalVectorStore();
+    await store.upsert('kb', [record('a', [1, 0]), record('b', [0, 1])]);
+
+    await store.deleteMany('kb', ['a']);
+    expect((await store.stats()).namespaces.kb.vectorCount).toBe(1);
+
+    await store.deleteAll('kb');
+    expect((await store.stats()).totalVectors).toBe(0);
+  });
+
+  it('should reject vectors with a different dimension', async () => {
+    const store = new LocalVectorStore();
+    await store.upsert('kb', [record('a', [1, 0, 0])]);
+
+    await expect(store.upsert('kb', [record('b', [1, 0])])).rejects.toThrow('dimension');
+    await expect(store.query('kb', { vector: [1, 0], topK: 1 })).rejects.toThrow('dimension');
+  });
+
+  it('should persist to disk', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vectors-'));
+    tmpDirs.push(dir);
+    const filePath = path.join(dir, 'vectors.json');
+
+    await new LocalVectorStore({ filePath }).upsert('kb', [record('a', [1, 0])]);
+    const reloaded = new LocalVectorStore({ filePath });
+
+    expect((await reloaded.stats()).totalVectors).toBe(1);
+    expect((await reloaded.stats()).dimension).toBe(2);
+  });
+});
+
+describe('matchesFilter()', () => {
+  const metadata = { category: 'billing', views: 10, tags: ['refund', 'vip'] };
+
+  it('should match equality and comparison operators', () => {
+    expect(matchesFilter(metadata, { category: 'billing' })).toBe(true);
+    expect(matchesFilter(metadata, { views: { $gte: 10, $lt: 20 } })).toBe(true);
+    expect(matchesFilter(metadata, { views: { $gt: 10 } })).toBe(false);
+  });
+
+  it('should match list-valued fields on any element', () => {
+    expect(matchesFilter(metadata, { tags: { $in: ['vip'] } })).toBe(true);
+    expect(matchesFilter(metadata, { tags: { $nin: ['vip'] } })).toBe(false);
+  });
+
+  it('should support $and / $or / $exists', () => {
+    expect(matchesFilter(metadata, { $or: [{ category: 'security' }, { views: 10 }] })).toBe(true);
+    expect(matchesFilter(metadata, { $and: [{ category: 'billing' }, { views: 11 }] })).toBe(false);
+    expect(matchesFilter(metadata, { missing: { $exists: false } })).toBe(true);
+  });
+});
+
+describe('cosineSimilarity()', () => {
+  it('should handle zero vectors', () => {
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe('RAGService with local backend', () => {
+  it('should report stats and connection for the local store', async () => {
+    const store = new LocalVectorStore();
+    await store.upsert('default', [record('a', [1, 0])]);
+    const rag = new RAGService(
+      { backend: 'local', indexName: 'local' },
+      { store, embedder: new FakeEmbeddingProvider({ dimension: 2 }) }
+    );
+
+    const stats = await rag.getStats();
+    expect(stats.backend).toBe('local');
+    expect(stats.totalVectors).toBe(1);
+
+    const status = await rag.verifyConnection();
+    expect(status.success).toBe(true);
+    expect(status.backend).toBe('local');
+  });
+});
+
+describe('createVectorStore()', () => {
+  it('should reject an unknown backend', () => {
+    expect(() => createVectorStore({ backend: 'redis' as never, indexName: 'kb' })).toThrow('Unknown RAG backend: redis');
+  });
+});
@@ -0,0 +1,389 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LLMOrchestrator } from '../src/llm/orchestrator';
+import { validateSchema, INTENT_SCHEMA, DRAFT_SCHEMA } from '../src/llm/schema';
+import OpenAI from 'openai';
+import { LLMProviderClient, CompletionRequest, MockLLMProvider } from '../src/llm/providers';
+import { CircuitBreaker } from '../src/llm/circuitBreaker';
+import { LLMProvider } from '../src/types';
+import { Taxonomy } from '../src/utils/taxonomy';
+
+const { openaiCreate, anthropicToolsCreate } = vi.hoisted(() => ({
+  openaiCreate: vi.fn(),
+  anthropicToolsCreate: vi.fn(),
+}));
+
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    chat: { completions: { create: openaiCreate } },
+  })),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    messages: { create: vi.fn() },
+    beta: { tools: { messages: { create: anthropicToolsCreate } } },
+  })),
+}));
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const openaiReply = (content: string) => ({ choices: [{ message: { content } }] });
+
+const validIntent = {
+  intent: 'reset password',
+  urgency: 'high',
+  sentiment: 'frustrated',
+  keyEntities: ['login'],
+};
+
+describe('LLMOrchestrator structured output', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('OpenAI JSON mode', () => {
+    let llm: LLMOrchestrator;
+
+    beforeEach(() => {
+      llm = new LLMOrchestrator({ provider: 'openai', apiKey: 'test' });
+    });
+
+    it('should request JSON mode and return a valid reply', async () => {
+      openaiCreate.mockResolvedValueOnce(openaiReply(JSON.stringify(validIntent)));
+
+      const intent = await llm.extractIntent('I cannot log in!');
+
+      expect(intent).toEqual(validIntent);
+      expect(openaiCreate.mock.calls[0][0].response_format).toEqual({ type: 'json_object' });
+      expect(llm.getStructuredOutputStats().extractIntent).toMatchObject({ requests: 1, valid: 1 });
+    });
+
+    it('should retry with the validation errors when the reply does not match the schema', async () => {
+      openaiCreate
+        .mockResolvedValueOnce(openaiReply(JSON.stringify({ ...validIntent, urgency: 'asap' })))
+        .mockResolvedValueOnce(openaiReply(JSON.stringify(validIntent)));
+
+      const intent = await llm.extractIntent('I cannot log in!');
+
+      expect(intent.urgency).toBe('high');
+      expect(openaiCreate.mock.calls[1][0].messages[0].content).toContain('$.urgency: must be one of');
+      expect(llm.getStructuredOutputStats().extractIntent).toMatchObject({
+        requests: 1,
+        repaired: 1,
+        validationErrors: 1,
+      });
+    });
+
+    it('should count a fallback when the repair also fails', async () => {
+      openaiCreate.mockResolvedValue(openaiReply('Sorry, I cannot help with that.'));
+
+      const draft = await llm.generateDraft({
+        subject: 'Login',
+        description: 'Cannot log in',
+        customerName: 'Jane',
+        context: [],
+      });
+
+      expect(draft.confidence).toBe(0.5);
+      expect(draft.requiresHumanReview).toBe(true);
+      expect(openaiCreate).toHaveBeenCalledTimes(2);
+      expect(llm.getStructuredOutputStats().generateDraft).toMatchObject({
+        requests: 1,
+        fallbacks: 1,
+        parseErrors: 2,
+      });
+    });
+
+    it('should default the category when the reply is not a known category', async () => {
+      openaiCreate.mockResolvedValue(openaiReply('{"category": "complaints", "confidence": 0.9}'));
+
+      const prediction = await llm.categorize({ subject: 'Hi', description: 'Hello' });
+
+      expect(prediction).toEqual({ category: 'general_inquiry', path: ['general_inquiry'], confidence: 0 });
+      expect(llm.getStructuredOutputStats().categorize.fallbacks).toBe(1);
+    });
+
+    it('should categorize into a subcategory of a configured taxonomy', async () => {
+      const taxonomy = new Taxonomy([
+        {
+          id: 'billing',
+          description: 'Payments and invoices',
+          children: [{ id: 'invoices', description: 'Invoice copies', examples: ['Where is my March invoice?'] }],
+        },
+        { id: 'other' },
+      ]);
+      llm = new LLMOrchestrator({ provider: 'openai', apiKey: 'test' }, { taxonomy });
+      openaiCreate.mockResolvedValueOnce(openaiReply('{"category": "billing/invoices", "confidence": 0.82}'));
+
+      const prediction = await llm.categorize({ subject: 'Invoice', description: 'Please resend it' });
+
+      expect(prediction).toEqual({ category: 'billing/invoices', path: ['billing', 'invoices'], confidence: 0.82 });
+      expect(openaiCreate.mock.calls[0][0].messages[0].content).toContain(
+        '- billing: Payments and invoices\n  - billing/invoices: Invoice copies\n      Example: "Where is my March invoice?"\n- other'
+      );
+    });
+
+    it('should analyze category, intent and language in one request', async () => {
+      const analysis = { category: 'account_management', categoryConfidence: 0.75, ...validIntent, language: 'de' };
+      openaiCreate.mockResolvedValueOnce(openaiReply(JSON.stringify(analysis)));
+
+      const result = await llm.analyzeTicket({
+        subject: 'Anmeldung',
+        description: 'Ich kann mich nicht anmelden',
+        latestMessage: 'Das Passwort-Reset funktioniert auch nicht',
+        threadSummary: 'Agent: Bitte setzen Sie Ihr Passwort zurück.',
+      });
+
+      expect(result).toEqual(analysis);
+      expect(openaiCreate).toHaveBeenCalledTimes(1);
+      expect(openaiCreate.mock.calls[0][0].messages[0].content).toContain('Das Passwort-Reset funktioniert auch nicht');
+    });
+  });
+
+  describe('Anthropic tool calling', () => {
+    it('should read the reply from the tool call input', async () => {
+      const llm = new LLMOrchestrator({ provider: 'anthropic', apiKey: 'test' });
+      anthropicToolsCreate.mockResolvedValueOnce({
+        content: [{ type: 'tool_use', id: 'tu_1', name: 'record_extractIntent', input: validIntent }],
+      });
+
+      const intent = await llm.extractIntent('I cannot log in!');
+
+      expect(intent).toEqual(validIntent);
+      const request = anthropicToolsCreate.mock.calls[0][0];
+      expect(request.tools[0].name).toBe('record_extractIntent');
+      expect(request.tools[0].input_schema.required).toEqual(INTENT_SCHEMA.required);
+    });
+  });
+});
+
+/**
+ * Scripted provider: each call takes the next behaviour, repeating the last one
+ */
+function fakeProvider(name: LLMProvider, ...behaviours: Array<string | Error | 'hang'>) {
+  const calls: CompletionRequest[] = [];
+  const provider: LLMProviderClient & { calls: CompletionRequest[] } = {
+    name,
+    defaultModel: `${name}-default`,
+    calls,
+    async complete(request) {
+      calls.push(request);
+      const behaviour = behaviours[Math.min(calls.length - 1, behaviours.length - 1)];
+      if (behaviour === 'hang') return new Promise(() => {});
+      if (behaviour instanceof Error) throw behaviour;
+      return { text: behaviour, model: request.model || `${name}-default` };
+    },
+  };
+  return provider;
+}
+
+const draftJson = JSON.stringify({ draft: 'Hello', confidence: 0.9, requiresHumanReview: false });
+const draftInput = { subject: 'Login', description: 'Cannot log in', customerName: 'Jane', context: [] };
+
+describe('LLMOrchestrator provider chain', () => {
+  it('should fail over to the next provider when one errors', async () => {
+    const openai = fakeProvider('openai', new Error('503 Service Unavailable'));
+    const anthropic = fakeProvider('anthropic', draftJson);
+    const llm = new LLMOrchestrator({ provider: 'openai', apiKey: 'x' }, { providers: [openai, anthropic] });
+
+    const draft = await llm.generateDraft(draftInput);
+
+    expect(draft.draft).toBe('Hello');
+    expect(openai.calls).toHaveLength(1);
+    expect(anthropic.calls).toHaveLength(1);
+    expect(llm.getProviderStatus()[0].circuit).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 1,
+      lastError: '503 Service Unavailable',
+    });
+  });
+
+  it('should fail over when a provider times out', async () => {
+    const openai = fakeProvider('openai', 'hang');
+    const anthropic = fakeProvider('anthropic', draftJson);
+    const llm = new LLMOrchestrator(
+      { provider: 'openai', apiKey: 'x', timeoutMs: 20 },
+      { providers: [openai, anthropic] }
+    );
+
+    const draft = await llm.generateDraft(draftInput);
+
+    expect(draft.draft).toBe('Hello');
+    expect(llm.getProviderStatus()[0].circuit.lastError).toContain('timed out');
+  });
+
+  it('should skip a provider while its circuit is open', async () => {
+    const openai = fakeProvider('openai', new Error('down'));
+    const anthropic = fakeProvider('anthropic', draftJson);
+    const llm = new LLMOrchestrator(
+      { provider: 'openai', apiKey: 'x', circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60_000 } },
+      { providers: [openai, anthropic] }
+    );
+
+    await llm.generateDraft(draftInput);
+    await llm.generateDraft(draftInput);
+    await llm.generateDraft(draftInput);
+
+    expect(openai.calls).toHaveLength(2);
+    expect(anthropic.calls).toHaveLength(3);
+    expect(llm.getProviderStatus()[0].circuit.state).toBe('open');
+  });
+
+  it('should throw LLM_ERROR when every provider fails', async () => {
+    const llm = new LLMOrchestrator({ provider: 'openai', apiKey: 'x' }, {
+      providers: [fakeProvider('openai', new Error('down')), fakeProvider('anthropic', new Error('overloaded'))],
+    });
+
+    await expect(llm.summarizeThread(['hi'])).rejects.toMatchObject({
+      code: 'LLM_ERROR',
+      message: expect.stringContaining('All LLM providers failed for summarizeThread: openai: down; anthropic: overloaded'),
+    });
+  });
+
+  it('should route tasks to their configured provider and model', async () => {
+    const openai = fakeProvider('openai', '{"category": "billing", "confidence": 0.9}');
+    const anthropic = fakeProvider('anthropic', draftJson);
+    const llm = new LLMOrchestrator({
+      provider: 'openai',
+      apiKey: 'x',
+      routes: {
+        categorize: [{ provider: 'openai', model: 'gpt-4o-mini' }],
+        generateDraft: [{ provider: 'anthropic', model: 'claude-3-5-sonnet-20240620' }, { provider: 'openai' }],
+      },
+    }, { providers: [openai, anthropic] });
+
+    await llm.categorize({ subject: 'Invoice', description: 'Wrong amount' });
+    await llm.generateDraft(draftInput);
+
+    expect(openai.calls[0].model).toBe('gpt-4o-mini');
+    expect(anthropic.calls[0].model).toBe('claude-3-5-sonnet-20240620');
+    expect(openai.calls).toHaveLength(1);
+  });
+
+  it('should report healthy when a fallback provider answers', async () => {
+    const llm = new LLMOrchestrator({ provider: 'openai', apiKey: 'x' }, {
+      providers: [fakeProvider('openai', new Error('down')), fakeProvider('anthropic', 'ok')],
+    });
+
+    const status = await llm.verifyConnection();
+
+    expect(status.success).toBe(true);
+    expect(status.provider).toBe('anthropic');
+    expect(status.providers.map(p => p.provider)).toEqual(['openai', 'anthropic']);
+  });
+});
+
+describe('Offline providers', () => {
+  it('should point openai_compatible at the configured base URL', async () => {
+    const llm = new LLMOrchestrator({
+      provider: 'openai_compatible',
+      apiKey: '',
+      baseUrl: 'http://localhost:8000/v1',
+      model: 'llama-3-8b-instruct',
+    });
+    openaiCreate.mockResolvedValueOnce(openaiReply('{"category": "billing", "confidence": 0.8}'));
+
+    expect(await llm.categorize({ subject: 'Invoice', description: 'Wrong amount' })).toMatchObject({ category: 'billing' });
+    expect(OpenAI).toHaveBeenLastCalledWith(expect.objectContaining({
+      baseURL: 'http://localhost:8000/v1',
+      apiKey: 'not-needed',
+    }));
+    expect(openaiCreate.mock.calls.at(-1)![0].model).toBe('llama-3-8b-instruct');
+  });
+
+  it('should replay mock fixtures by prompt hash before task and default', async () => {
+    const prompt = 'Summarize: hello';
+    const mock = new MockLLMProvider({
+      fixtures: {
+        prompts: { [MockLLMProvider.hashPrompt(prompt)]: 'exact' },
+        tasks: { summarizeThread: 'by task' },
+        default: 'default',
+      },
+    });
+    const request = { maxTokens: 10, temperature: 0 };
+
+    expect((await mock.complete({ ...request, prompt, task: 'summarizeThread' })).text).toBe('exact');
+    expect((await mock.complete({ ...request, prompt: 'other', task: 'summarizeThread' })).text).toBe('by task');
+    expect((await mock.complete({ ...request, prompt: 'other', task: 'categorize' })).text).toBe('default');
+    expect(mock.calls.map(c => c.hash)[0]).toBe(MockLLMProvider.hashPrompt(prompt));
+  });
+
+  it('should fail with the prompt hash when no fixture matches', async () => {
+    const mock = new MockLLMProvider({ fixtures: {} });
+
+    await expect(mock.complete({ prompt: 'hi', task: 'categorize', maxTokens: 10, temperature: 0 }))
+      .rejects.toThrow(`No mock fixture for prompt ${MockLLMProvider.hashPrompt('hi')} (task categorize)`);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should allow one trial request after the reset timeout', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+
+    breaker.recordFailure('boom');
+    expect(breaker.canRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.snapshot().state).toBe('half_open');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false); // Trial already in flight
+
+    breaker.recordSuccess();
+    expect(breaker.snapshot().state).toBe('closed');
+    vi.useRealTimers();
+  });
+
+  it('should re-open when the trial request fails', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+
+    ['a', 'b', 'c'].forEach(e => breaker.recordFailure(e));
+    vi.advanceTimersByTime(1000);
+    breaker.canRequest();
+    breaker.recordFailure('still down');
+
+    expect(breaker.snapshot().state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+    vi.useRealTimers();
+  });
+});
+
+describe('validateSchema()', () => {
+  it('should accept a valid draft', () => {
+    expect(validateSchema({
+      draft: 'Hello',
+      confidence: 0.9,
+      suggestedTags: ['a'],
+      requiresHumanReview: false,
+    }, DRAFT_SCHEMA)).toEqual([]);
+  });
+
+  it('should report every violation with its path', () => {
+    const errors = validateSchema({
+      draft: '',
+      confidence: 1.5,
+      suggestedTags: ['a', 2],
+    }, DRAFT_SCHEMA);
+
+    expect(errors).toEqual([
+      '$.requiresHumanReview: is required',
+      '$.draft: must be at least 1 characters',
+      '$.confidence: must be <= 1',
+      '$.suggestedTags[1]: expected string, got number',
+    ]);
+  });
+
+  it('should reject non-objects', () => {
+    expect(validateSchema(null, INTENT_SCHEMA)).toEqual(['$: expected object, got null']);
+    expect(validateSchema([], INTENT_SCHEMA)).toEqual(['$: expected object, got array']);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PIIDetector, luhnValid, ibanValid } from '../src/utils/pii';
+import { runWithTicketContext } from '../src/utils/context';
+import { LLMOrchestrator } from '../src/llm/orchestrator';
+import { MockLLMProvider } from '../src/llm/providers';
+import { logger } from '../src/utils/logger';
+
+describe('PIIDetector', () => {
+  const detector = new PIIDetector();
+
+  it('should only treat Luhn-valid digit runs as card numbers', () => {
+    expect(luhnValid('4111 1111 1111 1111')).toBe(true);
+    expect(luhnValid('4111-1111-1111-1112')).toBe(false);
+
+    expect(detector.find('card 4111 1111 1111 1111').map(m => m.type)).toEqual(['card']);
+    expect(detector.find('order 1234567890123').map(m => m.type)).toEqual([]);
+  });
+
+  it('should validate IBANs and IP addresses', () => {
+    expect(ibanValid('GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(ibanValid('GB82 WEST 1234 5698 7654 33')).toBe(false);
+
+    expect(detector.find('pay to GB82 WEST 1234 5698 7654 32').map(m => m.type)).toEqual(['iban']);
+    expect(detector.find('from 10.0.0.12, not 999.1.1.1').map(m => m.value)).toEqual(['10.0.0.12']);
+  });
+
+  it('should find street addresses', () => {
+    expect(detector.strip('Ship it to 221 Baker Street please')).toBe('Ship it to [address] please');
+    expect(detector.strip('I tried 3 times on the way home')).toBe('I tried 3 times on the way home');
+  });
+
+  it('should apply only the configured types plus custom patterns', () => {
+    const custom = new PIIDetector({ types: ['email'], customPatterns: [{ type: 'account_id', pattern: 'ACC-\\d{6}' }] });
+
+    expect(custom.strip('ACC-123456, jo@example.com, 10.0.0.12')).toBe('[account_id], [email], 10.0.0.12');
+    expect(() => new PIIDetector({ customPatterns: [{ type: 'bad', pattern: '(' }] })).toThrow('Invalid PII pattern for bad');
+    expect(() => new PIIDetector({ customPatterns: [{ type: 'Bad Type', pattern: 'x' }] })).toThrow('Invalid PII pattern type');
+  });
+});
+
+describe('RedactionSession', () => {
+  it('should give each value a stable placeholder and restore it', () => {
+    const session = new PIIDetector().session();
+
+    const first = session.redact('Email jo@example.com or ann@example.com, call 415-555-0100');
+    const second = session.redact('As I said, jo@example.com');
+
+    expect(first).toBe('Email [EMAIL_1] or [EMAIL_2], call [PHONE_1]');
+    expect(second).toBe('As I said, [EMAIL_1]');
+    expect(session.restore('Hi, we will write to [EMAIL_1] about [EMAIL_9]')).toBe('Hi, we will write to jo@example.com about [EMAIL_9]');
+    expect(session.report()).toEqual({ total: 3, byType: { email: 2, phone: 1 }, occurrences: 4 });
+  });
+
+  it('should restore nested values', () => {
+    const session = new PIIDetector().session();
+    session.redact('jo@example.com');
+
+    expect(session.restoreDeep({ draft: 'To [EMAIL_1]', tags: ['[EMAIL_1]'], confidence: 0.9 }))
+      .toEqual({ draft: 'To jo@example.com', tags: ['jo@example.com'], confidence: 0.9 });
+  });
+});
+
+describe('LLMOrchestrator redaction', () => {
+  const draftInput = {
+    subject: 'Refund',
+    description: 'Refund card 4111 1111 1111 1111, reply to jo@example.com',
+    customerName: 'Jo',
+    context: [],
+  };
+
+  it('should send placeholders to the provider and restore them in the draft', async () => {
+    const provider = new MockLLMProvider({
+      fixtures: {
+        default: { draft: 'We refunded the card and emailed [EMAIL_1].', confidence: 0.9, suggestedTags: [], requiresHumanReview: false, reasoning: '' },
+      },
+    });
+    const detector = new PIIDetector();
+    const llm = new LLMOrchestrator({ provider: 'mock', apiKey: '' }, { providers: [provider], pii: detector });
+    const session = detector.session();
+
+    const draft = await runWithTicketContext({ ticketId: 1, tenant: 'default', redaction: session }, () =>
+      llm.generateDraft(draftInput)
+    );
+
+    expect(provider.calls[0].prompt).toContain('Refund card [CARD_1], reply to [EMAIL_1]');
+    expect(provider.calls[0].prompt).not.toContain('jo@example.com');
+    expect(draft.draft).toBe('We refunded the card and emailed jo@example.com.');
+    expect(session.report()).toMatchObject({ total: 2, byType: { card: 1, email: 1 } });
+  });
+
+  it('should leave prompts alone without a detector', async () => {
+    const provider = new MockLLMProvider({ fixtures: { default: 'summary' } });
+    const llm = new LLMOrchestrator({ provider: 'mock', apiKey: '' }, { providers: [provider] });
+
+    await llm.summarizeThread(['Customer: reach me at jo@example.com']);
+
+    expect(provider.calls[0].prompt).toContain('jo@example.com');
+  });
+});
+
+describe('logger redaction', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should strip PII from logged context', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    logger.info('Processing ticket', { subject: 'Refund for jo@example.com', meta: { ip: '10.0.0.12' }, count: 2 });
+
+    const output = log.mock.calls[0][0] as string;
+    expect(output).toContain('Refund for [email]');
+    expect(output).toContain('[ip address]');
+    expect(output).not.toContain('jo@example.com');
+  });
+});
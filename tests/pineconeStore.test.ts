@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const index = {
+  listPaginated: vi.fn(),
+  fetch: vi.fn(),
+};
+const describeIndex = vi.fn();
+
+vi.mock('@pinecone-database/pinecone', () => ({
+  Pinecone: vi.fn().mockImplementation(() => ({
+    describeIndex,
+    index: () => ({ namespace: () => index }),
+  })),
+}));
+
+import { PineconeVectorStore } from '../src/rag/pineconeStore';
+
+describe('PineconeVectorStore.listIds', () => {
+  let store: PineconeVectorStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = new PineconeVectorStore({ apiKey: 'test-key', indexName: 'kb' });
+  });
+
+  it('should page through ids on serverless indexes', async () => {
+    describeIndex.mockResolvedValue({ spec: { serverless: { cloud: 'aws', region: 'us-east-1' } } });
+    index.listPaginated
+      .mockResolvedValueOnce({ vectors: [{ id: 'kb-1#chunk-0' }], pagination: { next: 'p2' } })
+      .mockResolvedValueOnce({ vectors: [{ id: 'kb-1#chunk-1' }] });
+
+    expect(await store.listIds('default', 'kb-1#chunk-')).toEqual(['kb-1#chunk-0', 'kb-1#chunk-1']);
+    expect(index.listPaginated).toHaveBeenLastCalledWith({ prefix: 'kb-1#chunk-', paginationToken: 'p2' });
+    expect(index.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should fetch chunk ids in order on pod-based indexes', async () => {
+    describeIndex.mockResolvedValue({ spec: { pod: { environment: 'us-east1-gcp', podType: 'p1.x1' } } });
+    const stored = new Set(Array.from({ length: 53 }, (_, i) => `kb-1#chunk-${i}`));
+    index.fetch.mockImplementation(async (ids: string[]) => ({
+      records: Object.fromEntries(ids.filter(id => stored.has(id)).map(id => [id, { id }])),
+    }));
+
+    const ids = await store.listIds('default', 'kb-1#chunk-');
+
+    expect(ids).toHaveLength(53);
+    expect(ids[52]).toBe('kb-1#chunk-52');
+    expect(index.fetch).toHaveBeenCalledTimes(2);
+    expect(index.listPaginated).not.toHaveBeenCalled();
+
+    await store.listIds('default', 'kb-2#chunk-');
+    expect(describeIndex).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse other prefixes on pod-based indexes', async () => {
+    describeIndex.mockResolvedValue({ spec: { pod: { environment: 'us-east1-gcp', podType: 'p1.x1' } } });
+
+    await expect(store.listIds('default', 'kb-')).rejects.toThrow('can only list the chunks of a document');
+  });
+});
+
+describe('PineconeVectorStore.fetch', () => {
+  it('should return stored records in the order asked, leaving out missing ids', async () => {
+    const store = new PineconeVectorStore({ apiKey: 'test-key', indexName: 'kb' });
+    const metadata = { text: 'Reset it', title: 'Login', category: '', url: '', lastUpdated: '' };
+    index.fetch.mockResolvedValue({
+      records: {
+        'kb-1#chunk-1': { id: 'kb-1#chunk-1', values: [0, 1], metadata },
+        'kb-1#chunk-0': { id: 'kb-1#chunk-0', values: [1, 0], metadata },
+      },
+    });
+
+    const records = await store.fetch('default', ['kb-1#chunk-0', 'kb-2#chunk-0', 'kb-1#chunk-1']);
+
+    expect(records.map(r => r.id)).toEqual(['kb-1#chunk-0', 'kb-1#chunk-1']);
+    expect(records[0]).toEqual({ id: 'kb-1#chunk-0', values: [1, 0], metadata });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ZendeskClient } from '../src/zendesk/client';
+import { LLMOrchestrator } from '../src/llm/orchestrator';
+import { RAGService } from '../src/rag/service';
+import { LocalVectorStore } from '../src/rag/localStore';
+import { LocalHashEmbeddingProvider } from '../src/rag/embeddings';
+import { ResolvedTicketIndexer } from '../src/rag/resolvedTicketIndexer';
+import { ZendeskTicket } from '../src/types';
+import { stripPII } from '../src/utils/pii';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const ticket = (id: number, overrides: Partial<ZendeskTicket> = {}): ZendeskTicket => ({
+  id,
+  subject: `Export fails with error E42 (ticket ${id})`,
+  description: 'My export fails',
+  status: 'solved',
+  priority: 'normal',
+  tags: ['export'],
+  requester_id: 100,
+  assignee_id: 200,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z',
+  custom_fields: [],
+  ...overrides,
+});
+
+const comment = (authorId: number, body: string, isPublic = true) => ({
+  id: Math.floor(Math.random() * 1e6),
+  body,
+  html_body: body,
+  public: isPublic,
+  author_id: authorId,
+  created_at: '2024-01-01T00:00:00Z',
+});
+
+describe('ResolvedTicketIndexer', () => {
+  let zendesk: { searchTickets: ReturnType<typeof vi.fn>; getComments: ReturnType<typeof vi.fn> };
+  let llm: { summarizeThread: ReturnType<typeof vi.fn> };
+  let store: LocalVectorStore;
+  let rag: RAGService;
+  let indexer: ResolvedTicketIndexer;
+
+  beforeEach(() => {
+    zendesk = {
+      searchTickets: vi.fn().mockResolvedValue({
+        results: [ticket(1), ticket(2)],
+        count: 2,
+        next_page: null,
+      }),
+      getComments: vi.fn(async (id: number) => id === 1
+        ? [
+          comment(100, 'Export fails with E42. Reach me at jane@example.com or 555-123-4567.'),
+          comment(200, 'Internal: check the export worker', false),
+          comment(200, 'Clear the export cache under Settings > Data, then retry.'),
+        ]
+        : [comment(100, 'Still broken?')]
+      ),
+    };
+    llm = {
+      summarizeThread: vi.fn().mockResolvedValue(
+        'Exports failed with error E42. Clearing the export cache under Settings > Data resolved it.'
+      ),
+    };
+
+    store = new LocalVectorStore();
+    rag = new RAGService(
+      { backend: 'local', indexName: 'local', resolvedNamespace: 'resolved_tickets' },
+      { store, embedder: new LocalHashEmbeddingProvider({ dimension: 64 }) }
+    );
+    indexer = new ResolvedTicketIndexer(
+      zendesk as unknown as ZendeskClient,
+      llm as unknown as LLMOrchestrator,
+      rag,
+      { namespace: 'resolved_tickets', maxTickets: 50 }
+    );
+  });
+
+  it('should summarize solved tickets into the resolved namespace', async () => {
+    const report = await indexer.run();
+
+    expect(zendesk.searchTickets.mock.calls[0][0]).toContain('status:solved');
+    expect(report.indexed).toEqual([{ id: 'ticket-1', title: 'Export fails with error E42 (ticket 1)' }]);
+    expect(await store.listIds('resolved_tickets', 'ticket-1')).toHaveLength(1);
+    expect(await store.listIds('default', 'ticket-1')).toEqual([]);
+  });
+
+  it('should strip PII and drop private comments before summarizing', async () => {
+    await indexer.run();
+
+    const messages = llm.summarizeThread.mock.calls[0][0] as string[];
+    expect(messages).toEqual([
+      'Customer: Export fails with E42. Reach me at [email] or [phone].',
+      'Agent: Clear the export cache under Settings > Data, then retry.',
+    ]);
+    expect(llm.summarizeThread.mock.calls[0][1]).toEqual({ focus: 'resolution' });
+  });
+
+  it('should skip tickets without a public agent reply', async () => {
+    const report = await indexer.run();
+
+    expect(report.skipped).toEqual([{ id: 'ticket-2', reason: 'No public agent reply' }]);
+  });
+
+  it('should not re-summarize unchanged tickets', async () => {
+    await indexer.run();
+    llm.summarizeThread.mockClear();
+
+    const report = await indexer.run();
+
+    expect(report.unchanged).toBe(1);
+    expect(llm.summarizeThread).not.toHaveBeenCalled();
+    expect(zendesk.searchTickets.mock.calls[1][0]).toContain(`updated>=${ticket(2).updated_at}`);
+  });
+
+  it('should resume after the last ticket processed when the limit cuts a run short', async () => {
+    zendesk.searchTickets.mockResolvedValueOnce({
+      results: [ticket(1, { updated_at: '2024-01-02T08:00:00Z' }), ticket(2, { updated_at: '2024-01-05T09:00:00Z' })],
+      count: 2,
+      next_page: 'page-2',
+    });
+
+    await indexer.run({ limit: 1 });
+    await indexer.run();
+
+    expect(zendesk.searchTickets.mock.calls[1][0]).toContain('updated>=2024-01-02T08:00:00Z');
+  });
+
+  it('should move past a day with more solved tickets than the limit', async () => {
+    const sameDay = Array.from({ length: 5 }, (_, i) =>
+      ticket(10 + i, { updated_at: `2024-01-02T0${i}:00:00Z` })
+    );
+    zendesk.searchTickets.mockImplementation(async (query: string) => {
+      const since = /updated>=(\S+)/.exec(query)?.[1] ?? '';
+      return { results: sameDay.filter(t => t.updated_at >= since), count: 5, next_page: null };
+    });
+    zendesk.getComments.mockResolvedValue([comment(100, 'Help'), comment(200, 'Fixed by clearing the cache.')]);
+    indexer = new ResolvedTicketIndexer(
+      zendesk as unknown as ZendeskClient,
+      llm as unknown as LLMOrchestrator,
+      rag,
+      { namespace: 'resolved_tickets', maxTickets: 2 }
+    );
+
+    const runs = [await indexer.run(), await indexer.run(), await indexer.run()];
+
+    expect(runs.map(r => r.indexed.map(d => d.id))).toEqual([
+      ['ticket-10', 'ticket-11'],
+      ['ticket-12', 'ticket-13'],
+      ['ticket-14'],
+    ]);
+    expect(runs[1].unchanged).toBe(1);
+  });
+
+  it('should retry a ticket that failed from its update time', async () => {
+    zendesk.searchTickets.mockResolvedValueOnce({
+      results: [ticket(1, { updated_at: '2024-01-03T08:00:00Z' }), ticket(3, { updated_at: '2024-01-06T09:00:00Z' })],
+      count: 2,
+      next_page: null,
+    });
+    zendesk.getComments.mockImplementation(async (id: number) => {
+      if (id === 1) throw new Error('Zendesk down');
+      return [comment(100, 'Help'), comment(200, 'Fixed by clearing the cache.')];
+    });
+
+    const report = await indexer.run();
+    await indexer.run();
+
+    expect(report.errors).toEqual([{ id: 'ticket-1', error: 'Zendesk down' }]);
+    expect(zendesk.searchTickets.mock.calls[1][0]).toContain('updated>=2024-01-03T08:00:00Z');
+  });
+
+  it('should rank curated articles above resolved tickets in hybrid search', async () => {
+    await indexer.run();
+    await rag.indexDocuments([{
+      id: 'kb-export',
+      title: 'Fixing export error E42',
+      content: 'Exports failed with error E42. Clearing the export cache under Settings > Data resolved it.',
+    }]);
+
+    const results = await rag.hybridSearch('export error E42 cache');
+
+    expect(results.map(r => r.id)).toEqual(['kb-export', 'ticket-1']);
+    expect(results[1].source).toBe('resolved_ticket');
+    expect(results[1].score).toBeLessThanOrEqual(0.5);
+  });
+
+  it('should leave resolved tickets out when their weight is 0', async () => {
+    await indexer.run();
+
+    const results = await rag.hybridSearch('export error E42 cache', [], { resolvedTicketWeight: 0 });
+
+    expect(results).toEqual([]);
+  });
+});
+
+describe('stripPII()', () => {
+  it('should replace emails, phone numbers, card numbers and IP addresses', () => {
+    expect(stripPII('Mail bob.smith@corp.io, call +1 (415) 555-0100, card 4111 1111 1111 1111 from 10.0.0.12'))
+      .toBe('Mail [email], call [phone], card [card number] from [ip address]');
+  });
+
+  it('should leave ordinary text and dates alone', () => {
+    expect(stripPII('Order 1234 failed on 2024-01-15 with error E42')).toBe('Order 1234 failed on 2024-01-15 with error E42');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RulesEngine, RoutingFacts } from '../src/automation/rulesEngine';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'routing-rules.yaml');
+
+const facts = (overrides: Partial<RoutingFacts> = {}): RoutingFacts => ({
+  category: 'billing',
+  urgency: 'medium',
+  sentiment: 'neutral',
+  keyEntities: [],
+  requesterEmail: 'jane@example.com',
+  tags: [],
+  ...overrides,
+});
+
+describe('RulesEngine', () => {
+  const engine = RulesEngine.fromFile(FIXTURE);
+
+  it('should load rules from YAML', () => {
+    expect(engine.rules.map(r => r.name)).toEqual(['security-escalation', 'enterprise-customers', 'angry-billing']);
+  });
+
+  it('should require every condition and accept any listed value', () => {
+    expect(engine.evaluate(facts({ sentiment: 'frustrated' })).matched).toEqual(['angry-billing']);
+    expect(engine.evaluate(facts({ category: 'refund', sentiment: 'negative' })).matched).toEqual(['angry-billing']);
+    expect(engine.evaluate(facts({ sentiment: 'positive' })).matched).toEqual([]);
+  });
+
+  it('should match subcategories of a rule\'s category', () => {
+    expect(engine.evaluate(facts({ category: 'billing/invoices', sentiment: 'negative' })).matched).toEqual(['angry-billing']);
+    expect(engine.evaluate(facts({ category: 'billing_legacy', sentiment: 'negative' })).matched).toEqual([]);
+  });
+
+  it('should match requester subdomains and ignore case', () => {
+    expect(engine.evaluate(facts({ requesterEmail: 'ops@EU.BigCustomer.com' })).matched).toEqual(['enterprise-customers']);
+    expect(engine.evaluate(facts({ requesterEmail: 'ops@notbigcustomer.com' })).matched).toEqual([]);
+  });
+
+  it('should combine tags and keep the first value of other actions', () => {
+    const decision = engine.evaluate(facts({ requesterEmail: 'ops@megacorp.io', sentiment: 'frustrated' }));
+
+    expect(decision).toEqual({
+      matched: ['enterprise-customers', 'angry-billing'],
+      actions: {
+        groupId: 360001,
+        assigneeId: 9001,
+        tags: ['enterprise', 'billing_escalation'],
+        customFields: { '360012': 'enterprise' },
+      },
+    });
+    expect(RulesEngine.toUpdate(decision.actions)).toEqual({
+      assignee_id: 9001,
+      group_id: 360001,
+      additional_tags: ['enterprise', 'billing_escalation'],
+      custom_fields: [{ id: 360012, value: 'enterprise' }],
+    });
+  });
+
+  it('should stop after a rule marked stop', () => {
+    const decision = engine.evaluate(facts({ category: 'security', requesterEmail: 'a@bigcustomer.com' }));
+
+    expect(decision.matched).toEqual(['security-escalation']);
+    expect(decision.actions.priority).toBe('urgent');
+  });
+
+  it('should match key entities and existing tags', () => {
+    const rules = new RulesEngine([
+      { name: 'sso', when: { keyEntities: ['SSO', 'SAML'] }, then: { groupId: 1 } },
+      { name: 'vip', when: { tags: 'vip' }, then: { priority: 'high' } },
+    ]);
+
+    expect(rules.evaluate(facts({ keyEntities: ['saml'], tags: ['VIP'] })).matched).toEqual(['sso', 'vip']);
+  });
+
+  it('should load rules from JSON', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+    const file = path.join(dir, 'rules.json');
+
+    try {
+      fs.writeFileSync(file, JSON.stringify([{ name: 'all', then: { tags: ['seen'] } }]));
+      expect(RulesEngine.fromFile(file).evaluate(facts()).matched).toEqual(['all']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject invalid rules with the rule name', () => {
+    expect(() => new RulesEngine({ name: 'x' })).toThrow('must be a list');
+    expect(() => new RulesEngine([{ name: 'bad', when: { team: 'a' }, then: {} }])).toThrow('Routing rule 1 (bad): unknown condition "team"');
+    expect(() => new RulesEngine([{ name: 'bad', then: { priority: 'asap' } }])).toThrow('priority must be one of');
+    expect(() => new RulesEngine([{ name: 'bad', then: { groupId: '42' } }])).toThrow('groupId must be an integer');
+    expect(() => new RulesEngine([{ when: {}, then: {} }])).toThrow('needs a name');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Taxonomy, DEFAULT_TAXONOMY, categoryWithin } from '../src/utils/taxonomy';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'taxonomy.yaml');
+
+describe('Taxonomy', () => {
+  const taxonomy = Taxonomy.fromFile(FIXTURE);
+
+  it('should load nested categories from YAML as paths', () => {
+    expect(taxonomy.paths()).toEqual([
+      'billing',
+      'billing/invoices',
+      'billing/refunds',
+      'technical_support',
+      'technical_support/export',
+      'technical_support/login',
+      'security',
+      'general_inquiry',
+    ]);
+    expect(taxonomy.fallback).toBe('general_inquiry');
+    expect(taxonomy.list()[1]).toEqual({
+      path: 'billing/invoices',
+      parent: 'billing',
+      description: 'Invoice copies and corrections',
+      examples: ['Can you resend my March invoice?'],
+      fieldValue: 'cat_billing_invoices',
+    });
+  });
+
+  it('should map categories to Zendesk field values', () => {
+    expect(taxonomy.fieldValue('billing/refunds')).toBe('cat_billing_refunds');
+    expect(taxonomy.fieldValue('technical_support/login')).toBe('technical_support__login');
+    expect(taxonomy.fieldValue('security')).toBe('security');
+  });
+
+  it('should describe the hierarchy for prompts', () => {
+    expect(taxonomy.describe()).toContain(
+      '- billing: Payments, invoices and charges\n' +
+      '  - billing/invoices: Invoice copies and corrections\n' +
+      '      Example: "Can you resend my March invoice?"\n' +
+      '  - billing/refunds: Refund requests and duplicate charges'
+    );
+  });
+
+  it('should default to the built-in flat categories', () => {
+    const builtIn = new Taxonomy();
+
+    expect(builtIn.paths()).toEqual(DEFAULT_TAXONOMY.map(c => c.id));
+    expect(builtIn.fallback).toBe('general_inquiry');
+    expect(builtIn.describe()).toContain('- refund: Refund requests, money back');
+  });
+
+  it('should load a bare JSON list and default the fallback to the first category', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taxonomy-'));
+    const file = path.join(dir, 'taxonomy.json');
+    fs.writeFileSync(file, JSON.stringify([{ id: 'orders', children: [{ id: 'returns' }] }, { id: 'other' }]));
+
+    const loaded = Taxonomy.fromFile(file);
+
+    expect(loaded.paths()).toEqual(['orders', 'orders/returns', 'other']);
+    expect(loaded.fallback).toBe('orders');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should reject invalid taxonomies', () => {
+    expect(() => new Taxonomy([])).toThrow('non-empty list');
+    expect(() => new Taxonomy([{ id: 'Billing Issues' }])).toThrow('Category 1 needs an id');
+    expect(() => new Taxonomy([{ id: 'billing', children: [{ id: 'x' }, { id: 'x' }] }])).toThrow('Duplicate category billing/x');
+    expect(() => new Taxonomy([{ id: 'a', fieldValue: 'v' }, { id: 'b', fieldValue: 'v' }]))
+      .toThrow('Categories a and b have the same fieldValue "v"');
+    expect(() => new Taxonomy([{ id: 'a' }], { fallback: 'b' })).toThrow('Taxonomy fallback "b" is not a category');
+    expect(() => taxonomy.check(['billing/refunds', 'refund'], 'AUTO_REPLY_CATEGORIES'))
+      .toThrow('Unknown category "refund" in AUTO_REPLY_CATEGORIES');
+  });
+});
+
+describe('categoryWithin', () => {
+  it('should match a category and its subcategories only', () => {
+    expect(categoryWithin('billing', 'billing')).toBe(true);
+    expect(categoryWithin('billing/invoices', 'billing')).toBe(true);
+    expect(categoryWithin('billing_legacy', 'billing')).toBe(false);
+    expect(categoryWithin('billing', 'billing/invoices')).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UsageTracker } from '../src/llm/usage';
+import { LLMOrchestrator } from '../src/llm/orchestrator';
+import { LLMProviderClient } from '../src/llm/providers';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+const call = (model: string, inputTokens: number, outputTokens: number) => ({
+  kind: 'llm' as const,
+  provider: 'openai',
+  model,
+  task: 'generateDraft',
+  inputTokens,
+  outputTokens,
+});
+
+describe('UsageTracker', () => {
+  let tracker: UsageTracker;
+
+  beforeEach(() => {
+    tracker = new UsageTracker({ prices: { 'gpt-4o': { input: 2, output: 8 } } });
+  });
+
+  it('should price calls by the longest matching model prefix', async () => {
+    const { records } = await tracker.track(async () => {
+      tracker.record(call('gpt-4o-2024-08-06', 1_000_000, 0));
+      tracker.record(call('gpt-4o-mini', 1_000_000, 1_000_000));
+    });
+
+    expect(records.map(r => r.costUsd)).toEqual([2, 0.75]); // Default gpt-4o-mini price
+  });
+
+  it('should count unknown models as free', async () => {
+    const { records } = await tracker.track(async () => tracker.record(call('local-model', 500, 500)));
+
+    expect(records[0].costUsd).toBe(0);
+  });
+
+  it('should attribute calls to the step they were made in', async () => {
+    const { records } = await tracker.track(async () => {
+      await tracker.step('analyzeTicket', async () => tracker.record(call('gpt-4o', 1000, 100)));
+      await tracker.step('generateDraft', async () => {
+        tracker.record(call('gpt-4o', 2000, 400));
+        tracker.record(call('gpt-4o', 2500, 300));
+      });
+    });
+
+    const usage = tracker.breakdown(records);
+
+    expect(usage.steps.analyzeTicket).toEqual({ calls: 1, inputTokens: 1000, outputTokens: 100, costUsd: 0.0028 });
+    expect(usage.steps.generateDraft.calls).toBe(2);
+    expect(usage.total).toMatchObject({ calls: 3, inputTokens: 5500, outputTokens: 800 });
+  });
+
+  it('should keep concurrent runs apart', async () => {
+    const [a, b] = await Promise.all([
+      tracker.track(async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        tracker.record(call('gpt-4o', 1, 1));
+      }),
+      tracker.track(async () => tracker.record(call('gpt-4o', 2, 2))),
+    ]);
+
+    expect(a.records).toHaveLength(1);
+    expect(b.records).toHaveLength(1);
+    expect(b.records[0].inputTokens).toBe(2);
+  });
+
+  describe('ledger', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should summarize committed usage by day, category and model', async () => {
+      const ledgerPath = path.join(dir, 'usage.jsonl');
+      tracker = new UsageTracker({ ledgerPath, prices: { 'gpt-4o': { input: 2, output: 8 } } });
+
+      const billing = await tracker.track(async () => tracker.record(call('gpt-4o', 1000, 500)));
+      await tracker.commit(billing.records, { ticketId: 1, category: 'billing' });
+      const other = await tracker.track(async () => tracker.record(call('local-model', 300, 100)));
+      await tracker.commit(other.records, { ticketId: 2, category: 'technical_support' });
+      await tracker.commit([{ ...call('gpt-4o', 100, 0), costUsd: 0.0002 }]);
+
+      const summary = await tracker.summarize({ from: new Date(Date.now() - 60_000) });
+      const today = new Date().toISOString().substring(0, 10);
+
+      expect(fs.readFileSync(ledgerPath, 'utf-8').trim().split('\n')).toHaveLength(3);
+      expect(summary.total).toEqual({ calls: 3, inputTokens: 1400, outputTokens: 600, costUsd: 0.0062 });
+      expect(summary.byDay[today].calls).toBe(3);
+      expect(summary.byCategory.billing.costUsd).toBe(0.006);
+      expect(summary.byCategory.unattributed.calls).toBe(1);
+      expect(summary.byModel['local-model']).toMatchObject({ calls: 1, costUsd: 0 });
+      expect(summary.unpricedModels).toEqual(['local-model']);
+    });
+
+    it('should exclude usage before the requested range', async () => {
+      tracker = new UsageTracker({ ledgerPath: path.join(dir, 'usage.jsonl') });
+      await tracker.commit([{ ...call('gpt-4o', 100, 0), costUsd: 0 }]);
+
+      const summary = await tracker.summarize({ from: new Date(Date.now() + 60_000) });
+
+      expect(summary.total.calls).toBe(0);
+    });
+  });
+});
+
+describe('LLMOrchestrator usage', () => {
+  it('should record the tokens reported by the provider', async () => {
+    const provider: LLMProviderClient = {
+      name: 'openai',
+      defaultModel: 'gpt-4o',
+      complete: vi.fn().mockResolvedValue({
+        text: 'Summary',
+        model: 'gpt-4o',
+        usage: { inputTokens: 120, outputTokens: 30 },
+      }),
+    };
+    const usage = new UsageTracker();
+    const llm = new LLMOrchestrator({ provider: 'openai', apiKey: 'test' }, { providers: [provider], usage });
+
+    const { records } = await usage.track(() => usage.step('loadConversation', () => llm.summarizeThread(['Hi'])));
+
+    expect(records).toEqual([expect.objectContaining({
+      kind: 'llm',
+      provider: 'openai',
+      model: 'gpt-4o',
+      task: 'summarizeThread',
+      step: 'loadConversation',
+      inputTokens: 120,
+      outputTokens: 30,
+    })]);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ZendeskClient } from '../src/zendesk/client';
+import { RateLimiter } from '../src/zendesk/rateLimiter';
+import { TicketProcessor } from '../src/processor';
+import { AutoReplyPolicy } from '../src/automation/autoReply';
+import { LLMOrchestrator } from '../src/llm/orchestrator';
+import { RAGService } from '../src/rag/service';
+
+vi.mock('../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    timed: vi.fn((name, fn) => fn()),
+  },
+}));
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue requests once the bucket is empty and release them as it refills', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 60 });
+    limiter.update({ 'x-rate-limit': '60', 'x-rate-limit-remaining': '1' });
+    const granted: number[] = [];
+
+    limiter.acquire().then(() => granted.push(1));
+    limiter.acquire().then(() => granted.push(2));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(granted).toEqual([1]);
+    expect(limiter.snapshot()).toMatchObject({ limit: 60, queued: 1, remaining: 1 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([1, 2]);
+  });
+
+  it('should resize the bucket from the rate limit headers', () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 200 });
+
+    limiter.update({ 'x-rate-limit': '700', 'x-rate-limit-remaining': '650' });
+
+    expect(limiter.snapshot()).toMatchObject({ limit: 700, available: 200, remaining: 650 });
+  });
+
+  it('should hold every request during a pause', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 600 });
+    let granted = false;
+
+    limiter.pause(5000);
+    limiter.acquire().then(() => { granted = true; });
+
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(granted).toBe(false);
+    expect(limiter.snapshot()).toMatchObject({ throttled: 1, pausedUntil: expect.any(String) });
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(granted).toBe(true);
+  });
+});
+
+/**
+ * Local mock of the Zendesk tickets API
+ */
+describe('ZendeskClient (mock Zendesk server)', () => {
+  let server: Server;
+  let responses: Array<{ status: number; headers?: Record<string, string>; body?: unknown }>;
+  let requests: Array<{ method: string; body: unknown }>;
+  let zendesk: ZendeskClient;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.all('/api/v2/tickets/:id.json', (req, res) => {
+      requests.push({ method: req.method, body: req.body });
+      const next = responses.shift() || { status: 200 };
+      res.status(next.status).set(next.headers || {}).json(next.body ?? {
+        ticket: { id: Number(req.params.id), updated_at: '2024-01-15T11:00:00Z' },
+      });
+    });
+
+    app.get('/api/v2/search/export.json', (req, res) => {
+      requests.push({ method: req.method, body: req.query });
+      const next = responses.shift() || { status: 200 };
+      res.status(next.status).json(next.body);
+    });
+
+    await new Promise<void>(resolve => {
+      server = app.listen(0, () => resolve());
+    });
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    responses = [];
+    requests = [];
+    const port = (server.address() as AddressInfo).port;
+    zendesk = new ZendeskClient({
+      subdomain: 'test',
+      email: 'test@test.com',
+      token: 'token',
+      baseUrl: `http://127.0.0.1:${port}/api/v2`,
+      retryJitterMs: 0,
+    });
+  });
+
+  it('should retry a rate-limited read after Retry-After', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '0' }, body: { error: 'Too many requests' } }];
+
+    const ticket = await zendesk.getTicket(1);
+
+    expect(ticket.id).toBe(1);
+    expect(requests).toHaveLength(2);
+    expect(zendesk.getRateLimitState().throttled).toBe(1);
+  });
+
+  it('should give up after maxRetries', async () => {
+    responses = Array(4).fill({ status: 429, headers: { 'Retry-After': '0' }, body: {} });
+
+    await expect(zendesk.getTicket(1)).rejects.toMatchObject({ code: 'RATE_LIMIT' });
+    expect(requests).toHaveLength(4);
+  });
+
+  it('should page through search exports by cursor', async () => {
+    responses = [
+      { status: 200, body: { results: [{ id: 1 }], meta: { has_more: true, after_cursor: 'c2' } } },
+      { status: 200, body: { results: [{ id: 2 }], meta: { has_more: false, after_cursor: 'c3' } } },
+    ];
+
+    const first = await zendesk.exportTickets('status:open');
+    const second = await zendesk.exportTickets('status:open', first.cursor);
+
+    expect(first).toEqual({ tickets: [{ id: 1 }], cursor: 'c2' });
+    expect(second).toEqual({ tickets: [{ id: 2 }], cursor: undefined });
+    expect(requests.map(r => r.body)).toEqual([
+      { query: 'status:open', filter: { type: 'ticket' }, page: { size: '1000' } },
+      { query: 'status:open', filter: { type: 'ticket' }, page: { size: '1000', after: 'c2' } },
+    ]);
+  });
+
+  it('should track the rate limit headers', async () => {
+    responses = [{ status: 200, headers: { 'X-Rate-Limit': '400', 'X-Rate-Limit-Remaining': '12' } }];
+
+    await zendesk.getTicket(1);
+
+    expect(zendesk.getRateLimitState()).toMatchObject({ limit: 400, remaining: 12, available: 12 });
+  });
+
+  it('should retry a conflicting safe update against the new stamp without routing changes', async () => {
+    responses = [{ status: 409, body: { error: 'UpdateConflict' } }];
+
+    await zendesk.safeUpdateTicket(1, { priority: 'high', group_id: 7, additional_tags: ['ai_processed'] }, '2024-01-15T10:30:00Z');
+
+    expect(requests.map(r => r.method)).toEqual(['PUT', 'GET', 'PUT']);
+    expect(requests[0].body).toEqual({
+      ticket: { priority: 'high', group_id: 7, additional_tags: ['ai_processed'], safe_update: true, updated_stamp: '2024-01-15T10:30:00Z' },
+    });
+    expect(requests[2].body).toEqual({
+      ticket: { additional_tags: ['ai_processed'], safe_update: true, updated_stamp: '2024-01-15T11:00:00Z' },
+    });
+  });
+
+  it('should not retry a public comment after a conflict', async () => {
+    responses = [{ status: 409, body: { error: 'UpdateConflict' } }];
+
+    await expect(zendesk.safeUpdateTicket(1, { comment: { body: 'Hi', public: true } }, '2024-01-15T10:30:00Z'))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(requests.map(r => r.method)).toEqual(['PUT']);
+  });
+
+  it('should not post an auto-reply when an agent changed the ticket mid-run', async () => {
+    // Both writes against the stamp read at the start conflict
+    responses = [{ status: 409, body: { error: 'UpdateConflict' } }, { status: 409, body: { error: 'UpdateConflict' } }];
+    const llm = {
+      categorize: vi.fn().mockResolvedValue({ category: 'billing', path: ['billing'], confidence: 0.9 }),
+      extractIntent: vi.fn().mockResolvedValue({ intent: 'refund', urgency: 'high', sentiment: 'neutral', keyEntities: [] }),
+      generateDraft: vi.fn().mockResolvedValue({
+        draft: 'Your refund was issued today.', confidence: 0.95, suggestedTags: [], requiresHumanReview: false, reasoning: '',
+      }),
+    } as unknown as LLMOrchestrator;
+    const rag = {
+      hybridSearch: vi.fn().mockResolvedValue([{ id: 'kb-1', text: 'Refunds take 5-10 days', score: 0.9, source: 'help_center' }]),
+    } as unknown as RAGService;
+    const processor = new TicketProcessor(zendesk, llm, rag, {
+      combinedAnalysis: false,
+      useConversation: false,
+      autoReply: new AutoReplyPolicy({ mode: 'live', categories: ['billing'] }),
+    });
+
+    const result = await processor.process({
+      id: 1, subject: 'Refund', description: 'Please refund me', updatedAt: '2024-01-15T10:30:00Z',
+    });
+
+    expect(result.autoReply).toMatchObject({ action: 'failed' });
+    const puts = requests.filter(r => r.method === 'PUT').map(r => (r.body as { ticket: { comment?: { public: boolean }; priority?: string } }).ticket);
+    expect(puts.map(t => t.comment?.public)).toEqual([true, false, false]);
+    expect(puts[2].priority).toBeUndefined();
+  });
+});